@@ -1,37 +1,167 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { GameState, Character } from './data/types';
-import { createInitialGameState, addLog, addItemToInventory, checkPathUnlocks, triggerRebirth } from './engine/gameState';
-import { GameEngine } from './engine/GameEngine';
+import type { GameState, Character, CombatAction, PlayerAction, OfflineReport, SaveSlotMeta, SaveBackup } from './data/types';
+import { createInitialGameState } from './engine/gameState';
+import { ActionEngine } from './engine/ActionEngine';
 import { SaveManager } from './engine/SaveManager';
-import { ITEMS } from './data/constants';
+import type { SaveLoadResult } from './engine/SaveManager';
 import { CharacterCreation } from './components/CharacterCreation';
+import { SaveRecovery } from './components/SaveRecovery';
+import { SaveSlots } from './components/SaveSlots';
 import { GameLayout } from './components/GameLayout';
 import type { TabId } from './components/GameLayout';
 import { CultivationTab } from './components/tabs/CultivationTab';
 import { MapTab, GroupTab, SkillsTab, ShopTab, CharacterTab, EventModal } from './components/GameTabs';
+import { CombatModal } from './components/CombatModal';
+import { OfflineReportModal } from './components/OfflineReportModal';
+import { SamsaraShop } from './components/SamsaraShop';
+import { SamsaraEngine } from './engine/SamsaraEngine';
 
 export function App() {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [clickBoost, setClickBoost] = useState(false);
   const [loaded, setLoaded] = useState(false);
+  const [slots, setSlots] = useState<SaveSlotMeta[]>([]);
+  const [activeSlotId, setActiveSlotId] = useState<string | null>(null);
+  const [showSlots, setShowSlots] = useState(false);
+  const [reincarnating, setReincarnating] = useState(false); // past the Samsara shop, rolling the next life
+  const [offlineReport, setOfflineReport] = useState<OfflineReport | null>(null);
+  const [unreadableSave, setUnreadableSave] = useState<Extract<SaveLoadResult, { status: 'unreadable' }> | null>(null);
+  const [recoveryBackups, setRecoveryBackups] = useState<SaveBackup[]>([]);
 
   // Use refs for values needed in intervals
   const clickBoostRef = useRef(false);
   const gameStateRef = useRef<GameState | null>(null);
   gameStateRef.current = gameState;
 
-  // ===== LOAD SAVE ON MOUNT =====
-  useEffect(() => {
-    const saved = SaveManager.loadFromLocalStorage();
-    if (saved) {
-      const processed = SaveManager.calculateOfflineProgress(saved);
-      setGameState(processed);
-      setIsCreating(false);
+  // ===== DISPATCH =====
+  // Every change to the game goes through the reducer; the ref keeps
+  // back-to-back dispatches in the same frame from reading stale state.
+  const dispatch = useCallback((action: PlayerAction): GameState | null => {
+    const current = gameStateRef.current;
+    if (!current) return null;
+    const next = ActionEngine.applyAction(current, action);
+    if (next === current) return null;
+    gameStateRef.current = next;
+    setGameState(next);
+    return next;
+  }, []);
+
+  // ===== SAVE SLOTS =====
+  const refreshSlots = useCallback(async () => {
+    const [list, activeId] = await Promise.all([SaveManager.listSlots(), SaveManager.getActiveSlotId()]);
+    setSlots(list);
+    setActiveSlotId(activeId);
+    return list;
+  }, []);
+
+  // ===== LOAD SAVE =====
+  const loadSave = useCallback(async () => {
+    const result = await SaveManager.load();
+    if (result.status === 'loaded') {
+      const raw = JSON.stringify(result.state);
+      try {
+        const caughtUp = SaveManager.calculateOfflineProgress(result.state);
+        setGameState(caughtUp.state);
+        setOfflineReport(caughtUp.report);
+        setUnreadableSave(null);
+        setShowSlots(false);
+        setIsCreating(false);
+      } catch (e) {
+        setUnreadableSave({ status: 'unreadable', reason: `Catching up on offline time failed: ${(e as Error).message}`, raw });
+      }
+    } else if (result.status === 'unreadable') {
+      // Never start a new game over a save we could not read
+      setRecoveryBackups(await SaveManager.listBackups());
+      setUnreadableSave(result);
     } else {
-      setIsCreating(true);
+      // No slot is active: pick one if any exist, otherwise create the first character
+      const list = await refreshSlots();
+      setUnreadableSave(null);
+      setShowSlots(list.length > 0);
+      setIsCreating(list.length === 0);
     }
     setLoaded(true);
+  }, [refreshSlots]);
+
+  useEffect(() => {
+    loadSave();
+  }, [loadSave]);
+
+  const handleAbandonSave = useCallback(async () => {
+    if (unreadableSave) await SaveManager.quarantineSave(unreadableSave.raw);
+    await refreshSlots();
+    setUnreadableSave(null);
+    setIsCreating(true);
+  }, [unreadableSave, refreshSlots]);
+
+  const saveCurrent = useCallback(async () => {
+    const current = gameStateRef.current;
+    if (current && current.gamePhase === 'playing') await SaveManager.save(current);
+  }, []);
+
+  const handleOpenSlots = useCallback(async () => {
+    await saveCurrent();
+    await refreshSlots();
+    setShowSlots(true);
+  }, [saveCurrent, refreshSlots]);
+
+  const handleShowSlotsFromRecovery = useCallback(async () => {
+    await refreshSlots();
+    setUnreadableSave(null);
+    setShowSlots(true);
+  }, [refreshSlots]);
+
+  const handleLoadSlot = useCallback(async (slotId: string) => {
+    await saveCurrent();
+    gameStateRef.current = null;
+    setGameState(null);
+    setShowSlots(false);
+    await SaveManager.selectSlot(slotId);
+    await loadSave();
+  }, [saveCurrent, loadSave]);
+
+  const handleCopySlot = useCallback(async (slotId: string) => {
+    await saveCurrent();
+    await SaveManager.copySlot(slotId);
+    await refreshSlots();
+  }, [saveCurrent, refreshSlots]);
+
+  const handleDeleteSlot = useCallback(async (slotId: string) => {
+    if (slotId === activeSlotId) {
+      gameStateRef.current = null;
+      setGameState(null);
+    }
+    await SaveManager.deleteSlot(slotId);
+    const list = await refreshSlots();
+    setShowSlots(list.length > 0);
+    setIsCreating(list.length === 0);
+  }, [activeSlotId, refreshSlots]);
+
+  const handleNewCharacter = useCallback(async () => {
+    await saveCurrent();
+    gameStateRef.current = null;
+    setGameState(null);
+    setShowSlots(false);
+    setIsCreating(true);
+  }, [saveCurrent]);
+
+  const handleCancelCreation = useCallback(async () => {
+    await refreshSlots();
+    setIsCreating(false);
+    setShowSlots(true);
+  }, [refreshSlots]);
+
+  // ===== BACKUPS =====
+  const handleRestoreBackup = useCallback(async (backupId: string): Promise<boolean> => {
+    const restored = await SaveManager.restoreBackup(backupId);
+    if (!restored) return false;
+    gameStateRef.current = restored;
+    setGameState(restored);
+    setOfflineReport(null);
+    setUnreadableSave(null);
+    setShowSlots(false);
+    return true;
   }, []);
 
   // ===== GAME LOOP — 1Hz tick =====
@@ -39,15 +169,9 @@ export function App() {
     if (!gameState || gameState.gamePhase !== 'playing') return;
 
     const interval = setInterval(() => {
-      setGameState(prev => {
-        if (!prev || prev.gamePhase !== 'playing') return prev;
-        // Deep clone to avoid mutation issues
-        const cloned = JSON.parse(JSON.stringify(prev)) as GameState;
-        const boosted = clickBoostRef.current;
-        clickBoostRef.current = false;
-        const result = GameEngine.tick(cloned, boosted);
-        return result;
-      });
+      const boosted = clickBoostRef.current;
+      clickBoostRef.current = false;
+      dispatch({ type: 'tick', clickBoost: boosted });
     }, 1000);
 
     return () => clearInterval(interval);
@@ -60,7 +184,7 @@ export function App() {
     const interval = setInterval(() => {
       const current = gameStateRef.current;
       if (current && current.gamePhase === 'playing') {
-        SaveManager.saveToLocalStorage(current);
+        SaveManager.autoSave(current); // async; the tick loop never waits on storage
       }
     }, 30000);
 
@@ -68,11 +192,18 @@ export function App() {
   }, [gameState?.gamePhase]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // ===== CHARACTER CREATION =====
-  const handleCharacterConfirm = useCallback((character: Character) => {
+  // The slot is written before play starts, so auto-saves never land in another character's slot
+  const handleCharacterConfirm = useCallback(async (character: Character) => {
     const state = createInitialGameState(character);
+    try {
+      await SaveManager.createSlot(state);
+    } catch (e) {
+      alert(`Could not create a save slot: ${(e as Error).message}`);
+      return;
+    }
+    gameStateRef.current = state;
     setGameState(state);
     setIsCreating(false);
-    SaveManager.saveToLocalStorage(state);
   }, []);
 
   // ===== CLICK BOOST =====
@@ -83,83 +214,122 @@ export function App() {
   }, []);
 
   // ===== REBIRTH =====
-  const handleRebirth = useCallback((currentState: GameState) => {
-    const newState = triggerRebirth(currentState);
-    setGameState(newState);
-    SaveManager.saveToLocalStorage(newState);
-  }, []);
+  // Death opens the Samsara shop; the next life starts from character creation
+  const handleRebirth = useCallback(() => {
+    dispatch({ type: 'rebirth' });
+  }, [dispatch]);
 
-  // ===== EVENT CHOICE =====
-  const handleEventChoice = useCallback((choiceIdx: number) => {
-    setGameState(prev => {
-      if (!prev || !prev._pendingEvent) return prev;
-      const event = prev._pendingEvent;
-      const choice = event.choices[choiceIdx];
-      if (!choice) return prev;
-
-      const ns = JSON.parse(JSON.stringify(prev)) as GameState;
-      ns._pendingEvent = null;
-
-      // Apply karma change
-      if (choice.karmaChange) {
-        ns.character.karma = Math.max(-1000, Math.min(1000, ns.character.karma + choice.karmaChange));
-      }
-
-      // Apply spirit stone rewards
-      if (choice.rewards.spiritStones) {
-        ns.spiritStones += choice.rewards.spiritStones;
-      }
+  // Between lives nothing auto-saves, so a failed save is reported instead of lost
+  const saveBetweenLives = useCallback(async (state: GameState) => {
+    const saved = await SaveManager.save(state).catch(() => false);
+    if (!saved) alert('Could not save your progress. Check that this site is allowed to store data.');
+  }, []);
 
-      // Apply spirit stone losses
-      if (choice.losses.spiritStones) {
-        ns.spiritStones = Math.max(0, ns.spiritStones - choice.losses.spiritStones);
-      }
+  // Nothing ticks between lives, so save each purchase as it happens
+  useEffect(() => {
+    if (gameState?.gamePhase === 'samsara') saveBetweenLives(gameState);
+  }, [gameState, saveBetweenLives]);
 
-      // Apply item rewards
-      if (choice.rewards.items) {
-        choice.rewards.items.forEach(itemId => {
-          const item = ITEMS[itemId];
-          if (item) addItemToInventory(ns, item);
-        });
-      }
+  const handleReincarnate = useCallback(async (character?: Character) => {
+    setReincarnating(false);
+    const newState = dispatch({ type: 'reincarnate', character });
+    if (newState) await saveBetweenLives(newState);
+  }, [dispatch, saveBetweenLives]);
 
-      addLog(
-        ns,
-        `📋 ${event.title}: ${choice.text}`,
-        choice.karmaChange >= 0 ? 'success' : 'warning'
-      );
+  const handleLeaveSamsara = useCallback(() => {
+    const current = gameStateRef.current;
+    if (current && SamsaraEngine.keepsCharacter(current)) {
+      handleReincarnate();
+    } else {
+      setReincarnating(true);
+    }
+  }, [handleReincarnate]);
 
-      checkPathUnlocks(ns);
+  // ===== IMPORT =====
+  // Imports open their own slot rather than overwriting the current character
+  const handleImport = useCallback(async (imported: GameState) => {
+    await saveCurrent();
+    await SaveManager.createSlot(imported);
+    gameStateRef.current = imported;
+    setGameState(imported);
+  }, [saveCurrent]);
 
-      // Check devil path unlock
-      if (ns.character.karma <= -100 && !ns.character.devilMark) {
-        if (ns.pathProgress['devil_soul']?.unlocked || ns.pathProgress['devil_body']?.unlocked) {
-          ns.character.devilMark = true;
-          addLog(ns, '💀 You have been permanently marked as a Devil Cultivator!', 'danger');
-        }
-      }
+  // ===== EVENT CHOICE =====
+  const handleEventChoice = useCallback((choiceIdx: number) => {
+    dispatch({ type: 'event_choice', choiceIdx });
+  }, [dispatch]);
 
-      return ns;
-    });
-  }, []);
+  // ===== COMBAT ROUND =====
+  const handleCombatAction = useCallback((action: CombatAction) => {
+    dispatch({ type: 'combat', action });
+  }, [dispatch]);
 
   // ===== LOADING STATE =====
-  if (!loaded) {
-    return (
-      <div className="min-h-screen flex items-center justify-center" style={{ background: '#0a0a0f' }}>
-        <div className="text-center">
-          <div className="text-4xl mb-4 animate-pulse">🔮</div>
-          <div style={{ color: '#fbbf24', fontFamily: 'Cinzel, serif' }}>
-            Loading the Grand Dao...
-          </div>
+  const loadingScreen = (
+    <div className="min-h-screen flex items-center justify-center" style={{ background: '#0a0a0f' }}>
+      <div className="text-center">
+        <div className="text-4xl mb-4 animate-pulse">🔮</div>
+        <div style={{ color: '#fbbf24', fontFamily: 'Cinzel, serif' }}>
+          Loading the Grand Dao...
         </div>
       </div>
+    </div>
+  );
+  if (!loaded) return loadingScreen;
+
+  // ===== SAVE RECOVERY SCREEN =====
+  if (unreadableSave) {
+    return (
+      <SaveRecovery
+        reason={unreadableSave.reason}
+        raw={unreadableSave.raw}
+        onRetry={loadSave}
+        onStartNew={handleAbandonSave}
+        backups={recoveryBackups}
+        onRestore={handleRestoreBackup}
+        onShowSlots={handleShowSlotsFromRecovery}
+      />
     );
   }
 
   // ===== CHARACTER CREATION SCREEN =====
-  if (isCreating || !gameState) {
-    return <CharacterCreation onConfirm={handleCharacterConfirm} />;
+  if (isCreating) {
+    return <CharacterCreation onConfirm={handleCharacterConfirm} onCancel={slots.length > 0 ? handleCancelCreation : undefined} />;
+  }
+
+  // ===== SAVE SLOT PICKER =====
+  if (showSlots) {
+    return (
+      <SaveSlots
+        slots={slots}
+        activeSlotId={activeSlotId}
+        onLoad={handleLoadSlot}
+        onCopy={handleCopySlot}
+        onDelete={handleDeleteSlot}
+        onNew={handleNewCharacter}
+        onClose={gameState ? () => setShowSlots(false) : undefined}
+      />
+    );
+  }
+
+  // Between screens while storage catches up
+  if (!gameState) return loadingScreen;
+
+  // ===== SAMSARA =====
+  if (gameState.gamePhase === 'samsara') {
+    if (reincarnating) {
+      return (
+        <CharacterCreation
+          onConfirm={handleReincarnate}
+          rebirth={{
+            name: gameState.character.name,
+            freeRerolls: SamsaraEngine.getLevel(gameState, 'defiant_fate'),
+            chooseBackground: SamsaraEngine.getLevel(gameState, 'chosen_birth') > 0,
+          }}
+        />
+      );
+    }
+    return <SamsaraShop state={gameState} dispatch={dispatch} onContinue={handleLeaveSamsara} />;
   }
 
   // ===== RENDER TAB CONTENT =====
@@ -169,21 +339,21 @@ export function App() {
         return (
           <CultivationTab
             state={gameState}
-            setState={s => setGameState(s)}
+            dispatch={dispatch}
             onClickBoost={handleClickBoost}
             onRebirth={handleRebirth}
           />
         );
       case 'map':
-        return <MapTab state={gameState} setState={s => setGameState(s)} />;
+        return <MapTab state={gameState} dispatch={dispatch} />;
       case 'group':
-        return <GroupTab state={gameState} setState={s => setGameState(s)} />;
+        return <GroupTab state={gameState} dispatch={dispatch} />;
       case 'skills':
-        return <SkillsTab state={gameState} setState={s => setGameState(s)} />;
+        return <SkillsTab state={gameState} dispatch={dispatch} />;
       case 'shop':
-        return <ShopTab state={gameState} setState={s => setGameState(s)} />;
+        return <ShopTab state={gameState} dispatch={dispatch} />;
       case 'character':
-        return <CharacterTab state={gameState} setState={s => setGameState(s)} />;
+        return <CharacterTab state={gameState} dispatch={dispatch} onImport={handleImport} onOpenSlots={handleOpenSlots} onRestoreBackup={handleRestoreBackup} />;
       default:
         return null;
     }
@@ -193,7 +363,7 @@ export function App() {
     <>
       <GameLayout
         state={gameState}
-        setState={s => setGameState(s)}
+        dispatch={dispatch}
         clickBoost={clickBoost}
         renderTab={renderTab}
       />
@@ -202,9 +372,23 @@ export function App() {
       {gameState._pendingEvent && (
         <EventModal
           event={gameState._pendingEvent}
+          state={gameState}
           onChoice={handleEventChoice}
         />
       )}
+
+      {/* OFFLINE REPORT */}
+      {offlineReport && !gameState._pendingEvent && (
+        <OfflineReportModal report={offlineReport} onClose={() => setOfflineReport(null)} />
+      )}
+
+      {/* COMBAT MODAL */}
+      {gameState.combat && !gameState._pendingEvent && (
+        <CombatModal
+          combat={gameState.combat}
+          onAction={handleCombatAction}
+        />
+      )}
     </>
   );
 }
@@ -1,10 +1,19 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { Character, SpiritRoot, BodyType, Background } from '../data/types';
 import { SPIRIT_ROOTS, BODY_TYPES, BACKGROUNDS, RARITY_COLORS } from '../data/constants';
-import { weightedRandom, rollLuck } from '../utils/random';
+import { weightedRandom, rollLuck, randomPick, createRng } from '../utils/random';
+
+/** Set when creating the next life after the Samsara shop. */
+interface RebirthOptions {
+  name: string; // names persist through rebirth
+  freeRerolls: number; // Defiant Fate levels, on top of the usual free first re-roll
+  chooseBackground: boolean; // Chosen Birth
+}
 
 interface Props {
   onConfirm: (character: Character) => void;
+  onCancel?: () => void; // back to the save slots, when there are any
+  rebirth?: RebirthOptions;
 }
 
 // ========== COLOR HELPERS ==========
@@ -59,10 +68,11 @@ function getLuckHint(luck: number): { text: string; color: string } {
 
 // ========== ROLL CHARACTER ==========
 function rollNewCharacter(name: string): Character {
-  const spiritRoot: SpiritRoot = weightedRandom(SPIRIT_ROOTS);
-  const bodyType: BodyType = weightedRandom(BODY_TYPES);
-  const background: Background = BACKGROUNDS[Math.floor(Math.random() * BACKGROUNDS.length)];
-  const luck = rollLuck();
+  const rng = createRng();
+  const spiritRoot: SpiritRoot = weightedRandom(rng, SPIRIT_ROOTS);
+  const bodyType: BodyType = weightedRandom(rng, BODY_TYPES);
+  const background: Background = randomPick(rng, BACKGROUNDS);
+  const luck = rollLuck(rng);
 
   return {
     name: name || 'Unnamed Cultivator',
@@ -187,8 +197,8 @@ function RollingText({ items, finalValue, color, duration = 1500 }: {
 }
 
 // ========== MAIN COMPONENT ==========
-export function CharacterCreation({ onConfirm }: Props) {
-  const [name, setName] = useState('');
+export function CharacterCreation({ onConfirm, onCancel, rebirth }: Props) {
+  const [name, setName] = useState(rebirth?.name ?? '');
   const [character, setCharacter] = useState<Character | null>(null);
   const [rerollCount, setRerollCount] = useState(0);
   const [phase, setPhase] = useState<'name' | 'rolling' | 'reveal'>('name');
@@ -217,9 +227,12 @@ export function CharacterCreation({ onConfirm }: Props) {
     doRoll();
   };
 
+  // 1st re-roll free (plus any from Defiant Fate), then 10 SS, 100 SS, etc.
+  const freeRerolls = 1 + (rebirth?.freeRerolls || 0);
+  const rerollCost = (count: number) => count < freeRerolls ? 0 : Math.pow(10, count - freeRerolls + 1);
+
   const handleReroll = () => {
-    // Calculate cost: 1st free, 2nd = 10 SS, 3rd = 100 SS, etc.
-    const cost = rerollCount === 0 ? 0 : Math.pow(10, rerollCount);
+    const cost = rerollCost(rerollCount);
     if (cost > 0 && spiritStones < cost) {
       // Can't afford — flash warning
       return;
@@ -240,7 +253,11 @@ export function CharacterCreation({ onConfirm }: Props) {
     onConfirm(finalChar);
   };
 
-  const nextRerollCost = rerollCount === 0 ? 0 : Math.pow(10, rerollCount);
+  const handleChooseBackground = (background: Background) => {
+    if (character) setCharacter({ ...character, background });
+  };
+
+  const nextRerollCost = rerollCost(rerollCount);
   const canAffordReroll = nextRerollCost === 0 || spiritStones >= nextRerollCost;
   const rerollCostLabel = nextRerollCost === 0 ? 'Free' : `${nextRerollCost} 💎`;
 
@@ -299,7 +316,7 @@ export function CharacterCreation({ onConfirm }: Props) {
               className="text-xl font-bold mb-2 text-center"
               style={{ fontFamily: 'Cinzel, serif', color: '#e2c97e' }}
             >
-              📜 What Is Your Name, Mortal?
+              {rebirth ? '☸️ You Return to the Mortal World' : '📜 What Is Your Name, Mortal?'}
             </h2>
             <p className="text-xs text-center mb-6" style={{ color: '#5a4a6a' }}>
               This name shall persist through death, rebirth, and the ages.
@@ -312,6 +329,7 @@ export function CharacterCreation({ onConfirm }: Props) {
               onKeyDown={e => e.key === 'Enter' && handleNameSubmit()}
               placeholder="Enter your name..."
               maxLength={24}
+              readOnly={!!rebirth}
               autoFocus
               className="w-full px-4 py-4 rounded-lg border text-white text-center text-lg focus:outline-none transition-all duration-300"
               style={{
@@ -339,6 +357,16 @@ export function CharacterCreation({ onConfirm }: Props) {
             >
               ⚡ Begin the Fate Roll
             </button>
+
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="w-full mt-3 py-2 text-xs transition-all hover:brightness-125"
+                style={{ color: '#5a4a6a' }}
+              >
+                ← Back to Save Slots
+              </button>
+            )}
           </div>
         )}
 
@@ -509,6 +537,24 @@ export function CharacterCreation({ onConfirm }: Props) {
                   <div className="text-sm mt-2 font-bold" style={{ color: '#60a5fa' }}>
                     ✨ {character.background.bonus}
                   </div>
+                  {rebirth?.chooseBackground && (
+                    <div className="flex flex-wrap gap-1 mt-3">
+                      {BACKGROUNDS.map(bg => (
+                        <button
+                          key={bg.id}
+                          onClick={() => handleChooseBackground(bg)}
+                          className="px-2 py-1 rounded text-[10px] font-bold transition-all active:scale-95"
+                          style={{
+                            background: bg.id === character.background.id ? '#2a1040' : '#0a0a0f',
+                            border: `1px solid ${bg.id === character.background.id ? '#c084fc' : '#2a2040'}`,
+                            color: bg.id === character.background.id ? '#c084fc' : '#8a7a6a',
+                          }}
+                        >
+                          {bg.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -585,9 +631,9 @@ export function CharacterCreation({ onConfirm }: Props) {
 
                 {/* Re-roll info */}
                 <div className="text-center text-[10px]" style={{ color: '#3a2a50' }}>
-                  {rerollCount === 0
-                    ? '1st re-roll is free. Subsequent re-rolls cost Spirit Stones.'
-                    : `Spirit Stones: ${spiritStones} 💎 | Next re-roll: ${Math.pow(10, rerollCount + 1)} 💎`}
+                  {rerollCount < freeRerolls
+                    ? `${freeRerolls - rerollCount} free re-roll${freeRerolls - rerollCount > 1 ? 's' : ''} left. Later re-rolls cost Spirit Stones.`
+                    : `Spirit Stones: ${spiritStones} 💎 | Next re-roll: ${nextRerollCost} 💎`}
                 </div>
               </div>
             )}
@@ -0,0 +1,62 @@
+import type { CombatState, CombatAction } from '../data/types';
+
+function HpBar({ label, hp, maxHp, color }: { label: string; hp: number; maxHp: number; color: string }) {
+  const pct = Math.max(0, Math.min(100, (hp / Math.max(1, maxHp)) * 100));
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-gray-300">{label}</span>
+        <span className="font-mono" style={{ color }}>{Math.max(0, hp)}/{maxHp}</span>
+      </div>
+      <div className="h-2.5 rounded-full overflow-hidden" style={{ background: '#12101a' }}>
+        <div className="h-full rounded-full transition-all duration-300" style={{ width: `${pct}%`, background: color }} />
+      </div>
+    </div>
+  );
+}
+
+export function CombatModal({ combat, onAction }: { combat: CombatState; onAction: (action: CombatAction) => void }) {
+  const actions: { id: CombatAction; label: string; hint: string; color: string }[] = [
+    { id: 'strike', label: '⚔️ Strike', hint: 'Full damage', color: '#f97316' },
+    { id: 'guard', label: '🛡️ Guard', hint: 'Safer, half damage', color: '#60a5fa' },
+    { id: 'flee', label: '🏃 Flee', hint: 'Escape, no loot', color: '#9ca3af' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.85)' }}>
+      <div className="w-full max-w-md rounded-xl p-6 border" style={{ background: '#0d0d15', borderColor: '#ef444460', boxShadow: '0 0 30px rgba(239, 68, 68, 0.2)' }}>
+        <h3 className="text-lg font-bold mb-1" style={{ fontFamily: 'Cinzel, serif', color: '#ef4444' }}>
+          {combat.enemyIcon} {combat.enemyName}
+        </h3>
+        <div className="text-xs text-gray-500 mb-4">⚡{combat.enemyPower} Power — Round {combat.round + 1}</div>
+
+        <div className="space-y-3 mb-4">
+          <HpBar label={combat.enemyName} hp={combat.enemyHp} maxHp={combat.enemyMaxHp} color="#ef4444" />
+          <HpBar label="You" hp={combat.playerHp} maxHp={combat.playerMaxHp} color="#4ade80" />
+        </div>
+
+        <div className="rounded-lg p-2 mb-4 min-h-[88px] space-y-0.5" style={{ background: '#0a0a12', border: '1px solid #1a1828' }}>
+          {combat.log.length === 0
+            ? <div className="text-xs text-gray-600 italic">The enemy circles, waiting for your move...</div>
+            : combat.log.map((line, i) => (
+              <div key={i} className="text-xs text-gray-400">{line}</div>
+            ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {actions.map(a => (
+            <button
+              key={a.id}
+              onClick={() => onAction(a.id)}
+              className="p-2 rounded-lg border transition-all active:scale-95"
+              style={{ background: '#1a1025', borderColor: `${a.color}50`, color: a.color, minHeight: '52px' }}
+            >
+              <div className="text-sm font-bold">{a.label}</div>
+              <div className="text-[10px] text-gray-500">{a.hint}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { GameState, Companion, CompanionBonusType, ActionDispatch } from '../data/types';
+import { formatPercent } from '../engine/gameState';
+import { CompanionEngine } from '../engine/CompanionEngine';
+
+interface CompanionRosterProps {
+  state: GameState;
+  dispatch: ActionDispatch;
+}
+
+function describeBonus(type: CompanionBonusType, amount: number): string {
+  if (type === 'power') return `+${amount} Power`;
+  if (type === 'loot') return `${formatPercent(amount)} double-find chance`;
+  return `+${(amount * 100).toFixed(1)}% discovery rate`;
+}
+
+export function CompanionRoster({ state, dispatch }: CompanionRosterProps) {
+  const companions: Companion[] = state.companions || [];
+  const wildSpecies = state.wildBeast ? CompanionEngine.getSpecies(state.wildBeast) : undefined;
+  const rosterLimit = CompanionEngine.getRosterLimit(state);
+  const rosterFull = companions.length >= rosterLimit;
+
+  return (
+    <div className="rounded-xl p-4 border" style={{ background: '#0d0d18', borderColor: '#1a1828' }}>
+      <h3 className="text-xs font-bold mb-3 uppercase tracking-[0.15em]" style={{ color: '#c9a44a' }}>
+        🐾 Spirit Beasts <span className="font-normal text-gray-600">({companions.length}/{rosterLimit})</span>
+      </h3>
+
+      {wildSpecies && (
+        <div className="p-3 rounded-lg mb-3" style={{ background: '#0a1a10', border: '1px solid #4ade8030' }}>
+          <div className="text-sm font-bold" style={{ color: '#4ade80' }}>
+            {wildSpecies.icon} A wild {wildSpecies.name} appears!
+          </div>
+          <div className="text-[10px] text-gray-500 mb-2">{wildSpecies.description}</div>
+          <div className="text-xs text-gray-400 mb-2">
+            Tame chance: <span style={{ color: '#fbbf24' }}>{formatPercent(CompanionEngine.getTameChance(state, wildSpecies))}</span>
+            {state.inventory.some(i => i.id === 'taming_bell') && <span style={{ color: '#a78bfa' }}> (🔔 bell)</span>}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => dispatch({ type: 'tame_beast' })}
+              disabled={rosterFull}
+              className="flex-1 py-2 rounded-lg text-xs font-bold disabled:opacity-30 disabled:cursor-not-allowed"
+              style={{ background: '#4ade8015', color: '#4ade80', border: '1px solid #4ade8030', minHeight: '36px' }}
+            >
+              {rosterFull ? 'Roster Full' : '🤝 Tame'}
+            </button>
+            <button
+              onClick={() => dispatch({ type: 'ignore_beast' })}
+              className="flex-1 py-2 rounded-lg text-xs font-bold"
+              style={{ background: '#0e0e18', color: '#6b7280', border: '1px solid #1a1828', minHeight: '36px' }}
+            >
+              Let it go
+            </button>
+          </div>
+        </div>
+      )}
+
+      {companions.length === 0 ? (
+        <div className="text-xs text-gray-600">
+          No companions yet. Explore the wilds to meet spirit beasts.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {companions.map(c => {
+            const species = CompanionEngine.getSpecies(c.speciesId);
+            if (!species) return null;
+            const isActive = state.activeCompanionUid === c.uid;
+            const bondRequired = CompanionEngine.getBondRequired(c.level);
+            const atCap = c.level >= CompanionEngine.getTamerLevel(state);
+            return (
+              <div
+                key={c.uid}
+                className="p-2 rounded-lg"
+                style={{ background: isActive ? '#14101f' : '#0a0a15', border: `1px solid ${isActive ? '#a78bfa40' : '#1a1828'}` }}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-bold text-gray-200">
+                      {species.icon} {species.name} <span className="text-xs text-gray-500">Lv.{c.level}</span>
+                    </div>
+                    <div className="text-[10px]" style={{ color: '#4ade80' }}>
+                      {describeBonus(species.bonusType, species.bonusPerLevel * c.level)}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => dispatch({ type: 'set_active_companion', uid: isActive ? null : c.uid })}
+                      className="px-2 py-1 rounded text-[10px] font-bold"
+                      style={{ background: '#a78bfa15', color: '#a78bfa', border: '1px solid #a78bfa25', minHeight: '28px' }}
+                    >
+                      {isActive ? 'Dismiss' : 'Summon'}
+                    </button>
+                    <button
+                      onClick={() => dispatch({ type: 'release_companion', uid: c.uid })}
+                      className="px-2 py-1 rounded text-[10px] font-bold"
+                      style={{ background: '#ef444410', color: '#ef4444', border: '1px solid #ef444425', minHeight: '28px' }}
+                    >
+                      Release
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-1.5 h-1.5 rounded-full overflow-hidden" style={{ background: '#12101a' }}>
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${atCap ? 100 : (c.bond / bondRequired) * 100}%`, background: atCap ? '#4a4a5a' : '#a78bfa' }}
+                  />
+                </div>
+                <div className="text-[9px] text-gray-600 mt-0.5">
+                  {atCap ? 'Bond capped by your Resonance Path level' : `Bond ${c.bond}/${bondRequired}${isActive ? '' : ' — summon and explore to deepen'}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
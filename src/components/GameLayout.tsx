@@ -1,7 +1,7 @@
 import { useState, type ReactNode } from 'react';
-import type { GameState } from '../data/types';
+import type { GameState, ActionDispatch } from '../data/types';
 import { PATHS } from '../data/constants';
-import { formatNumber, formatTime, addLog } from '../engine/gameState';
+import { formatNumber, formatTime } from '../engine/gameState';
 import { SaveManager } from '../engine/SaveManager';
 
 type TabId = 'map' | 'cultivation' | 'group' | 'skills' | 'shop' | 'character';
@@ -17,14 +17,14 @@ const TABS: { id: TabId; label: string; icon: string }[] = [
 
 interface GameLayoutProps {
   state: GameState;
-  setState: (s: GameState) => void;
+  dispatch: ActionDispatch;
   clickBoost: boolean;
   renderTab: (tabId: TabId) => ReactNode;
 }
 
 export type { TabId };
 
-export function GameLayout({ state, setState, clickBoost, renderTab }: GameLayoutProps) {
+export function GameLayout({ state, dispatch, clickBoost, renderTab }: GameLayoutProps) {
   const [activeTab, setActiveTab] = useState<TabId>('cultivation');
 
   // Derive current path info
@@ -33,10 +33,9 @@ export function GameLayout({ state, setState, clickBoost, renderTab }: GameLayou
   const currentLevelData = activePath && activeProgress ? activePath.levels[activeProgress.currentLevel - 1] : null;
 
   const handleManualSave = () => {
-    const ns = { ...state };
-    SaveManager.saveToLocalStorage(ns);
-    addLog(ns, '💾 Game saved!', 'system');
-    setState(ns);
+    SaveManager.save(state).then(saved => {
+      dispatch({ type: 'log', text: saved ? '💾 Game saved!' : '❌ Saving failed — storage is full or unavailable.', logType: 'system' });
+    });
   };
 
   // Action color mapping
@@ -1,369 +1,26 @@
-import { useState, useMemo } from 'react';
-import type { GameState, ActionType, GameEvent } from '../data/types';
-import { PATHS, REGIONS, ITEMS, RARITY_COLORS, GROUPS, SHOP_ITEMS_BY_REALM, SHOP_PRICE_MULTIPLIER, BREAKTHROUGH_RATES, getLuckDescriptor, getKarmaLabel } from '../data/constants';
-import { formatNumber, formatTime, formatPercent, attemptBreakthrough, buySpiritStoneBoost, usePill, addLog, removeItemFromInventory, addItemToInventory, exportSave, importSave, deleteSave, calculatePower, checkPathUnlocks, startTribulation, triggerRebirth } from '../engine/gameState';
-import type { TribulationState } from '../engine/gameState';
-
-// ===== CULTIVATION TAB =====
-export function CultivationTab({ state, setState, onClickBoost, onRebirth }: { state: GameState; setState: (s: GameState) => void; onClickBoost: () => void; onRebirth?: (state: GameState) => void }) {
-  const [breakResult, setBreakResult] = useState<string | null>(null);
-  const [tribulation, setTribulation] = useState<TribulationState | null>(null);
-
-  const activePath = state.activePathId ? PATHS.find(p => p.id === state.activePathId) : null;
-  const activeProgress = state.activePathId ? state.pathProgress[state.activePathId] : null;
-
-  const unlockedPaths = PATHS.filter(p => state.pathProgress[p.id]?.unlocked);
-
-  const xpPerSec = useMemo(() => {
-    if (!activePath || !activeProgress || activeProgress.breakthroughAvailable) return 0;
-    if (state.currentAction === 'explore' || state.currentAction === 'idle') return 0;
-    // Only show XP/s if action matches the path
-    if ((activePath.action as string) !== state.currentAction) return 0;
-    const speed = activePath.speedModifier(state);
-    const deviationMult = state.qiDeviation.active ? 0.5 : 1;
-    const legacyMult = 1 + state.character.legacyBonus;
-    const buffMult = state.buffs.reduce((m, b) => m * b.multiplier, 1);
-    return speed * deviationMult * legacyMult * buffMult;
-  }, [activePath, activeProgress, state]);
-
-  const handleAction = (action: ActionType) => {
-    const ns = { ...state };
-    if (ns.currentAction === action) {
-      ns.currentAction = 'idle';
-    } else {
-      ns.currentAction = action;
-      if (action === 'cultivate') {
-        const qiPath = ['spirit', 'rogue', 'devil_soul', 'oracle', 'harmonic', 'bloodline', 'dream', 'necromancy'].find(id => ns.pathProgress[id]?.unlocked);
-        if (qiPath) ns.activePathId = qiPath;
-      } else if (action === 'train') {
-        const bodyPath = ['martial', 'devil_body'].find(id => ns.pathProgress[id]?.unlocked);
-        if (bodyPath) ns.activePathId = bodyPath;
-      }
-      // Explore: don't change active path
-    }
-    setState(ns);
-  };
-
-  const handleBreakthrough = () => {
-    const ns = { ...state };
-    const pillBonus = ns.inventory
-      .filter(i => i.id === 'breakthrough_pill')
-      .reduce((s, i) => s + (i.effects.breakthroughBonus || 0) * i.quantity, 0);
-
-    // Use breakthrough pills
-    while (ns.inventory.some(i => i.id === 'breakthrough_pill')) {
-      removeItemFromInventory(ns, 'breakthrough_pill');
-    }
-
-    const result = attemptBreakthrough(ns, pillBonus);
-    setBreakResult(result.message);
-
-    if (result.outcome === 'death') {
-      setState(ns);
-      setTimeout(() => {
-        if (onRebirth) {
-          onRebirth(ns);
-        } else {
-          const reborn = triggerRebirth(ns);
-          setState(reborn);
-        }
-        setBreakResult(null);
-      }, 3000);
-    } else {
-      setState(ns);
-      setTimeout(() => setBreakResult(null), 3000);
-    }
-  };
-
-  const handleTribulationStrike = () => {
-    if (!tribulation || !tribulation.strikeActive) return;
-    setTribulation(prev => {
-      if (!prev) return null;
-      const next = { ...prev, strikeActive: false, currentStrike: prev.currentStrike + 1 };
-      if (next.currentStrike >= next.strikes) {
-        next.completed = true;
-        next.survived = true;
-        addLog(state, '⚡ Heavenly Tribulation SURVIVED!', 'legendary');
-        handleBreakthrough();
-      }
-      return next;
-    });
-  };
-
-  const progressPercent = activeProgress ? (activeProgress.currentXp / activeProgress.xpRequired) * 100 : 0;
-  const currentLevelData = activePath && activeProgress ? activePath.levels[activeProgress.currentLevel - 1] : null;
-
-  return (
-    <div className="space-y-4">
-      {/* Current Status */}
-      {activePath && activeProgress && (
-        <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
-          <div className="flex items-center justify-between mb-2">
-            <div>
-              <div className="text-xs uppercase tracking-wider opacity-60" style={{ color: activePath.color }}>{activePath.subtitle}</div>
-              <h3 className="text-lg font-bold" style={{ fontFamily: 'Cinzel, serif', color: activePath.color }}>
-                {activePath.icon} {activePath.name}
-              </h3>
-            </div>
-            <div className="text-right">
-              <div className="text-xs opacity-60 text-gray-400">Level {activeProgress.currentLevel}/12</div>
-              <div className="text-sm font-bold" style={{ color: activePath.color }}>
-                {currentLevelData?.tierName} Tier {currentLevelData?.tier}
-              </div>
-            </div>
-          </div>
-
-          {/* Level Name */}
-          <div className="mb-3">
-            <div className="font-bold text-white" style={{ fontFamily: 'Cinzel, serif' }}>{currentLevelData?.name}</div>
-            <div className="text-xs italic text-gray-500">{currentLevelData?.flavor}</div>
-          </div>
-
-          {/* XP Bar */}
-          <div className="mb-2">
-            <div className="flex justify-between text-xs mb-1">
-              <span className="text-gray-400">{formatNumber(activeProgress.currentXp)} / {formatNumber(activeProgress.xpRequired)} XP</span>
-              <span style={{ color: '#4ade80' }}>{state.currentAction === 'explore' ? '🗺️ Exploring' : state.currentAction !== 'idle' ? `${xpPerSec.toFixed(2)}/s` : 'Idle'}</span>
-            </div>
-            <div className="h-4 rounded-full overflow-hidden" style={{ background: '#1a1025' }}>
-              <div
-                className="h-full rounded-full transition-all duration-500"
-                style={{
-                  width: `${progressPercent}%`,
-                  background: `linear-gradient(90deg, ${activePath.color}88, ${activePath.color})`,
-                  boxShadow: `0 0 10px ${activePath.color}66`,
-                }}
-              />
-            </div>
-            <div className="text-xs text-right mt-1 text-gray-500">
-              ETA: {xpPerSec > 0 && !activeProgress.breakthroughAvailable ? formatTime(Math.ceil((activeProgress.xpRequired - activeProgress.currentXp) / xpPerSec)) : '—'}
-            </div>
-          </div>
-
-          {/* Breakthrough */}
-          {activeProgress.breakthroughAvailable && activeProgress.currentLevel < 12 && (
-            <div className="mt-3 p-3 rounded-lg border" style={{ background: '#1a0a0a', borderColor: '#ff4444' }}>
-              <div className="text-sm font-bold mb-2" style={{ color: '#fbbf24' }}>⚡ Breakthrough Available!</div>
-              <div className="text-xs text-gray-400 mb-2">
-                Base Success: {formatPercent(BREAKTHROUGH_RATES[activeProgress.currentLevel] || 0.1)}
-                {state.inventory.some(i => i.id === 'breakthrough_pill') && (
-                  <span style={{ color: '#4ade80' }}> + Pills</span>
-                )}
-              </div>
-              <button
-                onClick={() => {
-                  const isTierTransition = [4, 8].includes(activeProgress.currentLevel);
-                  if (isTierTransition) {
-                    // Start tribulation
-                    const ts = startTribulation(state);
-                    setTribulation(ts);
-                    addLog(state, '⛈️ HEAVENLY TRIBULATION BEGINS!', 'danger');
-                    // Auto-progress tribulation strikes
-                    let strikeNum = 0;
-                    const doStrike = () => {
-                      strikeNum++;
-                      setTribulation(prev => {
-                        if (!prev) return null;
-                        return { ...prev, strikeActive: true, strikeTimer: prev.timeWindow, currentStrike: strikeNum - 1 };
-                      });
-                    };
-                    doStrike();
-                  } else {
-                    handleBreakthrough();
-                  }
-                }}
-                className="w-full py-3 rounded-lg font-bold transition-all hover:scale-[1.02] active:scale-95"
-                style={{ background: 'linear-gradient(135deg, #b8860b, #daa520)', color: '#0a0a0f', minHeight: '48px' }}
-              >
-                ⚡ Attempt Breakthrough
-              </button>
-            </div>
-          )}
-
-          {breakResult && (
-            <div className="mt-2 p-3 rounded-lg text-center font-bold text-sm" style={{ background: breakResult.includes('SUCCESS') || breakResult.includes('Advanced') ? '#0a2a0a' : '#2a0a0a', color: breakResult.includes('SUCCESS') || breakResult.includes('Advanced') ? '#4ade80' : '#ef4444' }}>
-              {breakResult}
-            </div>
-          )}
-        </div>
-      )}
-
-      {/* Tribulation Modal */}
-      {tribulation && tribulation.active && !tribulation.completed && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.9)' }}>
-          <div className="w-full max-w-md rounded-xl p-6 border" style={{ background: '#0d0d15', borderColor: '#ff4444' }}>
-            <h3 className="text-xl font-bold text-center mb-4" style={{ fontFamily: 'Cinzel, serif', color: '#fbbf24' }}>
-              ⛈️ HEAVENLY TRIBULATION ⛈️
-            </h3>
-            <div className="text-center text-gray-400 mb-4">
-              Strike {tribulation.currentStrike + 1} of {tribulation.strikes}
-            </div>
-            <div className="h-4 rounded-full overflow-hidden mb-4" style={{ background: '#1a1025' }}>
-              <div className="h-full rounded-full" style={{ width: `${(tribulation.hp / tribulation.maxHp) * 100}%`, background: 'linear-gradient(90deg, #ef4444, #fbbf24)' }} />
-            </div>
-            {tribulation.strikeActive && (
-              <button
-                onClick={() => {
-                  handleTribulationStrike();
-                  if (tribulation.currentStrike + 1 < tribulation.strikes) {
-                    setTimeout(() => {
-                      setTribulation(prev => prev ? { ...prev, strikeActive: true } : null);
-                    }, 500);
-                  }
-                }}
-                className="w-full py-4 rounded-lg font-bold text-xl animate-pulse"
-                style={{ background: 'linear-gradient(135deg, #ef4444, #fbbf24)', color: '#0a0a0f', minHeight: '56px' }}
-              >
-                ⚡ RESIST! ⚡
-              </button>
-            )}
-          </div>
-        </div>
-      )}
-
-      {/* Action Buttons */}
-      <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
-        <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>Actions</h3>
-        <div className="grid grid-cols-3 gap-2 mb-3">
-          {(['cultivate', 'train', 'explore'] as ActionType[]).map(action => (
-            <button
-              key={action}
-              onClick={() => handleAction(action)}
-              className="py-3 rounded-lg font-bold text-sm transition-all capitalize"
-              style={{
-                background: state.currentAction === action ? (action === 'cultivate' ? '#0a2a1a' : action === 'train' ? '#2a1a0a' : '#0a1a2a') : '#1a1025',
-                color: state.currentAction === action ? (action === 'cultivate' ? '#4ade80' : action === 'train' ? '#f97316' : '#60a5fa') : '#666',
-                border: `1px solid ${state.currentAction === action ? (action === 'cultivate' ? '#4ade80' : action === 'train' ? '#f97316' : '#60a5fa') : '#2a2040'}`,
-                minHeight: '48px',
-              }}
-            >
-              {action === 'cultivate' ? '🔮' : action === 'train' ? '⚔️' : '🗺️'} {action}
-            </button>
-          ))}
-        </div>
-
-        {/* Click Boost */}
-        {state.currentAction !== 'idle' && (
-          <button
-            onClick={onClickBoost}
-            className="w-full py-3 rounded-lg font-bold text-sm transition-all active:scale-95 mb-2"
-            style={{ background: '#1a1025', border: '1px solid #4ade80', color: '#4ade80', minHeight: '48px' }}
-          >
-            ⚡ Click to Boost (2x this tick)
-          </button>
-        )}
-
-        {/* Speed Boost */}
-        <button
-          onClick={() => {
-            const ns = { ...state };
-            if (buySpiritStoneBoost(ns)) setState(ns);
-          }}
-          className="w-full py-3 rounded-lg font-bold text-sm transition-all active:scale-95"
-          style={{ background: '#1a1025', border: '1px solid #a78bfa', color: '#a78bfa', minHeight: '48px' }}
-        >
-          💎 Buy 5x Speed (10min) — {10 + state.buffs.filter(b => b.id === 'ss_boost').length * 10} SS
-        </button>
-      </div>
-
-      {/* Active Buffs */}
-      {state.buffs.length > 0 && (
-        <div className="rounded-xl p-3 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
-          <h4 className="text-xs uppercase tracking-wider mb-2" style={{ color: '#c9a44a' }}>Active Buffs</h4>
-          {state.buffs.map((b, i) => (
-            <div key={i} className="flex justify-between text-sm">
-              <span className="text-gray-300">{b.icon} {b.name} ({b.multiplier}x)</span>
-              <span style={{ color: '#fbbf24' }}>{formatTime(b.remainingSeconds)}</span>
-            </div>
-          ))}
-        </div>
-      )}
-
-      {/* Qi Deviation */}
-      {state.qiDeviation.active && (
-        <div className="rounded-xl p-3 border" style={{ background: '#2a0a0a', borderColor: '#ef4444' }}>
-          <div className="flex justify-between items-center">
-            <span className="text-sm font-bold" style={{ color: '#ef4444' }}>😵 Qi Deviation Active (-50% Speed)</span>
-            <span className="text-sm" style={{ color: '#ef4444' }}>{formatTime(state.qiDeviation.remainingSeconds)}</span>
-          </div>
-          {state.inventory.some(i => i.id === 'deviation_cure') && (
-            <button
-              onClick={() => {
-                const ns = { ...state };
-                usePill(ns, 'deviation_cure');
-                setState(ns);
-              }}
-              className="mt-2 w-full py-2 rounded text-sm font-bold"
-              style={{ background: '#4ade80', color: '#0a0a0f', minHeight: '44px' }}
-            >
-              💊 Use Mind-Clearing Pill
-            </button>
-          )}
-        </div>
-      )}
-
-      {/* Path List */}
-      <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
-        <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>Discovered Paths</h3>
-        <div className="space-y-2">
-          {unlockedPaths.map(path => {
-            const pp = state.pathProgress[path.id];
-            if (!pp) return null;
-            const levelData = path.levels[pp.currentLevel - 1];
-            const isActive = state.activePathId === path.id;
-            return (
-              <button
-                key={path.id}
-                onClick={() => {
-                  const ns = { ...state, activePathId: path.id };
-                  setState(ns);
-                }}
-                className="w-full text-left p-3 rounded-lg border transition-all"
-                style={{
-                  background: isActive ? `${path.color}11` : '#0a0a0f',
-                  borderColor: isActive ? path.color : '#1a1025',
-                  minHeight: '48px',
-                }}
-              >
-                <div className="flex justify-between items-center">
-                  <span className="font-bold text-sm" style={{ color: path.color }}>
-                    {path.icon} {path.name}
-                  </span>
-                  <span className="text-xs text-gray-400">Lv.{pp.currentLevel}</span>
-                </div>
-                <div className="text-xs text-gray-500 mt-1">{levelData?.name}</div>
-                {!pp.breakthroughAvailable && (
-                  <div className="h-1.5 rounded-full mt-2 overflow-hidden" style={{ background: '#1a1025' }}>
-                    <div className="h-full rounded-full" style={{ width: `${(pp.currentXp / pp.xpRequired) * 100}%`, background: path.color }} />
-                  </div>
-                )}
-                {pp.breakthroughAvailable && (
-                  <div className="text-xs mt-1 font-bold" style={{ color: '#fbbf24' }}>⚡ BREAKTHROUGH READY</div>
-                )}
-              </button>
-            );
-          })}
-        </div>
-      </div>
-    </div>
-  );
-}
+import { useState } from 'react';
+import type { GameState, GameEvent, ActionDispatch, SaveBackup } from '../data/types';
+import { REGIONS, ITEMS, RARITY_COLORS, ALCHEMY_RECIPES, FORMATIONS, FORGE_BLUEPRINTS, EQUIPMENT_SLOTS, ACHIEVEMENTS, getLuckDescriptor, getKarmaLabel, OFFLINE_CAP_UPGRADE_HOURS } from '../data/constants';
+import { formatNumber, formatTime, formatPercent, calculatePower } from '../engine/gameState';
+import { AlchemyEngine } from '../engine/AlchemyEngine';
+import { FormationEngine } from '../engine/FormationEngine';
+import { ForgeEngine } from '../engine/ForgeEngine';
+import { TechniqueEngine } from '../engine/TechniqueEngine';
+import { AchievementEngine } from '../engine/AchievementEngine';
+import { EventEngine } from '../engine/EventEngine';
+import { ShopEngine } from '../engine/ShopEngine';
+import { GroupEngine } from '../engine/GroupEngine';
+import { SaveManager } from '../engine/SaveManager';
+import { OfflineEngine } from '../engine/OfflineEngine';
+import { TravelEngine } from '../engine/TravelEngine';
+import { RealmEngine } from '../engine/RealmEngine';
+import { QuestJournal } from './QuestJournal';
+import { RegionMap } from './RegionMap';
 
 // ===== MAP TAB =====
-export function MapTab({ state, setState }: { state: GameState; setState: (s: GameState) => void }) {
+export function MapTab({ state, dispatch }: { state: GameState; dispatch: ActionDispatch }) {
   const currentRegion = REGIONS.find(r => r.id === state.currentLocationId);
-  const discoveredRegions = REGIONS.filter(r => state.discoveredRegions.includes(r.id));
-
-  const travelTo = (regionId: string) => {
-    const target = REGIONS.find(r => r.id === regionId);
-    if (!target || state.travelState.traveling) return;
-    const distance = target.dangerLevel;
-    const travelTime = 30 + distance * 30;
-    const ns = { ...state };
-    ns.travelState = { traveling: true, destinationId: regionId, remainingSeconds: travelTime };
-    addLog(ns, `🗺️ Traveling to ${target.name}... (${formatTime(travelTime)})`, 'info');
-    setState(ns);
-  };
+  const activeFormations = FormationEngine.getActiveFormations(state);
 
   const realmColors: Record<string, string> = { mortal: '#4ade80', heaven: '#a78bfa', underworld: '#ef4444' };
 
@@ -382,7 +39,10 @@ export function MapTab({ state, setState }: { state: GameState; setState: (s: Ga
             </div>
             <div className="h-3 rounded-full mt-2 overflow-hidden" style={{ background: '#1a1025' }}>
               <div className="h-full rounded-full transition-all" style={{
-                width: `${Math.max(5, 100 - (state.travelState.remainingSeconds / (30 + (REGIONS.find(r => r.id === state.travelState.destinationId)?.dangerLevel || 1) * 30)) * 100)}%`,
+                width: `${Math.max(5, 100 - (state.travelState.remainingSeconds / (() => {
+                  const dest = REGIONS.find(r => r.id === state.travelState.destinationId);
+                  return dest ? TravelEngine.getTravelTime(state, dest) : 60;
+                })()) * 100)}%`,
                 background: 'linear-gradient(90deg, #60a5fa, #a78bfa)'
               }} />
             </div>
@@ -402,94 +62,38 @@ export function MapTab({ state, setState }: { state: GameState; setState: (s: Ga
               {currentRegion.hasShop && <span style={{ color: '#fbbf24' }}>🏪 Shop</span>}
               {currentRegion.isCity && <span style={{ color: '#60a5fa' }}>🏙️ City</span>}
             </div>
+            {currentRegion.realm !== 'mortal' && (
+              <div className="text-xs mt-1" style={{ color: realmColors[currentRegion.realm] }}>
+                {RealmEngine.getRules(currentRegion.realm).icon} {RealmEngine.getRules(currentRegion.realm).ambient}
+              </div>
+            )}
+            {activeFormations.length > 0 && (
+              <div className="mt-3 space-y-1">
+                {activeFormations.map(f => (
+                  <div key={f.formationId} className="flex justify-between text-xs p-1.5 rounded" style={{ background: '#818cf810', color: '#818cf8' }}>
+                    <span>📐 {FormationEngine.getFormation(f.formationId)?.name}</span>
+                    <span className="text-gray-500">{formatTime(f.remainingSeconds)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         ) : null}
       </div>
 
-      {/* Connected Regions */}
-      {!state.travelState.traveling && currentRegion && (
-        <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
-          <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>Travel To</h3>
-          <div className="space-y-2">
-            {currentRegion.connections.map(connId => {
-              const region = REGIONS.find(r => r.id === connId);
-              if (!region) return null;
-              const isDiscovered = state.discoveredRegions.includes(connId);
-              const travelTime = 30 + region.dangerLevel * 30;
-              return (
-                <button
-                  key={connId}
-                  onClick={() => travelTo(connId)}
-                  className="w-full text-left p-3 rounded-lg border transition-all hover:scale-[1.01] active:scale-95"
-                  style={{ background: '#0a0a0f', borderColor: '#1a1025', minHeight: '48px' }}
-                >
-                  <div className="flex justify-between items-center">
-                    <span className="font-bold text-sm" style={{ color: isDiscovered ? realmColors[region.realm] : '#666' }}>
-                      {isDiscovered ? region.name : '??? Unknown Region'}
-                    </span>
-                    <span className="text-xs text-gray-500">{formatTime(travelTime)}</span>
-                  </div>
-                  {isDiscovered && (
-                    <div className="text-xs text-gray-500 mt-1">
-                      Danger: Lv.{region.dangerLevel} | {region.terrain}
-                      {region.hasShop && ' | 🏪'}
-                    </div>
-                  )}
-                </button>
-              );
-            })}
-          </div>
-        </div>
-      )}
+      {/* Journal */}
+      <QuestJournal state={state} />
 
-      {/* All Discovered */}
-      <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
-        <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>
-          Discovered Regions ({discoveredRegions.length}/{REGIONS.length})
-        </h3>
-        <div className="grid grid-cols-2 gap-1">
-          {discoveredRegions.map(r => (
-            <div key={r.id} className="text-xs p-1.5 rounded" style={{ color: realmColors[r.realm] }}>
-              {r.id === state.currentLocationId ? '📍 ' : ''}{r.name}
-            </div>
-          ))}
-        </div>
-      </div>
+      {/* World Map */}
+      <RegionMap state={state} dispatch={dispatch} />
     </div>
   );
 }
 
 // ===== GROUP TAB =====
-export function GroupTab({ state, setState }: { state: GameState; setState: (s: GameState) => void }) {
-  const currentGroup = state.groupMembership ? GROUPS.find(g => g.id === state.groupMembership) : null;
-  const availableGroups = GROUPS.filter(g =>
-    state.character.karma >= g.karmaRequirement.min &&
-    state.character.karma <= g.karmaRequirement.max &&
-    (state.discoveredRegions.includes(g.location) || state.character.background.bonusEffect.sectAccess)
-  );
-
-  const joinGroup = (groupId: string) => {
-    const ns = { ...state, groupMembership: groupId, groupContribution: 0 };
-    addLog(ns, `🏛️ Joined ${GROUPS.find(g => g.id === groupId)?.name}!`, 'success');
-    setState(ns);
-  };
-
-  const completeMission = (missionId: string, isHelp: boolean) => {
-    const ns = { ...state };
-    if (!currentGroup) return;
-    const mission = currentGroup.missions.find(m => m.id === missionId);
-    if (!mission || mission.completed) return;
-
-    const option = isHelp ? mission.helpOption : mission.exploitOption;
-    ns.spiritStones += option.reward;
-    ns.character = { ...ns.character, karma: Math.max(-1000, Math.min(1000, ns.character.karma + option.karmaChange)) };
-    ns.groupContribution += option.reward;
-    mission.completed = true;
-
-    addLog(ns, `📋 Mission complete: ${mission.name} — +${option.reward} 💎, ${option.karmaChange > 0 ? '+' : ''}${option.karmaChange} Karma`, option.karmaChange >= 0 ? 'success' : 'warning');
-    checkPathUnlocks(ns);
-    setState(ns);
-  };
+export function GroupTab({ state, dispatch }: { state: GameState; dispatch: ActionDispatch }) {
+  const currentGroup = GroupEngine.getCurrentGroup(state);
+  const availableGroups = GroupEngine.getAvailableGroups(state);
 
   return (
     <div className="space-y-4">
@@ -508,19 +112,25 @@ export function GroupTab({ state, setState }: { state: GameState; setState: (s:
               <div key={m.id} className="p-3 rounded-lg border mb-2" style={{ background: '#0a0a0f', borderColor: '#1a1025' }}>
                 <div className="font-bold text-sm text-white">{m.name}</div>
                 <div className="text-xs text-gray-400 mb-2">{m.description}</div>
-                {m.completed ? (
+                {m.teachesTechnique && (
+                  <div className="text-[10px] mb-2" style={{ color: '#a78bfa' }}>
+                    Teaches: {TechniqueEngine.getTechnique(m.teachesTechnique)?.name}
+                    {TechniqueEngine.isLearned(state, m.teachesTechnique) && ' (learned)'}
+                  </div>
+                )}
+                {GroupEngine.isMissionCompleted(state, m.id) ? (
                   <div className="text-xs" style={{ color: '#4ade80' }}>✅ Completed</div>
                 ) : (
                   <div className="flex gap-2">
                     <button
-                      onClick={() => completeMission(m.id, true)}
+                      onClick={() => dispatch({ type: 'complete_mission', missionId: m.id, help: true })}
                       className="flex-1 py-2 rounded text-xs font-bold transition-all active:scale-95"
                       style={{ background: '#0a2a0a', border: '1px solid #4ade80', color: '#4ade80', minHeight: '44px' }}
                     >
                       {m.helpOption.description}
                     </button>
                     <button
-                      onClick={() => completeMission(m.id, false)}
+                      onClick={() => dispatch({ type: 'complete_mission', missionId: m.id, help: false })}
                       className="flex-1 py-2 rounded text-xs font-bold transition-all active:scale-95"
                       style={{ background: '#2a0a0a', border: '1px solid #ef4444', color: '#ef4444', minHeight: '44px' }}
                     >
@@ -533,11 +143,7 @@ export function GroupTab({ state, setState }: { state: GameState; setState: (s:
           </div>
 
           <button
-            onClick={() => {
-              const ns = { ...state, groupMembership: null, groupContribution: 0 };
-              addLog(ns, `Left ${currentGroup.name}`, 'warning');
-              setState(ns);
-            }}
+            onClick={() => dispatch({ type: 'leave_group' })}
             className="w-full py-3 rounded-lg text-sm font-bold"
             style={{ background: '#1a1025', border: '1px solid #ef4444', color: '#ef4444', minHeight: '48px' }}
           >
@@ -558,7 +164,7 @@ export function GroupTab({ state, setState }: { state: GameState; setState: (s:
                 </div>
                 <div className="text-xs text-gray-400 mt-1">{g.description}</div>
                 <button
-                  onClick={() => joinGroup(g.id)}
+                  onClick={() => dispatch({ type: 'join_group', groupId: g.id })}
                   className="mt-2 w-full py-2 rounded text-sm font-bold transition-all active:scale-95"
                   style={{ background: '#0a2a1a', border: '1px solid #4ade80', color: '#4ade80', minHeight: '44px' }}
                 >
@@ -574,17 +180,22 @@ export function GroupTab({ state, setState }: { state: GameState; setState: (s:
 }
 
 // ===== SKILLS TAB =====
-export function SkillsTab({ state, setState }: { state: GameState; setState: (s: GameState) => void }) {
+export function SkillsTab({ state, dispatch }: { state: GameState; dispatch: ActionDispatch }) {
   const scriptures = state.inventory.filter(i => i.category === 'scripture');
   const pills = state.inventory.filter(i => i.category === 'pill');
   const treasures = state.inventory.filter(i => i.category === 'treasure');
-
-  const equipScripture = (id: string) => {
-    const ns = { ...state, equippedScripture: id };
-    addLog(ns, `📖 Equipped: ${ITEMS[id]?.name || id}`, 'success');
-    checkPathUnlocks(ns);
-    setState(ns);
-  };
+  const formationScrolls = state.inventory.filter(i => i.category === 'formation_scroll');
+
+  const alchemyUnlocked = state.pathProgress['alchemy']?.unlocked ?? false;
+  const activeRecipe = state.refining ? AlchemyEngine.getRecipe(state.refining.recipeId) : null;
+  const formationsUnlocked = state.pathProgress['formations']?.unlocked ?? false;
+  const activeInscription = state.inscribing ? FormationEngine.getFormation(state.inscribing.recipeId) : null;
+  const artificerUnlocked = state.pathProgress['artificer']?.unlocked ?? false;
+  const activeBlueprint = state.forging ? ForgeEngine.getBlueprint(state.forging.recipeId) : null;
+  const gearStash = state.gearStash || [];
+  const learnedTechniques = TechniqueEngine.getLearned(state);
+  const equippedPassives = state.equippedPassives || [];
+  const passiveSlots = TechniqueEngine.getPassiveSlots(state);
 
   return (
     <div className="space-y-4">
@@ -598,6 +209,42 @@ export function SkillsTab({ state, setState }: { state: GameState; setState: (s:
               {state.equippedScripture ? ITEMS[state.equippedScripture]?.name : 'None'}
             </span>
           </div>
+          <div className="p-2 rounded" style={{ background: '#0a0a0f' }}>
+            <span className="text-xs text-gray-500">Martial Technique: </span>
+            <span className="text-sm" style={{ color: state.equippedMartialTechnique ? '#f97316' : '#666' }}>
+              {state.equippedMartialTechnique ? TechniqueEngine.getTechnique(state.equippedMartialTechnique)?.name : 'None'}
+            </span>
+          </div>
+          <div className="p-2 rounded" style={{ background: '#0a0a0f' }}>
+            <span className="text-xs text-gray-500">Passives ({equippedPassives.length}/{passiveSlots}): </span>
+            <span className="text-sm" style={{ color: equippedPassives.length > 0 ? '#a78bfa' : '#666' }}>
+              {equippedPassives.length > 0
+                ? equippedPassives.map(id => TechniqueEngine.getTechnique(id)?.name).join(', ')
+                : passiveSlots > 0 ? 'None' : 'Cross a tier transition to open a slot'}
+            </span>
+          </div>
+          {EQUIPMENT_SLOTS.map(slot => {
+            const gear = state.equipment?.[slot.id];
+            return (
+              <div key={slot.id} className="p-2 rounded flex justify-between items-center" style={{ background: '#0a0a0f' }}>
+                <div>
+                  <span className="text-xs text-gray-500">{slot.icon} {slot.label}: </span>
+                  <span className="text-sm" style={{ color: gear ? RARITY_COLORS[gear.rarity] : '#666' }}>
+                    {gear ? `${gear.name} (⚡${gear.power}${gear.tribulationHp > 0 ? ` ❤️${gear.tribulationHp}` : ''})` : 'None'}
+                  </span>
+                </div>
+                {gear && (
+                  <button
+                    onClick={() => dispatch({ type: 'unequip_gear', slot: slot.id })}
+                    className="px-2 py-1 rounded text-[10px] font-bold"
+                    style={{ background: '#1a1025', border: '1px solid #2a2040', color: '#999', minHeight: '28px' }}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
 
@@ -613,23 +260,80 @@ export function SkillsTab({ state, setState }: { state: GameState; setState: (s:
                 <div className="font-bold text-sm" style={{ color: RARITY_COLORS[item.rarity] }}>{item.name}</div>
                 <div className="text-xs text-gray-500">{item.description}</div>
               </div>
-              <button
-                onClick={() => equipScripture(item.id)}
-                className="px-3 py-1.5 rounded text-xs font-bold"
-                style={{
-                  background: state.equippedScripture === item.id ? '#0a2a0a' : '#1a1025',
-                  border: `1px solid ${state.equippedScripture === item.id ? '#4ade80' : '#2a2040'}`,
-                  color: state.equippedScripture === item.id ? '#4ade80' : '#999',
-                  minHeight: '36px',
-                }}
-              >
-                {state.equippedScripture === item.id ? '✓' : 'Equip'}
-              </button>
+              {item.effects.teachesTechnique ? (
+                <button
+                  onClick={() => dispatch({ type: 'study_scripture', itemId: item.id })}
+                  disabled={TechniqueEngine.isLearned(state, item.effects.teachesTechnique)}
+                  className="px-3 py-1.5 rounded text-xs font-bold disabled:opacity-50"
+                  style={{ background: '#1a1025', border: '1px solid #a78bfa', color: '#a78bfa', minHeight: '36px' }}
+                >
+                  {TechniqueEngine.isLearned(state, item.effects.teachesTechnique) ? 'Learned' : 'Study'}
+                </button>
+              ) : (
+                <button
+                  onClick={() => dispatch({ type: 'equip_scripture', itemId: item.id })}
+                  className="px-3 py-1.5 rounded text-xs font-bold"
+                  style={{
+                    background: state.equippedScripture === item.id ? '#0a2a0a' : '#1a1025',
+                    border: `1px solid ${state.equippedScripture === item.id ? '#4ade80' : '#2a2040'}`,
+                    color: state.equippedScripture === item.id ? '#4ade80' : '#999',
+                    minHeight: '36px',
+                  }}
+                >
+                  {state.equippedScripture === item.id ? '✓' : 'Equip'}
+                </button>
+              )}
             </div>
           ))
         )}
       </div>
 
+      {/* Techniques */}
+      {learnedTechniques.length > 0 && (
+        <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+          <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>🥋 Techniques ({learnedTechniques.length})</h3>
+          {learnedTechniques.map(t => {
+            const isEquipped = t.kind === 'martial'
+              ? state.equippedMartialTechnique === t.id
+              : equippedPassives.includes(t.id);
+            const slotsFull = t.kind === 'passive' && !isEquipped && equippedPassives.length >= passiveSlots;
+            const effectText = [
+              t.effects.trainingXpMultiplier ? `Training ${t.effects.trainingXpMultiplier}x` : null,
+              t.effects.combatDamageMultiplier ? `Damage ${t.effects.combatDamageMultiplier}x` : null,
+              t.effects.tribulationResistance ? `Lightning -${formatPercent(t.effects.tribulationResistance)}` : null,
+            ].filter(Boolean).join(' · ');
+            return (
+              <div key={t.id} className="p-3 rounded-lg border mb-2 flex justify-between items-center" style={{ background: '#0a0a0f', borderColor: '#1a1025' }}>
+                <div>
+                  <div className="font-bold text-sm" style={{ color: t.kind === 'martial' ? '#f97316' : '#a78bfa' }}>
+                    {t.icon} {t.name} <span className="text-[10px] font-normal text-gray-500">{t.kind === 'martial' ? 'Martial' : 'Passive'}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">{t.description}</div>
+                  <div className="text-[10px]" style={{ color: '#4ade80' }}>{effectText}</div>
+                </div>
+                <button
+                  onClick={() => dispatch(
+                    t.kind === 'martial' ? { type: 'equip_martial', techniqueId: isEquipped ? null : t.id }
+                      : isEquipped ? { type: 'unequip_passive', techniqueId: t.id }
+                      : { type: 'equip_passive', techniqueId: t.id }
+                  )}
+                  disabled={slotsFull}
+                  className="px-3 py-1.5 rounded text-xs font-bold disabled:opacity-30 disabled:cursor-not-allowed"
+                  style={{
+                    background: isEquipped ? '#0a2a0a' : '#1a1025',
+                    border: `1px solid ${isEquipped ? '#4ade80' : '#2a2040'}`,
+                    color: isEquipped ? '#4ade80' : '#999',
+                    minHeight: '36px',
+                  }}
+                >
+                  {isEquipped ? '✓' : slotsFull ? 'No Slot' : 'Equip'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Pills */}
       <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
         <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>💊 Pills ({pills.length})</h3>
@@ -643,11 +347,7 @@ export function SkillsTab({ state, setState }: { state: GameState; setState: (s:
                 <div className="text-xs text-gray-500">{item.description}</div>
               </div>
               <button
-                onClick={() => {
-                  const ns = { ...state };
-                  usePill(ns, item.id);
-                  setState(ns);
-                }}
+                onClick={() => dispatch({ type: 'use_pill', itemId: item.id })}
                 className="px-3 py-1.5 rounded text-xs font-bold"
                 style={{ background: '#1a1025', border: '1px solid #4ade80', color: '#4ade80', minHeight: '36px' }}
               >
@@ -658,6 +358,253 @@ export function SkillsTab({ state, setState }: { state: GameState; setState: (s:
         )}
       </div>
 
+      {/* Alchemy Recipes */}
+      {alchemyUnlocked && (
+        <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+          <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>⚗️ Alchemy Recipes</h3>
+
+          {state.refining && activeRecipe && (
+            <div className="p-3 rounded-lg border mb-3" style={{ background: '#0a1a1f', borderColor: '#22d3ee44' }}>
+              <div className="flex justify-between text-sm">
+                <span className="font-bold" style={{ color: '#22d3ee' }}>Refining {activeRecipe.name}...</span>
+                <span className="text-xs text-gray-400">{formatTime(state.refining.remainingSeconds)}</span>
+              </div>
+              <div className="h-2 rounded-full mt-2 overflow-hidden" style={{ background: '#1a1025' }}>
+                <div className="h-full rounded-full transition-all" style={{
+                  width: `${100 - (state.refining.remainingSeconds / state.refining.totalSeconds) * 100}%`,
+                  background: '#22d3ee',
+                }} />
+              </div>
+              {state.currentAction !== 'refine' && (
+                <div className="text-xs mt-2" style={{ color: '#fbbf24' }}>⚠️ The cauldron only burns while you Refine on the Pill Path.</div>
+              )}
+            </div>
+          )}
+
+          {ALCHEMY_RECIPES.map(recipe => {
+            const output = ITEMS[recipe.outputItemId];
+            const levelLocked = AlchemyEngine.getAlchemyLevel(state) < recipe.requiredLevel;
+            const canRefine = AlchemyEngine.canRefine(state, recipe);
+            return (
+              <div key={recipe.id} className="p-3 rounded-lg border mb-2" style={{ background: '#0a0a0f', borderColor: '#1a1025', opacity: levelLocked ? 0.5 : 1 }}>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="font-bold text-sm" style={{ color: RARITY_COLORS[output?.rarity || 'common'] }}>
+                      {recipe.name}{recipe.outputQuantity > 1 ? ` x${recipe.outputQuantity}` : ''}
+                    </div>
+                    <div className="text-xs text-gray-500">{recipe.description}</div>
+                  </div>
+                  <button
+                    onClick={() => dispatch({ type: 'start_refining', recipeId: recipe.id })}
+                    disabled={!canRefine}
+                    className="px-3 py-1.5 rounded text-xs font-bold flex-shrink-0 ml-2"
+                    style={{
+                      background: canRefine ? '#0a1a1f' : '#111',
+                      border: `1px solid ${canRefine ? '#22d3ee' : '#333'}`,
+                      color: canRefine ? '#22d3ee' : '#555',
+                      minHeight: '36px',
+                    }}
+                  >
+                    {levelLocked ? `Lv.${recipe.requiredLevel}` : 'Refine'}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+                  {recipe.ingredients.map(ing => {
+                    const owned = state.inventory.find(i => i.id === ing.itemId)?.quantity || 0;
+                    return (
+                      <span key={ing.itemId} style={{ color: owned >= ing.quantity ? '#4ade80' : '#ef4444' }}>
+                        {ITEMS[ing.itemId]?.name || ing.itemId} {owned}/{ing.quantity}
+                      </span>
+                    );
+                  })}
+                </div>
+                <div className="text-[10px] text-gray-500 mt-1">
+                  ⏱️ {formatTime(recipe.craftSeconds)} | Success: {formatPercent(AlchemyEngine.getSuccessChance(state, recipe))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Formations */}
+      {(formationsUnlocked || formationScrolls.length > 0) && (
+        <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+          <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>📐 Formations</h3>
+
+          {state.inscribing && activeInscription && (
+            <div className="p-3 rounded-lg border mb-3" style={{ background: '#0f0f1f', borderColor: '#818cf844' }}>
+              <div className="flex justify-between text-sm">
+                <span className="font-bold" style={{ color: '#818cf8' }}>Inscribing {activeInscription.name}...</span>
+                <span className="text-xs text-gray-400">{formatTime(state.inscribing.remainingSeconds)}</span>
+              </div>
+              <div className="h-2 rounded-full mt-2 overflow-hidden" style={{ background: '#1a1025' }}>
+                <div className="h-full rounded-full transition-all" style={{
+                  width: `${100 - (state.inscribing.remainingSeconds / state.inscribing.totalSeconds) * 100}%`,
+                  background: '#818cf8',
+                }} />
+              </div>
+              {state.currentAction !== 'inscribe' && (
+                <div className="text-xs mt-2" style={{ color: '#fbbf24' }}>⚠️ The brush only moves while you Inscribe on the Array Path.</div>
+              )}
+            </div>
+          )}
+
+          {formationScrolls.map(item => (
+            <div key={item.id} className="p-3 rounded-lg border mb-2 flex justify-between items-center" style={{ background: '#0a0a0f', borderColor: '#818cf833' }}>
+              <div>
+                <div className="font-bold text-sm" style={{ color: RARITY_COLORS[item.rarity] }}>{item.name} x{item.quantity}</div>
+                <div className="text-xs text-gray-500">{FORMATIONS.find(f => f.scrollItemId === item.id)?.description}</div>
+              </div>
+              <button
+                onClick={() => dispatch({ type: 'deploy_formation', itemId: item.id })}
+                disabled={state.travelState.traveling}
+                className="px-3 py-1.5 rounded text-xs font-bold flex-shrink-0 ml-2"
+                style={{ background: '#1a1025', border: '1px solid #818cf8', color: '#818cf8', minHeight: '36px' }}
+              >
+                Deploy
+              </button>
+            </div>
+          ))}
+
+          {formationsUnlocked && FORMATIONS.map(formation => {
+            const levelLocked = FormationEngine.getFormationLevel(state) < formation.requiredLevel;
+            const canInscribe = FormationEngine.canInscribe(state, formation);
+            return (
+              <div key={formation.id} className="p-3 rounded-lg border mb-2" style={{ background: '#0a0a0f', borderColor: '#1a1025', opacity: levelLocked ? 0.5 : 1 }}>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="font-bold text-sm" style={{ color: RARITY_COLORS[ITEMS[formation.scrollItemId]?.rarity || 'common'] }}>{formation.name}</div>
+                    <div className="text-xs text-gray-500">{formation.description}</div>
+                  </div>
+                  <button
+                    onClick={() => dispatch({ type: 'start_inscribing', formationId: formation.id })}
+                    disabled={!canInscribe}
+                    className="px-3 py-1.5 rounded text-xs font-bold flex-shrink-0 ml-2"
+                    style={{
+                      background: canInscribe ? '#0f0f1f' : '#111',
+                      border: `1px solid ${canInscribe ? '#818cf8' : '#333'}`,
+                      color: canInscribe ? '#818cf8' : '#555',
+                      minHeight: '36px',
+                    }}
+                  >
+                    {levelLocked ? `Lv.${formation.requiredLevel}` : 'Inscribe'}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+                  {formation.ingredients.map(ing => {
+                    const owned = state.inventory.find(i => i.id === ing.itemId)?.quantity || 0;
+                    return (
+                      <span key={ing.itemId} style={{ color: owned >= ing.quantity ? '#4ade80' : '#ef4444' }}>
+                        {ITEMS[ing.itemId]?.name || ing.itemId} {owned}/{ing.quantity}
+                      </span>
+                    );
+                  })}
+                </div>
+                <div className="text-[10px] text-gray-500 mt-1">
+                  ⏱️ {formatTime(formation.inscribeSeconds)} to inscribe | Lasts {formatTime(FormationEngine.getDeployDuration(state, formation))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Forge */}
+      {(artificerUnlocked || gearStash.length > 0) && (
+        <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+          <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>⚙️ Forge</h3>
+
+          {state.forging && activeBlueprint && (
+            <div className="p-3 rounded-lg border mb-3" style={{ background: '#12141a', borderColor: '#94a3b844' }}>
+              <div className="flex justify-between text-sm">
+                <span className="font-bold" style={{ color: '#94a3b8' }}>Forging {activeBlueprint.name}...</span>
+                <span className="text-xs text-gray-400">{formatTime(state.forging.remainingSeconds)}</span>
+              </div>
+              <div className="h-2 rounded-full mt-2 overflow-hidden" style={{ background: '#1a1025' }}>
+                <div className="h-full rounded-full transition-all" style={{
+                  width: `${100 - (state.forging.remainingSeconds / state.forging.totalSeconds) * 100}%`,
+                  background: '#94a3b8',
+                }} />
+              </div>
+              {state.currentAction !== 'forge' && (
+                <div className="text-xs mt-2" style={{ color: '#fbbf24' }}>⚠️ The furnace only burns while you Forge on the Mechanical Path.</div>
+              )}
+            </div>
+          )}
+
+          {gearStash.map(gear => (
+            <div key={gear.uid} className="p-3 rounded-lg border mb-2 flex justify-between items-center" style={{ background: '#0a0a0f', borderColor: '#94a3b833' }}>
+              <div>
+                <div className="font-bold text-sm" style={{ color: RARITY_COLORS[gear.rarity] }}>{gear.name}</div>
+                <div className="text-xs text-gray-500">
+                  {EQUIPMENT_SLOTS.find(sl => sl.id === gear.slot)?.label} | ⚡{gear.power}{gear.tribulationHp > 0 ? ` | ❤️${gear.tribulationHp} Tribulation HP` : ''}
+                </div>
+              </div>
+              <div className="flex gap-1 flex-shrink-0 ml-2">
+                <button
+                  onClick={() => dispatch({ type: 'equip_gear', uid: gear.uid })}
+                  className="px-3 py-1.5 rounded text-xs font-bold"
+                  style={{ background: '#0a2a0a', border: '1px solid #4ade80', color: '#4ade80', minHeight: '36px' }}
+                >
+                  Equip
+                </button>
+                <button
+                  onClick={() => dispatch({ type: 'scrap_gear', uid: gear.uid })}
+                  className="px-3 py-1.5 rounded text-xs font-bold"
+                  style={{ background: '#2a1a0a', border: '1px solid #f97316', color: '#f97316', minHeight: '36px' }}
+                >
+                  Scrap
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {artificerUnlocked && FORGE_BLUEPRINTS.map(blueprint => {
+            const levelLocked = ForgeEngine.getArtificerLevel(state) < blueprint.requiredLevel;
+            const canForge = ForgeEngine.canForge(state, blueprint);
+            const slot = EQUIPMENT_SLOTS.find(sl => sl.id === blueprint.slot);
+            return (
+              <div key={blueprint.id} className="p-3 rounded-lg border mb-2" style={{ background: '#0a0a0f', borderColor: '#1a1025', opacity: levelLocked ? 0.5 : 1 }}>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="font-bold text-sm text-gray-200">{slot?.icon} {blueprint.name}</div>
+                    <div className="text-xs text-gray-500">{blueprint.description}</div>
+                  </div>
+                  <button
+                    onClick={() => dispatch({ type: 'start_forging', blueprintId: blueprint.id })}
+                    disabled={!canForge}
+                    className="px-3 py-1.5 rounded text-xs font-bold flex-shrink-0 ml-2"
+                    style={{
+                      background: canForge ? '#12141a' : '#111',
+                      border: `1px solid ${canForge ? '#94a3b8' : '#333'}`,
+                      color: canForge ? '#94a3b8' : '#555',
+                      minHeight: '36px',
+                    }}
+                  >
+                    {levelLocked ? `Lv.${blueprint.requiredLevel}` : 'Forge'}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+                  {blueprint.ingredients.map(ing => {
+                    const owned = state.inventory.find(i => i.id === ing.itemId)?.quantity || 0;
+                    return (
+                      <span key={ing.itemId} style={{ color: owned >= ing.quantity ? '#4ade80' : '#ef4444' }}>
+                        {ITEMS[ing.itemId]?.name || ing.itemId} {owned}/{ing.quantity}
+                      </span>
+                    );
+                  })}
+                </div>
+                <div className="text-[10px] text-gray-500 mt-1">
+                  ⏱️ {formatTime(blueprint.forgeSeconds)} | ⚡{blueprint.powerRange[0]}-{blueprint.powerRange[1]}
+                  {blueprint.tribulationHpRange[1] > 0 && ` | ❤️${blueprint.tribulationHpRange[0]}-${blueprint.tribulationHpRange[1]}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Treasures */}
       {treasures.length > 0 && (
         <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
@@ -675,11 +622,10 @@ export function SkillsTab({ state, setState }: { state: GameState; setState: (s:
 }
 
 // ===== SHOP TAB =====
-export function ShopTab({ state, setState }: { state: GameState; setState: (s: GameState) => void }) {
-  const currentRegion = REGIONS.find(r => r.id === state.currentLocationId);
-  const hasShopAccess = currentRegion?.hasShop || currentRegion?.isCity;
+export function ShopTab({ state, dispatch }: { state: GameState; dispatch: ActionDispatch }) {
+  const shopRegion = ShopEngine.getShopRegion(state);
 
-  if (!hasShopAccess || state.travelState.traveling) {
+  if (!shopRegion) {
     return (
       <div className="rounded-xl p-8 border text-center" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
         <div className="text-4xl mb-3">🏪</div>
@@ -689,39 +635,18 @@ export function ShopTab({ state, setState }: { state: GameState; setState: (s: G
     );
   }
 
-  const realm = currentRegion?.realm || 'mortal';
-  const shopItems = (SHOP_ITEMS_BY_REALM[realm] || []).map(id => ITEMS[id]).filter(Boolean);
-  const priceMultiplier = SHOP_PRICE_MULTIPLIER[realm] || 1;
-  const discount = state.character.background.bonusEffect.shopDiscount || 0;
-
-  const buyItem = (item: typeof ITEMS[string]) => {
-    const price = Math.floor(item.sellValue * 3 * priceMultiplier * (1 - discount));
-    if (state.spiritStones < price) return;
-    const ns = { ...state, spiritStones: state.spiritStones - price };
-    addItemToInventory(ns, item);
-    addLog(ns, `🏪 Bought ${item.name} for ${price} 💎`, 'info');
-    setState(ns);
-  };
-
-  const sellItem = (itemId: string) => {
-    const item = state.inventory.find(i => i.id === itemId);
-    if (!item || item.sellValue === 0) return;
-    const ns = { ...state, spiritStones: state.spiritStones + item.sellValue };
-    removeItemFromInventory(ns, itemId);
-    addLog(ns, `🏪 Sold ${item.name} for ${item.sellValue} 💎`, 'info');
-    setState(ns);
-  };
+  const shopItems = ShopEngine.getShopItems(shopRegion);
 
   return (
     <div className="space-y-4">
       <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
         <h3 className="text-sm font-bold mb-1 uppercase tracking-wider" style={{ color: '#c9a44a' }}>
-          🏪 {currentRegion?.name} Shop
+          🏪 {shopRegion.name} Shop
         </h3>
         <div className="text-xs text-gray-500 mb-3">💎 Spirit Stones: {state.spiritStones}</div>
 
         {shopItems.map((item, i) => {
-          const price = Math.floor(item.sellValue * 3 * priceMultiplier * (1 - discount));
+          const price = ShopEngine.getPrice(state, shopRegion, item);
           const canAfford = state.spiritStones >= price;
           return (
             <div key={i} className="p-3 rounded-lg border mb-2 flex justify-between items-center" style={{ background: '#0a0a0f', borderColor: '#1a1025' }}>
@@ -730,7 +655,7 @@ export function ShopTab({ state, setState }: { state: GameState; setState: (s: G
                 <div className="text-xs text-gray-500">{item.description}</div>
               </div>
               <button
-                onClick={() => buyItem(item)}
+                onClick={() => dispatch({ type: 'buy_item', itemId: item.id })}
                 disabled={!canAfford}
                 className="px-3 py-1.5 rounded text-xs font-bold transition-all"
                 style={{
@@ -759,7 +684,7 @@ export function ShopTab({ state, setState }: { state: GameState; setState: (s: G
                 </div>
               </div>
               <button
-                onClick={() => sellItem(item.id)}
+                onClick={() => dispatch({ type: 'sell_item', itemId: item.id })}
                 className="px-3 py-1.5 rounded text-xs font-bold"
                 style={{ background: '#2a1a0a', border: '1px solid #f97316', color: '#f97316', minHeight: '36px' }}
               >
@@ -774,39 +699,89 @@ export function ShopTab({ state, setState }: { state: GameState; setState: (s: G
 }
 
 // ===== CHARACTER TAB =====
-export function CharacterTab({ state, setState }: { state: GameState; setState: (s: GameState) => void }) {
+export function CharacterTab({ state, dispatch, onImport, onOpenSlots, onRestoreBackup }: {
+  state: GameState;
+  dispatch: ActionDispatch;
+  onImport: (state: GameState) => Promise<void>;
+  onOpenSlots: () => void;
+  onRestoreBackup: (backupId: string) => Promise<boolean>;
+}) {
   const [showExport, setShowExport] = useState(false);
+  const [backups, setBackups] = useState<SaveBackup[] | null>(null); // read from storage only while shown
   const [importStr, setImportStr] = useState('');
   const [showImport, setShowImport] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const handleExport = () => {
-    const encoded = exportSave(state);
-    navigator.clipboard.writeText(encoded).then(() => {
-      addLog(state, '📋 Save exported to clipboard!', 'system');
-      setState({ ...state });
-    });
-    setShowExport(true);
-    setTimeout(() => setShowExport(false), 3000);
+    SaveManager.exportSave(state)
+      .then(encoded => navigator.clipboard.writeText(encoded))
+      .then(() => {
+        dispatch({ type: 'log', text: '📋 Save exported to clipboard!', logType: 'system' });
+        setExportError(null);
+        setShowExport(true);
+        setTimeout(() => setShowExport(false), 3000);
+      })
+      .catch((e: Error) => setExportError(`Could not export the save: ${e.message}`));
   };
 
   const handleImport = () => {
-    const imported = importSave(importStr);
-    if (imported) {
-      setState(imported);
-      setShowImport(false);
-      setImportStr('');
-    }
+    SaveManager.importSave(importStr)
+      .then(onImport)
+      .then(() => {
+        setShowImport(false);
+        setImportStr('');
+        setImportError(null);
+      })
+      .catch((e: Error) => setImportError(e.message));
+  };
+
+  const handleDownload = (format: 'icsave' | 'json') => {
+    SaveManager.exportFile(state, format)
+      .then(file => {
+        const url = URL.createObjectURL(file);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.name;
+        link.click();
+        URL.revokeObjectURL(url);
+        dispatch({ type: 'log', text: `💾 Saved ${file.name}`, logType: 'system' });
+        setExportError(null);
+      })
+      .catch((e: Error) => setExportError(`Could not download the save: ${e.message}`));
+  };
+
+  const handleImportFile = (file: File | undefined) => {
+    if (!file) return;
+    SaveManager.importFile(file)
+      .then(onImport)
+      .then(() => {
+        setShowImport(false);
+        setImportError(null);
+      })
+      .catch((e: Error) => setImportError(e.message));
+  };
+
+  const handleRestore = (backup: SaveBackup) => {
+    if (!confirm(`Roll back to ${new Date(backup.timestamp).toLocaleString()}? Your current progress is kept as a backup.`)) return;
+    onRestoreBackup(backup.id).then(restored => {
+      if (restored) {
+        setBackups(null);
+      } else {
+        alert('That backup is damaged and cannot be restored.');
+      }
+    });
   };
 
   const handleDeleteSave = () => {
-    if (confirm('Are you sure? This will delete ALL save data!')) {
-      deleteSave();
-      window.location.reload();
+    if (confirm(`Are you sure? This will delete ${state.character.name}'s save slot!`)) {
+      SaveManager.deleteSave().then(() => window.location.reload());
     }
   };
 
   const karmaInfo = getKarmaLabel(state.character.karma);
   const power = calculatePower(state);
+  const capUpgradeCost = OfflineEngine.getCapUpgradeCost(state);
 
   return (
     <div className="space-y-4">
@@ -872,6 +847,7 @@ export function CharacterTab({ state, setState }: { state: GameState; setState:
           <div><span className="text-gray-500">Deaths:</span> <span className="text-gray-300">{state.totalDeaths}</span></div>
           <div><span className="text-gray-500">Rebirths:</span> <span className="text-gray-300">{state.character.rebirthCount}</span></div>
           <div><span className="text-gray-500">Legacy Bonus:</span> <span style={{ color: '#fbbf24' }}>+{(state.character.legacyBonus * 100).toFixed(1)}%</span></div>
+          <div><span className="text-gray-500">Samsara Points:</span> <span style={{ color: '#c084fc' }}>{state.samsara.points} ☸️</span></div>
           <div><span className="text-gray-500">Highest Level:</span> <span className="text-gray-300">{state.highestPathLevel}</span></div>
         </div>
         {state.character.devilMark && (
@@ -882,6 +858,40 @@ export function CharacterTab({ state, setState }: { state: GameState; setState:
         )}
       </div>
 
+      {/* Achievements */}
+      <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+        <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>
+          🏆 Achievements ({(state.achievements || []).length}/{ACHIEVEMENTS.length})
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {ACHIEVEMENTS.map(a => {
+            const unlocked = AchievementEngine.isUnlocked(state, a.id);
+            const progress = unlocked ? null : AchievementEngine.getProgress(state, a);
+            return (
+              <div
+                key={a.id}
+                className="p-2 rounded-lg border"
+                style={{ background: unlocked ? '#1a1505' : '#0a0a0f', borderColor: unlocked ? '#fbbf2440' : '#1a1025', opacity: unlocked ? 1 : 0.75 }}
+              >
+                <div className="text-sm font-bold" style={{ color: unlocked ? '#fbbf24' : '#888' }}>
+                  {unlocked ? a.icon : '🔒'} {a.name}
+                </div>
+                <div className="text-[10px] text-gray-500">{a.description}</div>
+                <div className="text-[10px]" style={{ color: '#4ade80' }}>{AchievementEngine.describeBonus(a)}</div>
+                {progress && (
+                  <div className="mt-1">
+                    <div className="h-1 rounded-full overflow-hidden" style={{ background: '#1a1025' }}>
+                      <div className="h-full rounded-full" style={{ width: `${(progress.current / progress.target) * 100}%`, background: '#c9a44a' }} />
+                    </div>
+                    <div className="text-[9px] text-gray-600 mt-0.5">{formatNumber(progress.current)} / {formatNumber(progress.target)}</div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
       {/* Rogue Toggle */}
       <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
         <div className="flex justify-between items-center">
@@ -892,13 +902,7 @@ export function CharacterTab({ state, setState }: { state: GameState; setState:
             </div>
           </div>
           <button
-            onClick={() => {
-              const ns = { ...state, character: { ...state.character, rogueStatus: !state.character.rogueStatus } };
-              if (ns.character.rogueStatus) ns.groupMembership = null;
-              addLog(ns, ns.character.rogueStatus ? '🌪️ You walk the path alone...' : '🤝 You rejoin society.', 'info');
-              checkPathUnlocks(ns);
-              setState(ns);
-            }}
+            onClick={() => dispatch({ type: 'toggle_rogue' })}
             className="px-4 py-2 rounded-lg text-sm font-bold transition-all"
             style={{
               background: state.character.rogueStatus ? '#2a1a0a' : '#1a1025',
@@ -931,6 +935,39 @@ export function CharacterTab({ state, setState }: { state: GameState; setState:
         )}
       </div>
 
+      {/* Seclusion */}
+      <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+        <h3 className="text-sm font-bold mb-1 uppercase tracking-wider" style={{ color: '#c9a44a' }}>🧘 Seclusion</h3>
+        <div className="text-xs text-gray-500 mb-3">
+          Time away is replayed when you return, up to {formatTime(OfflineEngine.getCapSeconds(state))}.
+        </div>
+        <div className="space-y-2">
+          <button
+            onClick={() => dispatch({ type: 'upgrade_offline_cap' })}
+            disabled={capUpgradeCost === null || state.spiritStones < capUpgradeCost}
+            className="w-full py-2 rounded-lg text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+            style={{ background: '#1a1025', border: '1px solid #fbbf24', color: '#fbbf24', minHeight: '44px' }}
+          >
+            {capUpgradeCost === null ? 'Seclusion fully deepened' : `Deepen Seclusion (+${OFFLINE_CAP_UPGRADE_HOURS}h) — ${capUpgradeCost} 💎`}
+          </button>
+          <div className="flex justify-between items-center">
+            <div className="text-xs text-gray-500">Attempt breakthroughs while away<br />(uses breakthrough pills, never tribulations)</div>
+            <button
+              onClick={() => dispatch({ type: 'toggle_auto_breakthrough' })}
+              className="px-4 py-2 rounded-lg text-sm font-bold transition-all"
+              style={{
+                background: state.autoBreakthrough ? '#0a2a0a' : '#1a1025',
+                border: `1px solid ${state.autoBreakthrough ? '#4ade80' : '#2a2040'}`,
+                color: state.autoBreakthrough ? '#4ade80' : '#666',
+                minHeight: '44px',
+              }}
+            >
+              {state.autoBreakthrough ? 'On' : 'Off'}
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Save/Load */}
       <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
         <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>Save & Settings</h3>
@@ -942,23 +979,81 @@ export function CharacterTab({ state, setState }: { state: GameState; setState:
             📥 Import Save
           </button>
         </div>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <button onClick={() => handleDownload('icsave')} className="py-2 rounded-lg text-xs font-bold" style={{ background: '#1a1025', border: '1px solid #2a2040', color: '#4ade80', minHeight: '44px' }}>
+            💾 Download .icsave
+          </button>
+          <button onClick={() => handleDownload('json')} className="py-2 rounded-lg text-xs font-bold" style={{ background: '#1a1025', border: '1px solid #2a2040', color: '#4ade80', minHeight: '44px' }}>
+            💾 Download .json
+          </button>
+        </div>
         {showExport && <div className="mt-2 text-xs text-center" style={{ color: '#4ade80' }}>✅ Copied to clipboard!</div>}
+        {exportError && <div className="mt-2 text-xs text-center" style={{ color: '#ef4444' }}>❌ {exportError}</div>}
         {showImport && (
-          <div className="mt-2">
+          <div
+            className="mt-2"
+            onDragOver={e => e.preventDefault()}
+            onDrop={e => {
+              e.preventDefault();
+              handleImportFile(e.dataTransfer.files[0]);
+            }}
+          >
             <textarea
               value={importStr}
-              onChange={e => setImportStr(e.target.value)}
-              placeholder="Paste save string here..."
+              onChange={e => {
+                setImportStr(e.target.value);
+                setImportError(null);
+              }}
+              placeholder="Paste save string here, or drop a save file..."
               className="w-full h-20 px-3 py-2 rounded-lg text-xs text-white"
               style={{ background: '#0a0a0f', border: '1px solid #2a2040' }}
             />
             <button onClick={handleImport} className="w-full mt-1 py-2 rounded text-sm font-bold" style={{ background: '#0a2a1a', border: '1px solid #4ade80', color: '#4ade80', minHeight: '44px' }}>
               Import
             </button>
+            <label className="block w-full mt-1 py-2 rounded text-sm font-bold text-center cursor-pointer" style={{ background: '#1a1025', border: '1px solid #60a5fa', color: '#60a5fa', minHeight: '44px' }}>
+              📂 Choose Save File
+              <input
+                type="file"
+                accept=".icsave,.json,.txt"
+                className="hidden"
+                onChange={e => {
+                  handleImportFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {importError && <div className="mt-1 text-xs" style={{ color: '#ef4444' }}>❌ {importError}</div>}
+          </div>
+        )}
+        <button
+          onClick={() => backups ? setBackups(null) : SaveManager.listBackups().then(setBackups)}
+          className="w-full mt-2 py-3 rounded-lg text-sm font-bold"
+          style={{ background: '#1a1025', border: '1px solid #a78bfa', color: '#a78bfa', minHeight: '48px' }}
+        >
+          🕰️ {backups ? 'Hide Backups' : 'Restore a Backup'}
+        </button>
+        {backups && (
+          <div className="mt-2 space-y-1">
+            {backups.length === 0 && <div className="text-xs text-gray-600 text-center">No backups yet — one is kept with every auto-save.</div>}
+            {backups.map(backup => (
+              <button
+                key={backup.id}
+                onClick={() => handleRestore(backup)}
+                className="w-full flex justify-between items-center px-3 py-2 rounded text-xs"
+                style={{ background: '#0a0a0f', border: '1px solid #2a2040', color: '#ddd', minHeight: '40px' }}
+              >
+                <span>{backup.kind === 'daily' ? '📅' : '🕰️'} {new Date(backup.timestamp).toLocaleString()}</span>
+                <span className="text-gray-500">{backup.realm} · {formatTime(backup.playTime)}</span>
+              </button>
+            ))}
           </div>
         )}
+        <button onClick={onOpenSlots} className="w-full mt-2 py-3 rounded-lg text-sm font-bold" style={{ background: '#1a1025', border: '1px solid #c9a44a', color: '#c9a44a', minHeight: '48px' }}>
+          🗂️ Save Slots
+        </button>
         <button onClick={handleDeleteSave} className="w-full mt-2 py-3 rounded-lg text-sm font-bold" style={{ background: '#2a0a0a', border: '1px solid #ef4444', color: '#ef4444', minHeight: '48px' }}>
-          🗑️ Delete Save (New Game)
+          🗑️ Delete This Slot
         </button>
       </div>
     </div>
@@ -966,7 +1061,7 @@ export function CharacterTab({ state, setState }: { state: GameState; setState:
 }
 
 // ===== EVENT MODAL =====
-export function EventModal({ event, onChoice }: { event: GameEvent; onChoice: (choiceIdx: number) => void }) {
+export function EventModal({ event, state, onChoice }: { event: GameEvent; state: GameState; onChoice: (choiceIdx: number) => void }) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.85)' }}>
       <div className="w-full max-w-md rounded-xl p-6 border" style={{
@@ -982,21 +1077,35 @@ export function EventModal({ event, onChoice }: { event: GameEvent; onChoice: (c
         </h3>
         <p className="text-sm text-gray-400 mb-4">{event.description}</p>
         <div className="space-y-2">
-          {event.choices.map((choice, i) => (
-            <button
-              key={i}
-              onClick={() => onChoice(i)}
-              className="w-full text-left p-3 rounded-lg border transition-all hover:scale-[1.01] active:scale-95"
-              style={{
-                background: choice.karmaChange > 0 ? '#0a2a0a' : choice.karmaChange < 0 ? '#2a0a0a' : '#1a1025',
-                borderColor: choice.karmaChange > 0 ? '#4ade80' : choice.karmaChange < 0 ? '#ef4444' : '#2a2040',
-                color: '#ddd',
-                minHeight: '48px',
-              }}
-            >
-              <div className="text-sm font-bold">{choice.text}</div>
-            </button>
-          ))}
+          {event.choices.map((choice, i) => {
+            if (!EventEngine.isChoiceVisible(state, choice)) return null;
+            const available = EventEngine.isChoiceAvailable(state, choice);
+            const requirement = EventEngine.describeRequirement(choice);
+            return (
+              <button
+                key={i}
+                onClick={() => onChoice(i)}
+                disabled={!available}
+                className="w-full text-left p-3 rounded-lg border transition-all hover:scale-[1.01] active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100"
+                style={{
+                  background: choice.karmaChange > 0 ? '#0a2a0a' : choice.karmaChange < 0 ? '#2a0a0a' : '#1a1025',
+                  borderColor: choice.karmaChange > 0 ? '#4ade80' : choice.karmaChange < 0 ? '#ef4444' : '#2a2040',
+                  color: '#ddd',
+                  minHeight: '48px',
+                }}
+              >
+                <div className="text-sm font-bold">{choice.text}</div>
+                {requirement && (
+                  <div className="text-[10px] mt-0.5" style={{ color: available ? '#fbbf24' : '#888' }}>
+                    {available ? '✓ ' : '🔒 '}{requirement}
+                  </div>
+                )}
+                {choice.branches && (
+                  <div className="text-[10px] mt-0.5 text-gray-500">🎲 Outcome uncertain</div>
+                )}
+              </button>
+            );
+          })}
         </div>
       </div>
     </div>
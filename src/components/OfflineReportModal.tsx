@@ -0,0 +1,102 @@
+import type { OfflineReport } from '../data/types';
+import { PATHS } from '../data/constants';
+import { formatNumber, formatTime } from '../engine/gameState';
+
+const OUTCOME_LABELS: Record<string, string> = {
+  success: '🌟 Success',
+  minor_setback: '⚠️ Setback',
+  qi_deviation: '😵 Qi Deviation',
+  crippling_injury: '🩸 Crippling Injury',
+  death: '💀 Death',
+};
+
+function Row({ label, value, color = '#ddd' }: { label: string; value: string; color?: string }) {
+  return (
+    <div className="flex justify-between text-xs py-0.5">
+      <span className="text-gray-500">{label}</span>
+      <span className="font-mono" style={{ color }}>{value}</span>
+    </div>
+  );
+}
+
+export function OfflineReportModal({ report, onClose }: { report: OfflineReport; onClose: () => void }) {
+  const pathName = (pathId: string) => PATHS.find(p => p.id === pathId)?.name || pathId;
+  const xpEntries = Object.entries(report.xpGained).filter(([, xp]) => xp > 0);
+  const levelEntries = Object.entries(report.levelsGained);
+  const breakthroughEntries = Object.entries(report.breakthroughs);
+  const skippedCounts = report.eventsSkipped.reduce<Record<string, number>>((counts, title) => {
+    counts[title] = (counts[title] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ background: 'rgba(0,0,0,0.85)' }}>
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto rounded-xl p-6 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+        <h3 className="text-lg font-bold mb-1" style={{ fontFamily: 'Cinzel, serif', color: '#fbbf24' }}>
+          🧘 While You Were Away
+        </h3>
+        <div className="text-xs text-gray-500 mb-4">
+          {formatTime(report.secondsReplayed)} of seclusion
+          {report.secondsReplayed < report.secondsAway && ` (away ${formatTime(report.secondsAway)} — the rest was lost)`}
+        </div>
+
+        {report.died && (
+          <div className="text-xs p-2 rounded mb-3" style={{ background: '#2a0a0a', border: '1px solid #ef444444', color: '#ef4444' }}>
+            💀 A breakthrough attempt killed you. The wheel of Samsara awaits.
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <div className="text-[10px] uppercase tracking-wider mb-1" style={{ color: '#c9a44a' }}>Cultivation</div>
+            {xpEntries.length === 0 && levelEntries.length === 0 && <div className="text-xs text-gray-600">No progress was made.</div>}
+            {xpEntries.map(([pathId, xp]) => (
+              <Row key={pathId} label={pathName(pathId)} value={`+${formatNumber(xp)} XP`} color="#4ade80" />
+            ))}
+            {levelEntries.map(([pathId, levels]) => (
+              <Row key={pathId} label={`${pathName(pathId)} level`} value={`${levels > 0 ? '+' : ''}${levels}`} color={levels > 0 ? '#fbbf24' : '#ef4444'} />
+            ))}
+            {breakthroughEntries.map(([outcome, count]) => (
+              <Row key={outcome} label={OUTCOME_LABELS[outcome] || outcome} value={`x${count}`} />
+            ))}
+          </div>
+
+          <div>
+            <div className="text-[10px] uppercase tracking-wider mb-1" style={{ color: '#c9a44a' }}>Spoils</div>
+            <Row label="Spirit Stones" value={`${report.stonesGained >= 0 ? '+' : ''}${report.stonesGained} 💎`} color="#fbbf24" />
+            {report.itemsGained.map(item => (
+              <Row key={item.itemId} label={item.name} value={`+${item.quantity}`} />
+            ))}
+          </div>
+
+          {(report.arrivedAt || report.eventsSkipped.length > 0 || report.eventAwaiting || report.combatsFled > 0 || report.beastsIgnored > 0) && (
+            <div>
+              <div className="text-[10px] uppercase tracking-wider mb-1" style={{ color: '#c9a44a' }}>Happenings</div>
+              {report.arrivedAt && <Row label="Arrived at" value={report.arrivedAt} color="#60a5fa" />}
+              {report.combatsFled > 0 && <Row label="Fights fled" value={`${report.combatsFled}`} color="#ef4444" />}
+              {report.beastsIgnored > 0 && <Row label="Beasts left untamed" value={`${report.beastsIgnored}`} />}
+              {report.eventsSkipped.length > 0 && (
+                <div className="text-xs text-gray-500 py-0.5">
+                  Missed: {Object.entries(skippedCounts).map(([title, n]) => n > 1 ? `${title} x${n}` : title).join(', ')}
+                </div>
+              )}
+              {report.eventAwaiting && (
+                <div className="text-xs py-0.5" style={{ color: '#a78bfa' }}>
+                  ✨ {report.eventAwaiting} awaits your decision
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full mt-5 py-3 rounded-lg text-sm font-bold transition-all active:scale-95"
+          style={{ background: '#1a1025', border: '1px solid #c9a44a', color: '#c9a44a', minHeight: '48px' }}
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+}
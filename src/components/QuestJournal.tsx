@@ -0,0 +1,55 @@
+import type { GameState, ActiveStoryline } from '../data/types';
+import { REGIONS } from '../data/constants';
+import { formatTime } from '../engine/gameState';
+import { StoryEngine } from '../engine/StoryEngine';
+
+function describeNextStep(state: GameState, active: ActiveStoryline): string {
+  if (!active.nextEventId || state._pendingEvent?.id === active.nextEventId) return 'Awaiting your decision...';
+  if (active.remainingSeconds > 0) return `Continues in ${formatTime(active.remainingSeconds)}`;
+  if (active.regionId && active.regionId !== state.currentLocationId) {
+    return `Travel to ${REGIONS.find(r => r.id === active.regionId)?.name || 'the destination'}`;
+  }
+  return 'Something is about to happen...';
+}
+
+export function QuestJournal({ state }: { state: GameState }) {
+  const active = state.activeStorylines || [];
+  const completed = state.completedStorylines || [];
+  if (active.length === 0 && completed.length === 0) return null;
+
+  return (
+    <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+      <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>📜 Journal</h3>
+
+      {active.length === 0 && (
+        <div className="text-sm text-gray-500 text-center py-2">No active storylines.</div>
+      )}
+
+      {active.map(a => {
+        const storyline = StoryEngine.getStoryline(a.storylineId);
+        return (
+          <div key={a.storylineId} className="p-3 rounded-lg border mb-2" style={{ background: '#0a0a0f', borderColor: '#1a1025' }}>
+            <div className="font-bold text-sm" style={{ color: '#e2c97e' }}>
+              {storyline?.icon} {storyline?.name || a.storylineId}
+            </div>
+            <div className="text-[10px] text-gray-500 mb-1">{storyline?.description}</div>
+            <div className="space-y-0.5">
+              {a.journal.map((entry, i) => (
+                <div key={i} className="text-xs" style={{ color: i === a.journal.length - 1 ? '#ddd' : '#666' }}>
+                  • {entry}
+                </div>
+              ))}
+            </div>
+            <div className="text-[10px] mt-1.5" style={{ color: '#60a5fa' }}>➤ {describeNextStep(state, a)}</div>
+          </div>
+        );
+      })}
+
+      {completed.length > 0 && (
+        <div className="text-[10px] text-gray-600 mt-1">
+          Completed: {completed.map(id => StoryEngine.getStoryline(id)?.name || id).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
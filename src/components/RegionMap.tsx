@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import type { GameState, ActionDispatch, Region, RealmId } from '../data/types';
+import { REGIONS } from '../data/constants';
+import { formatTime } from '../engine/gameState';
+import { TravelEngine } from '../engine/TravelEngine';
+import { RealmEngine } from '../engine/RealmEngine';
+
+const REALM_COLORS: Record<string, string> = { mortal: '#4ade80', heaven: '#a78bfa', underworld: '#ef4444' };
+
+// Horizontal bands of the 100 x 122 map, matching the regions' mapPositions
+const REALM_BANDS: { realm: RealmId; label: string; y: number; height: number }[] = [
+  { realm: 'heaven', label: 'Heaven', y: 0, height: 37 },
+  { realm: 'mortal', label: 'Mortal', y: 37, height: 51 },
+  { realm: 'underworld', label: 'Underworld', y: 88, height: 34 },
+];
+
+const byId = (id: string | null) => REGIONS.find(r => r.id === id);
+
+/**
+ * Node-link map of every region. Undiscovered regions next to known ones show
+ * as fog; the rest stay hidden. Tap a known region to plan a route there.
+ */
+export function RegionMap({ state, dispatch }: { state: GameState; dispatch: ActionDispatch }) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { travelState } = state;
+
+  const discovered = new Set(state.discoveredRegions);
+  const visible = REGIONS.filter(r => discovered.has(r.id) || r.connections.some(c => discovered.has(c)) ||
+    REGIONS.some(o => discovered.has(o.id) && o.connections.includes(r.id)));
+  const visibleIds = new Set(visible.map(r => r.id));
+
+  // Each connection drawn once, whichever way it runs
+  const edges: [Region, Region][] = [];
+  const seen = new Set<string>();
+  for (const region of visible) {
+    for (const connId of region.connections) {
+      const other = byId(connId);
+      const key = [region.id, connId].sort().join('|');
+      if (!other || !visibleIds.has(connId) || seen.has(key)) continue;
+      if (!discovered.has(region.id) && !discovered.has(connId)) continue;
+      seen.add(key);
+      edges.push([region, other]);
+    }
+  }
+
+  // The journey under way, plus any extension being planned from where it ends
+  const onJourney = TravelEngine.isOnJourney(state);
+  const activeRoute = onJourney
+    ? [state.currentLocationId, ...(travelState.destinationId ? [travelState.destinationId] : []), ...travelState.route]
+    : [state.currentLocationId];
+  const planFrom = activeRoute[activeRoute.length - 1];
+  const plannedRoute = selectedId ? TravelEngine.findRoute(state, selectedId, planFrom) : null;
+  const shownRoute = [...activeRoute, ...(plannedRoute || [])];
+  const routeKeys = new Set(shownRoute.slice(1).map((id, i) => [shownRoute[i], id].sort().join('|')));
+
+  const origin = byId(state.currentLocationId);
+  const legTarget = byId(travelState.destinationId);
+  let traveller: { x: number; y: number } | null = null;
+  if (travelState.traveling && origin && legTarget) {
+    const legTime = TravelEngine.getTravelTime(state, legTarget);
+    const progress = Math.min(1, Math.max(0, 1 - travelState.remainingSeconds / legTime));
+    traveller = {
+      x: origin.mapPosition.x + (legTarget.mapPosition.x - origin.mapPosition.x) * progress,
+      y: origin.mapPosition.y + (legTarget.mapPosition.y - origin.mapPosition.y) * progress,
+    };
+  }
+
+  const selected = byId(selectedId);
+  const handleSelect = (region: Region) => {
+    if (!discovered.has(region.id)) return;
+    setSelectedId(region.id === selectedId ? null : region.id);
+  };
+
+  const handleTravel = () => {
+    if (!selectedId) return;
+    dispatch({ type: 'travel', regionId: selectedId });
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="rounded-xl p-4 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+      <h3 className="text-sm font-bold mb-3 uppercase tracking-wider" style={{ color: '#c9a44a' }}>
+        World Map ({state.discoveredRegions.length}/{REGIONS.length})
+      </h3>
+
+      <div className="flex gap-2 mb-2">
+        {(['fastest', 'safest'] as const).map(preference => (
+          <button
+            key={preference}
+            onClick={() => dispatch({ type: 'set_route_preference', preference })}
+            className="flex-1 py-1.5 rounded text-xs font-bold transition-all active:scale-95"
+            style={{
+              background: travelState.preference === preference ? '#1a1025' : '#0a0a0f',
+              border: `1px solid ${travelState.preference === preference ? '#c9a44a' : '#2a2040'}`,
+              color: travelState.preference === preference ? '#fbbf24' : '#666',
+            }}
+          >
+            {preference === 'fastest' ? '⚡ Fastest' : '🛡️ Safest'}
+          </button>
+        ))}
+        <button
+          onClick={() => dispatch({ type: 'toggle_auto_explore' })}
+          className="flex-1 py-1.5 rounded text-xs font-bold transition-all active:scale-95"
+          style={{
+            background: travelState.autoExplore ? '#0a2a1a' : '#0a0a0f',
+            border: `1px solid ${travelState.autoExplore ? '#4ade80' : '#2a2040'}`,
+            color: travelState.autoExplore ? '#4ade80' : '#666',
+          }}
+        >
+          🔍 Explore Stops: {travelState.autoExplore ? 'ON' : 'OFF'}
+        </button>
+      </div>
+
+      <svg viewBox="0 0 100 122" className="w-full rounded-lg" style={{ background: '#0a0a0f' }}>
+        {REALM_BANDS.map(band => (
+          <g key={band.realm}>
+            <rect x={0} y={band.y} width={100} height={band.height} fill={REALM_COLORS[band.realm]} opacity={0.04} />
+            <text x={1.5} y={band.y + 3.5} fontSize={2.6} fill={REALM_COLORS[band.realm]} opacity={0.5}>
+              {RealmEngine.canEnter(state, band.realm) ? band.label : `🔒 ${band.label}`}
+            </text>
+          </g>
+        ))}
+
+        {edges.map(([a, b]) => {
+          const onRoute = routeKeys.has([a.id, b.id].sort().join('|'));
+          const fogged = !discovered.has(a.id) || !discovered.has(b.id);
+          return (
+            <line
+              key={`${a.id}|${b.id}`}
+              x1={a.mapPosition.x} y1={a.mapPosition.y} x2={b.mapPosition.x} y2={b.mapPosition.y}
+              stroke={onRoute ? '#fbbf24' : '#3a3050'}
+              strokeWidth={onRoute ? 0.9 : 0.5}
+              strokeDasharray={fogged ? '1.2 1.2' : undefined}
+            />
+          );
+        })}
+
+        {visible.map(region => {
+          const known = discovered.has(region.id);
+          const isHere = region.id === state.currentLocationId;
+          const isSelected = region.id === selectedId;
+          const color = known ? REALM_COLORS[region.realm] : '#444';
+          const { x, y } = region.mapPosition;
+          return (
+            <g key={region.id} onClick={() => handleSelect(region)} style={{ cursor: known ? 'pointer' : 'default' }}>
+              {(isHere || isSelected) && (
+                <circle cx={x} cy={y} r={3.6} fill="none" stroke={isHere ? '#fbbf24' : '#60a5fa'} strokeWidth={0.5} />
+              )}
+              <circle cx={x} cy={y} r={2.2} fill={known ? '#12101a' : '#0a0a0f'} stroke={color} strokeWidth={0.6} />
+              {known && region.hasShop && <text x={x} y={y + 0.9} fontSize={2.4} textAnchor="middle">🏪</text>}
+              <text x={x} y={y + 5.4} fontSize={2.2} textAnchor="middle" fill={color}>
+                {known ? region.name : '???'}
+              </text>
+            </g>
+          );
+        })}
+
+        {traveller && <circle cx={traveller.x} cy={traveller.y} r={1.3} fill="#fbbf24" />}
+      </svg>
+
+      {onJourney && (
+        <div className="mt-3 text-xs text-gray-400">
+          {travelState.layoverSeconds > 0 && (
+            <div style={{ color: '#4ade80' }}>🔍 Exploring {origin?.name}: {formatTime(travelState.layoverSeconds)} left</div>
+          )}
+          {activeRoute.length > 1 && <div>🧭 {activeRoute.slice(1).map(id => byId(id)?.name).join(' → ')}</div>}
+          {(travelState.route.length > 0 || travelState.layoverSeconds > 0) && (
+            <button
+              onClick={() => dispatch({ type: 'cancel_route' })}
+              className="w-full mt-2 py-2 rounded text-xs font-bold transition-all active:scale-95"
+              style={{ background: '#2a0a0a', border: '1px solid #ef4444', color: '#ef4444', minHeight: '40px' }}
+            >
+              {travelState.traveling ? `Stop at ${legTarget?.name}` : `Stay in ${origin?.name}`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <div className="mt-3 p-3 rounded-lg border" style={{ background: '#0a0a0f', borderColor: '#1a1025' }}>
+          <div className="font-bold text-sm" style={{ color: REALM_COLORS[selected.realm] }}>{selected.name}</div>
+          <div className="text-xs text-gray-500 mt-1">{selected.description}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            Danger: Lv.{selected.dangerLevel} | {selected.terrain}
+            {selected.hasShop && ' | 🏪'}
+            {selected.isCity && ' | 🏙️'}
+          </div>
+          {selected.id === planFrom ? (
+            <div className="text-xs mt-2" style={{ color: '#fbbf24' }}>{onJourney ? '🧭 Your journey ends here' : '📍 You are here'}</div>
+          ) : plannedRoute ? (
+            <>
+              <div className="mt-2 space-y-0.5">
+                {plannedRoute.map((id, i) => {
+                  const leg = byId(id)!;
+                  return (
+                    <div key={id} className="flex justify-between text-xs">
+                      <span className="text-gray-400">{i + 1}. {leg.name}</span>
+                      <span className="text-gray-500">{formatTime(TravelEngine.getTravelTime(state, leg, i === 0 ? planFrom : plannedRoute[i - 1]))}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                onClick={handleTravel}
+                className="w-full mt-2 py-2 rounded text-xs font-bold transition-all active:scale-95"
+                style={{ background: '#0a2a1a', border: '1px solid #4ade80', color: '#4ade80', minHeight: '40px' }}
+              >
+                {onJourney ? '➕ Add to Itinerary' : '🗺️ Travel'} ({formatTime(TravelEngine.getRouteTime(state, plannedRoute, planFrom))})
+              </button>
+            </>
+          ) : !RealmEngine.canEnter(state, selected.realm) ? (
+            <div className="text-xs mt-2" style={{ color: '#fbbf24' }}>
+              🔒 The {RealmEngine.getRules(selected.realm).name} is closed to you. {RealmEngine.getRules(selected.realm).gate?.description}.
+            </div>
+          ) : (
+            <div className="text-xs mt-2 text-gray-500">No known route leads there.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import type { GameState, ActionDispatch } from '../data/types';
+import { SAMSARA_UPGRADES } from '../data/constants';
+import { SamsaraEngine } from '../engine/SamsaraEngine';
+
+interface Props {
+  state: GameState;
+  dispatch: ActionDispatch;
+  onContinue: () => void;
+}
+
+/** Between death and the next life: spend Samsara points on permanent upgrades. */
+export function SamsaraShop({ state, dispatch, onContinue }: Props) {
+  const award = state.samsara.lastAward;
+  const keepsCharacter = SamsaraEngine.keepsCharacter(state);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4" style={{ background: 'linear-gradient(180deg, #0a0a0f 0%, #12051a 50%, #0a0a0f 100%)' }}>
+      <div className="w-full max-w-md">
+        <div className="text-center mb-4">
+          <div className="text-4xl mb-2">☸️</div>
+          <h2 className="text-2xl font-bold" style={{ fontFamily: 'Cinzel, serif', color: '#fbbf24' }}>
+            The Wheel of Samsara
+          </h2>
+          <p className="text-xs italic mt-1" style={{ color: '#6b5a3e' }}>
+            {state.character.name} has died. What this life earned is carried into the next.
+          </p>
+        </div>
+
+        {award && (
+          <div className="rounded-xl p-4 border mb-3" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+            <div className="text-[10px] uppercase tracking-wider mb-1" style={{ color: '#c9a44a' }}>This Life</div>
+            <div className="flex justify-between text-xs py-0.5"><span className="text-gray-500">Path levels</span><span className="font-mono text-gray-300">+{award.levels}</span></div>
+            {award.karma > 0 && (
+              <div className="flex justify-between text-xs py-0.5"><span className="text-gray-500">Karmic extremes</span><span className="font-mono text-gray-300">+{award.karma}</span></div>
+            )}
+            {award.achievements > 0 && (
+              <div className="flex justify-between text-xs py-0.5"><span className="text-gray-500">New achievements</span><span className="font-mono text-gray-300">+{award.achievements}</span></div>
+            )}
+            <div className="flex justify-between text-sm pt-1 mt-1 border-t" style={{ borderColor: '#2a2040' }}>
+              <span style={{ color: '#c084fc' }}>Samsara points</span>
+              <span className="font-mono font-bold" style={{ color: '#c084fc' }}>{state.samsara.points} ☸️</span>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {SAMSARA_UPGRADES.map(upgrade => {
+            const level = SamsaraEngine.getLevel(state, upgrade.id);
+            const cost = SamsaraEngine.getNextCost(state, upgrade);
+            const affordable = cost !== null && state.samsara.points >= cost;
+            return (
+              <div key={upgrade.id} className="rounded-xl p-3 border" style={{ background: '#0d0d15', borderColor: level > 0 ? '#c084fc44' : '#2a2040' }}>
+                <div className="flex justify-between items-start gap-3">
+                  <div>
+                    <div className="text-sm font-bold" style={{ color: '#e2c97e' }}>
+                      {upgrade.icon} {upgrade.name}
+                      {upgrade.costs.length > 1 && <span className="text-[10px] font-normal text-gray-500"> {level}/{upgrade.costs.length}</span>}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">{upgrade.description}</div>
+                  </div>
+                  <button
+                    onClick={() => dispatch({ type: 'buy_samsara_upgrade', upgradeId: upgrade.id })}
+                    disabled={!affordable}
+                    className="shrink-0 px-3 py-2 rounded-lg text-xs font-bold transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+                    style={{ background: '#1a1025', border: '1px solid #c084fc', color: '#c084fc', minHeight: '40px' }}
+                  >
+                    {cost === null ? 'Attained' : `${cost} ☸️`}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onContinue}
+          className="w-full mt-4 py-4 rounded-lg font-bold text-lg transition-all active:scale-95"
+          style={{ background: 'linear-gradient(135deg, #8b6914, #b8860b, #daa520)', color: '#0a0a0f', fontFamily: 'Cinzel, serif', minHeight: '52px' }}
+        >
+          {keepsCharacter ? '⚓ Reincarnate (Fate Anchor holds)' : '🎲 Roll the Next Life'}
+        </button>
+      </div>
+    </div>
+  );
+}
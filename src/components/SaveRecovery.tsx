@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import type { SaveBackup } from '../data/types';
+import { formatTime } from '../engine/gameState';
+
+interface Props {
+  reason: string;
+  raw: string;
+  onRetry: () => void;
+  onStartNew: () => void;
+  onShowSlots: () => void;
+  backups: SaveBackup[];
+  onRestore: (backupId: string) => Promise<boolean>;
+}
+
+/** Shown instead of the game when the local save cannot be loaded. */
+export function SaveRecovery({ reason, raw, onRetry, onStartNew, onShowSlots, backups, onRestore }: Props) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(raw).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 3000);
+    });
+  };
+
+  const handleRestore = (backup: SaveBackup) => {
+    onRestore(backup.id).then(restored => {
+      if (!restored) alert('That backup is damaged too. Try an older one.');
+    });
+  };
+
+  const handleStartNew = () => {
+    if (confirm('Start a new life? The unreadable save is set aside, not deleted.')) onStartNew();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4" style={{ background: '#0a0a0f' }}>
+      <div className="w-full max-w-md rounded-xl p-6 border" style={{ background: '#0d0d15', borderColor: '#2a2040' }}>
+        <div className="text-4xl mb-3 text-center">📜</div>
+        <h2 className="text-lg font-bold text-center mb-2" style={{ fontFamily: 'Cinzel, serif', color: '#fbbf24' }}>
+          Your Save Could Not Be Read
+        </h2>
+        <p className="text-sm text-gray-400 text-center mb-4">
+          The game stopped before touching it. Copy the save data to keep it safe, then try again or start anew.
+        </p>
+        <div className="text-xs p-3 rounded mb-4 break-words" style={{ background: '#2a0a0a', border: '1px solid #ef444444', color: '#ef4444' }}>
+          {reason}
+        </div>
+
+        {backups.length > 0 && (
+          <div className="mb-4">
+            <div className="text-[10px] uppercase tracking-wider mb-1" style={{ color: '#c9a44a' }}>Restore a Backup</div>
+            <div className="space-y-1">
+              {backups.map(backup => (
+                <button
+                  key={backup.id}
+                  onClick={() => handleRestore(backup)}
+                  className="w-full flex justify-between items-center px-3 py-2 rounded text-xs transition-all active:scale-95"
+                  style={{ background: '#0a2a1a', border: '1px solid #4ade8044', color: '#4ade80', minHeight: '40px' }}
+                >
+                  <span>{backup.kind === 'daily' ? '📅' : '🕰️'} {new Date(backup.timestamp).toLocaleString()}</span>
+                  <span className="text-gray-500">{backup.realm} · {formatTime(backup.playTime)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {raw && (
+            <button
+              onClick={handleCopy}
+              className="w-full py-3 rounded-lg text-sm font-bold transition-all active:scale-95"
+              style={{ background: '#1a1025', border: '1px solid #60a5fa', color: '#60a5fa', minHeight: '48px' }}
+            >
+              {copied ? '✅ Copied!' : '📋 Copy Save Data'}
+            </button>
+          )}
+          <button
+            onClick={onRetry}
+            className="w-full py-3 rounded-lg text-sm font-bold transition-all active:scale-95"
+            style={{ background: '#1a1025', border: '1px solid #2a2040', color: '#999', minHeight: '48px' }}
+          >
+            🔄 Try Again
+          </button>
+          <button
+            onClick={onShowSlots}
+            className="w-full py-3 rounded-lg text-sm font-bold transition-all active:scale-95"
+            style={{ background: '#1a1025', border: '1px solid #2a2040', color: '#999', minHeight: '48px' }}
+          >
+            🗂️ Other Save Slots
+          </button>
+          <button
+            onClick={handleStartNew}
+            className="w-full py-3 rounded-lg text-sm font-bold transition-all active:scale-95"
+            style={{ background: '#2a0a0a', border: '1px solid #ef4444', color: '#ef4444', minHeight: '48px' }}
+          >
+            Start a New Life
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
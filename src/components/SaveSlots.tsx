@@ -0,0 +1,100 @@
+import type { SaveSlotMeta } from '../data/types';
+import { formatTime } from '../engine/gameState';
+
+interface Props {
+  slots: SaveSlotMeta[];
+  activeSlotId: string | null;
+  onLoad: (slotId: string) => void;
+  onCopy: (slotId: string) => void;
+  onDelete: (slotId: string) => void;
+  onNew: () => void;
+  onClose?: () => void; // back to the running game, when opened from it
+}
+
+/** Lists every saved character; each slot keeps its own save and auto-save. */
+export function SaveSlots({ slots, activeSlotId, onLoad, onCopy, onDelete, onNew, onClose }: Props) {
+  const handleDelete = (slot: SaveSlotMeta) => {
+    if (confirm(`Delete ${slot.name}? This cannot be undone.`)) onDelete(slot.id);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4" style={{ background: '#0a0a0f' }}>
+      <div className="w-full max-w-md">
+        <h2 className="text-2xl font-bold text-center mb-1" style={{ fontFamily: 'Cinzel, serif', color: '#fbbf24' }}>
+          Save Slots
+        </h2>
+        <p className="text-xs text-center mb-4" style={{ color: '#6b5a3e' }}>
+          Each life walks its own path.
+        </p>
+
+        <div className="space-y-2">
+          {slots.map(slot => {
+            const isActive = slot.id === activeSlotId;
+            return (
+              <div
+                key={slot.id}
+                className="rounded-xl p-4 border"
+                style={{ background: '#0d0d15', borderColor: isActive ? '#c9a44a66' : '#2a2040' }}
+              >
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="font-bold text-sm" style={{ fontFamily: 'Cinzel, serif', color: '#e2c97e' }}>
+                      {slot.name} {isActive && <span className="text-[10px] font-normal text-gray-500">(current)</span>}
+                    </div>
+                    <div className="text-xs mt-0.5" style={{ color: '#4ade80' }}>{slot.realm}</div>
+                  </div>
+                  <div className="text-right text-[10px] text-gray-500">
+                    <div>☠️ {slot.rebirthCount} rebirths</div>
+                    <div>⏱️ {formatTime(slot.playTime)}</div>
+                  </div>
+                </div>
+                {slot.lastSaved > 0 && (
+                  <div className="text-[10px] text-gray-600 mt-1">Saved {new Date(slot.lastSaved).toLocaleString()}</div>
+                )}
+                <div className="grid grid-cols-3 gap-2 mt-3">
+                  <button
+                    onClick={() => onLoad(slot.id)}
+                    className="py-2 rounded text-xs font-bold transition-all active:scale-95"
+                    style={{ background: '#0a2a1a', border: '1px solid #4ade80', color: '#4ade80', minHeight: '40px' }}
+                  >
+                    ▶ Play
+                  </button>
+                  <button
+                    onClick={() => onCopy(slot.id)}
+                    className="py-2 rounded text-xs font-bold transition-all active:scale-95"
+                    style={{ background: '#1a1025', border: '1px solid #60a5fa', color: '#60a5fa', minHeight: '40px' }}
+                  >
+                    ⧉ Copy
+                  </button>
+                  <button
+                    onClick={() => handleDelete(slot)}
+                    className="py-2 rounded text-xs font-bold transition-all active:scale-95"
+                    style={{ background: '#2a0a0a', border: '1px solid #ef4444', color: '#ef4444', minHeight: '40px' }}
+                  >
+                    🗑️ Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onNew}
+          className="w-full mt-4 py-3 rounded-lg font-bold transition-all active:scale-95"
+          style={{ background: 'linear-gradient(135deg, #8b6914, #b8860b, #daa520)', color: '#0a0a0f', fontFamily: 'Cinzel, serif', minHeight: '48px' }}
+        >
+          ✨ New Character
+        </button>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="w-full mt-2 py-2 text-xs text-gray-500 transition-all hover:brightness-125"
+          >
+            ← Back to the Game
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,17 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
-import type { GameState, ActionType } from '../../data/types';
+import type { GameState, ActionType, ActionDispatch } from '../../data/types';
 import { PATHS, BREAKTHROUGH_RATES, REGIONS } from '../../data/constants';
-import {
-  formatNumber, formatTime, formatPercent,
-  attemptBreakthrough, addLog,
-  removeItemFromInventory,
-  startTribulation,
-} from '../../engine/gameState';
+import { formatNumber, formatTime, formatPercent, startTribulation } from '../../engine/gameState';
 import { GameEngine } from '../../engine/GameEngine';
+import { RealmEngine } from '../../engine/RealmEngine';
 import type { TribulationState } from '../../engine/gameState';
+import { CompanionRoster } from '../CompanionRoster';
 
 interface CultivationTabProps {
   state: GameState;
-  setState: (s: GameState) => void;
+  dispatch: ActionDispatch;
   onClickBoost: () => void;
-  onRebirth: (state: GameState) => void;
+  onRebirth: () => void;
 }
 
 // ===== ANIMATED XP BAR =====
@@ -262,7 +259,7 @@ function ActionButton({
 }
 
 // ===== MAIN CULTIVATION TAB =====
-export function CultivationTab({ state, setState, onClickBoost, onRebirth }: CultivationTabProps) {
+export function CultivationTab({ state, dispatch, onClickBoost, onRebirth }: CultivationTabProps) {
   const [breakResult, setBreakResult] = useState<{ message: string; success: boolean } | null>(null);
   const [tribulation, setTribulation] = useState<TribulationState | null>(null);
   const [clickFlash, setClickFlash] = useState(false);
@@ -270,6 +267,7 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
   const activePath = state.activePathId ? PATHS.find(p => p.id === state.activePathId) : null;
   const activeProgress = state.activePathId ? state.pathProgress[state.activePathId] : null;
   const unlockedPaths = PATHS.filter(p => state.pathProgress[p.id]?.unlocked);
+  const currentRegion = REGIONS.find(r => r.id === state.currentLocationId);
 
   // Calculate XP/sec using engine
   const xpPerSec = useMemo(() => GameEngine.getXPPerSecond(state), [state]);
@@ -287,67 +285,25 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
   // Train → Path of the Carnal (Body paths)  
   // Explore → No path XP, only discoveries/items/events
   const handleAction = useCallback((action: ActionType) => {
-    const ns = JSON.parse(JSON.stringify(state)) as GameState;
-    if (ns.currentAction === action) {
-      // Toggle off
-      ns.currentAction = 'idle';
-    } else {
-      ns.currentAction = action;
-      
-      if (action === 'cultivate') {
-        // Auto-select the first unlocked Qi cultivation path
-        // Priority: spirit > rogue > devil_soul > oracle > harmonic > bloodline > dream > necromancy
-        const qiPaths = ['spirit', 'rogue', 'devil_soul', 'oracle', 'harmonic', 'bloodline', 'dream', 'necromancy'];
-        const qiPath = qiPaths.find(id => ns.pathProgress[id]?.unlocked);
-        if (qiPath) {
-          ns.activePathId = qiPath;
-        } else {
-          // No Qi path unlocked yet — still set the action so player can see they need a scripture
-          addLog(ns, '📜 You need a Cultivation Scripture to cultivate the Spirit. Try Exploring or Training first!', 'warning');
-        }
-      } else if (action === 'train') {
-        // Auto-select the first unlocked Body cultivation path
-        // Priority: martial > devil_body
-        const bodyPaths = ['martial', 'devil_body'];
-        const bodyPath = bodyPaths.find(id => ns.pathProgress[id]?.unlocked);
-        if (bodyPath) {
-          ns.activePathId = bodyPath;
-        }
-      }
-      // Explore: don't change activePathId — explore doesn't progress paths
-      // It only generates discoveries, items, encounters, and events
-    }
-    setState(ns);
-  }, [state, setState]);
+    dispatch({ type: 'set_action', action });
+  }, [dispatch]);
 
   // ===== BREAKTHROUGH =====
-  const handleBreakthrough = useCallback(() => {
-    const ns = JSON.parse(JSON.stringify(state)) as GameState;
-
-    // Calculate pill bonus
-    const pillBonus = ns.inventory
-      .filter(i => i.id === 'breakthrough_pill')
-      .reduce((s, i) => s + (i.effects.breakthroughBonus || 0) * i.quantity, 0);
-
-    // Consume breakthrough pills
-    while (ns.inventory.some(i => i.id === 'breakthrough_pill')) {
-      removeItemFromInventory(ns, 'breakthrough_pill');
-    }
-
-    const result = attemptBreakthrough(ns, pillBonus);
+  // survivedHpRatio is passed when the breakthrough follows a tribulation
+  const handleBreakthrough = useCallback((survivedHpRatio?: number) => {
+    const result = dispatch({ type: 'breakthrough', survivedHpRatio })?.lastBreakthrough;
+    if (!result) return;
     setBreakResult({ message: result.message, success: result.success });
 
     if (result.outcome === 'death') {
-      setState(ns);
       setTimeout(() => {
-        onRebirth(ns);
+        onRebirth();
         setBreakResult(null);
       }, 3000);
     } else {
-      setState(ns);
       setTimeout(() => setBreakResult(null), 4000);
     }
-  }, [state, setState, onRebirth]);
+  }, [dispatch, onRebirth]);
 
   // ===== CLICK BOOST =====
   const handleClickBoost = useCallback(() => {
@@ -358,14 +314,13 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
 
   // ===== TRIBULATION =====
   const startTribulationHandler = useCallback(() => {
-    const ts = startTribulation(state);
-    setTribulation(ts);
-    addLog(state, '⛈️ HEAVENLY TRIBULATION BEGINS!', 'danger');
-    setState({ ...state });
+    const next = dispatch({ type: 'begin_tribulation' });
+    if (!next) return;
+    setTribulation(startTribulation(next));
     setTimeout(() => {
       setTribulation(prev => prev ? { ...prev, strikeActive: true } : null);
     }, 1000);
-  }, [state, setState]);
+  }, [dispatch]);
 
   const handleTribulationResist = useCallback(() => {
     setTribulation(prev => {
@@ -375,7 +330,7 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
         next.completed = true;
         next.survived = true;
         setTimeout(() => {
-          handleBreakthrough();
+          handleBreakthrough(next.hp / next.maxHp);
           setTribulation(null);
         }, 500);
         return next;
@@ -390,14 +345,14 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
   const handleTribulationFail = useCallback(() => {
     setTribulation(prev => {
       if (!prev) return null;
-      const damage = Math.floor(prev.maxHp * 0.3);
+      const damage = Math.floor(prev.maxHp * prev.strikeDamage);
       const next = { ...prev, hp: prev.hp - damage, strikeActive: false };
       if (next.hp <= 0) {
         next.completed = true;
         next.survived = false;
-        addLog(state, '💀 TRIBULATION FAILED! Your body is destroyed...', 'danger');
+        dispatch({ type: 'log', text: '💀 TRIBULATION FAILED! Your body is destroyed...', logType: 'danger' });
         setTimeout(() => {
-          onRebirth(state);
+          onRebirth();
           setTribulation(null);
         }, 2000);
         return next;
@@ -407,7 +362,7 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
         next.completed = true;
         next.survived = true;
         setTimeout(() => {
-          handleBreakthrough();
+          handleBreakthrough(next.hp / next.maxHp);
           setTribulation(null);
         }, 500);
         return next;
@@ -417,28 +372,17 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
       }, 800);
       return next;
     });
-  }, [state, onRebirth, handleBreakthrough]);
+  }, [dispatch, onRebirth, handleBreakthrough]);
 
   // ===== SPEED BOOST =====
   const handleSpeedBoost = useCallback(() => {
-    const ns = JSON.parse(JSON.stringify(state)) as GameState;
-    if (GameEngine.buySpiritStoneBoost(ns)) {
-      setState(ns);
-    }
-  }, [state, setState]);
+    dispatch({ type: 'buy_speed_boost' });
+  }, [dispatch]);
 
   // ===== USE PILL (Qi Deviation Cure) =====
   const handleCureDeviation = useCallback(() => {
-    const ns = JSON.parse(JSON.stringify(state)) as GameState;
-    GameEngine.usePill(ns, 'deviation_cure');
-    setState(ns);
-  }, [state, setState]);
-
-  // Helper: determine what action type a path primarily uses
-  const getPathAction = (pathId: string): ActionType => {
-    const path = PATHS.find(p => p.id === pathId);
-    return path?.action || 'cultivate';
-  };
+    dispatch({ type: 'use_pill', itemId: 'deviation_cure' });
+  }, [dispatch]);
 
   const boostCost = 10 + state.buffs.filter(b => b.id === 'ss_boost').length * 10;
 
@@ -577,14 +521,7 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
                     }}
                   >
                     {formatPercent(
-                      Math.min(
-                        0.95,
-                        (BREAKTHROUGH_RATES[activeProgress.currentLevel] || 0.1) +
-                          state.character.luck * 0.05 +
-                          state.inventory
-                            .filter(i => i.id === 'breakthrough_pill')
-                            .reduce((s, i) => s + (i.effects.breakthroughBonus || 0) * i.quantity, 0)
-                      )
+                      GameEngine.getBreakthroughChance(state, GameEngine.getPillBonus(state))
                     )}
                   </div>
                 </div>
@@ -801,7 +738,7 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
       </div>
 
       {/* ===== STATUS EFFECTS ===== */}
-      {(state.buffs.length > 0 || state.qiDeviation.active) && (
+      {(state.buffs.length > 0 || state.qiDeviation.active || state.injury?.active || state.stunSeconds > 0) && (
         <div className="rounded-xl p-3 border" style={{ background: '#0d0d18', borderColor: '#1a1828' }}>
           <h4 className="text-[10px] uppercase tracking-[0.15em] mb-2" style={{ color: '#c9a44a' }}>
             Status Effects
@@ -834,6 +771,38 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
             </div>
           )}
 
+          {state.stunSeconds > 0 && (
+            <div
+              className="flex items-center justify-between p-2 rounded-lg mb-1.5"
+              style={{ background: '#15151a', border: '1px solid #9ca3af25' }}
+            >
+              <div className="flex items-center gap-2">
+                <span>💫</span>
+                <span className="text-sm font-bold" style={{ color: '#9ca3af' }}>Stunned</span>
+                <span className="text-xs text-gray-500">(No progress)</span>
+              </div>
+              <span className="text-xs font-mono" style={{ color: '#9ca3af' }}>
+                {formatTime(state.stunSeconds)}
+              </span>
+            </div>
+          )}
+
+          {state.injury?.active && (
+            <div
+              className="flex items-center justify-between p-2 rounded-lg mb-1.5"
+              style={{ background: '#1a0a05', border: '1px solid #f9731625' }}
+            >
+              <div className="flex items-center gap-2">
+                <span>🩸</span>
+                <span className="text-sm font-bold" style={{ color: '#f97316' }}>Injured</span>
+                <span className="text-xs text-gray-500">(-25% Speed, -30% Power)</span>
+              </div>
+              <span className="text-xs font-mono" style={{ color: '#f97316' }}>
+                {formatTime(state.injury.remainingSeconds)}
+              </span>
+            </div>
+          )}
+
           {state.buffs.map((b, i) => (
             <div key={i} className="flex items-center justify-between p-2 rounded-lg mb-1" style={{ background: '#0a0a15', border: '1px solid #1a1828' }}>
               <span className="text-sm text-gray-300">
@@ -847,6 +816,39 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
         </div>
       )}
 
+      {/* ===== SPIRIT BEAST COMPANIONS ===== */}
+      {(state.pathProgress['beast_tamer']?.unlocked || (state.companions || []).length > 0) && (
+        <CompanionRoster state={state} dispatch={dispatch} />
+      )}
+
+      {/* ===== LOCAL ENVIRONMENT ===== */}
+      {currentRegion && unlockedPaths.length > 0 && (
+        <div className="rounded-xl p-3 border" style={{ background: '#0d0d18', borderColor: '#1a1828' }}>
+          <h4 className="text-[10px] uppercase tracking-[0.15em] mb-2" style={{ color: '#c9a44a' }}>
+            Local Environment: {currentRegion.name}
+          </h4>
+          <div className="space-y-1">
+            {unlockedPaths.map(path => {
+              const sources = RealmEngine.getLocationBreakdown(state, path);
+              const total = RealmEngine.getLocationMultiplier(state, path);
+              return (
+                <div key={path.id} className="flex justify-between items-start gap-2 text-xs">
+                  <div>
+                    <span style={{ color: path.color }}>{path.icon} {path.name}</span>
+                    {sources.map(s => (
+                      <div key={s.label} className="text-[10px] text-gray-600">{s.label} ({s.multiplier}x)</div>
+                    ))}
+                  </div>
+                  <span className="font-mono flex-shrink-0" style={{ color: total > 1 ? '#4ade80' : total < 1 ? '#ef4444' : '#666' }}>
+                    {total === 1 ? '—' : `${+total.toFixed(2)}x`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* ===== DISCOVERED PATHS LIST ===== */}
       <div className="rounded-xl p-4 border" style={{ background: '#0d0d18', borderColor: '#1a1828' }}>
         <h3 className="text-xs font-bold mb-3 uppercase tracking-[0.15em]" style={{ color: '#c9a44a' }}>
@@ -864,27 +866,7 @@ export function CultivationTab({ state, setState, onClickBoost, onRebirth }: Cul
             return (
               <button
                 key={path.id}
-                onClick={() => {
-                  const ns = JSON.parse(JSON.stringify(state)) as GameState;
-                  ns.activePathId = path.id;
-                  // Auto-set action to match path type
-                  // cultivate paths → set action to cultivate
-                  // train paths → set action to train
-                  // explore paths (beast_tamer) → set action to explore  
-                  // special paths → set matching action
-                  const pathAction = getPathAction(path.id);
-                  if (pathAction === 'cultivate') {
-                    ns.currentAction = 'cultivate';
-                  } else if (pathAction === 'train') {
-                    ns.currentAction = 'train';
-                  } else if (pathAction === 'explore') {
-                    ns.currentAction = 'explore';
-                  } else {
-                    // Special actions (refine, inscribe, forge, study, sleep)
-                    ns.currentAction = pathAction;
-                  }
-                  setState(ns);
-                }}
+                onClick={() => dispatch({ type: 'select_path', pathId: path.id })}
                 className="w-full text-left p-3 rounded-lg border transition-all duration-200 hover:brightness-110 relative overflow-hidden"
                 style={{
                   background: isActive ? `linear-gradient(135deg, ${path.color}08, ${path.color}04)` : '#0a0a12',
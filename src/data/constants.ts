@@ -1,4 +1,4 @@
-import type { SpiritRoot, BodyType, Background, Path, PathLevel, GameState, Region, Item, GameEvent } from './types';
+import type { SpiritRoot, BodyType, Background, Path, PathLevel, GameState, Region, Item, GameEvent, ItemRarity, Technique, AlchemyRecipe, FormationDefinition, ForgeBlueprint, EquipmentSlot, BeastSpecies, EnemyTemplate, Achievement, Storyline, SamsaraUpgrade, TravelHazard, RealmId, RealmRules, RegionEnvironment } from './types';
 
 // ========== XP FORMULA CONSTANTS ==========
 export const BASE_XP = 100;
@@ -6,11 +6,22 @@ export const SCALE_FACTOR = 2.2;
 export const TIER_MULTIPLIERS: Record<number, number> = { 1: 1, 2: 5, 3: 25 };
 export const BASE_XP_PER_SECOND = 1;
 export const AUTO_SAVE_INTERVAL = 30000;
+export const SAVE_VERSION = 10; // bump together with a new migration in SaveManager
+export const BACKUP_AUTO_LIMIT = 10; // rolling backups kept per slot, one per auto-save
+export const BACKUP_DAILY_LIMIT = 7; // one snapshot per calendar day, kept alongside
 export const OFFLINE_CAP_HOURS = 8;
+export const OFFLINE_CAP_UPGRADE_HOURS = 4; // added per Secluded Meditation upgrade
+export const OFFLINE_CAP_UPGRADE_COSTS = [500, 2000, 8000, 32000]; // spirit stones, one entry per upgrade
+export const OFFLINE_BATCH_SECONDS = 60; // interruptions are settled between batches of replayed ticks
 export const MAX_LOG_MESSAGES = 50;
 export const CLICK_BOOST_MULTIPLIER = 2;
 export const EVENT_CHECK_INTERVAL = 60;
 export const FATED_ENCOUNTER_BASE_CHANCE = 0.0001;
+export const TRAVEL_BASE_SECONDS = 15;
+export const TRAVEL_SECONDS_PER_DANGER = 25; // danger level of the region being entered
+export const TRAVEL_SECONDS_PER_MAP_UNIT = 1; // distance between the two regions' mapPositions
+export const TRAVEL_SAFE_ROUTE_DANGER_WEIGHT = 0.5; // 'safest' routes cost each leg x(1 + danger * this)
+export const TRAVEL_LAYOVER_SECONDS = 60; // auto-explore time at each waypoint
 
 export function calculateXpRequired(level: number): number {
   const tier = level <= 4 ? 1 : level <= 8 ? 2 : 3;
@@ -356,77 +367,78 @@ export const PATHS: Path[] = [
 ];
 
 // ========== REGIONS ==========
+// mapPosition is on a 100 x 122 map: heaven across the top, the mortal realm in the middle, the underworld below
 export const REGIONS: Region[] = [
   // MORTAL REALM
-  { id: 'peaceful_village', name: 'Peaceful Village', description: 'A quiet village nestled in green hills. Few dangers lurk here.', realm: 'mortal', dangerLevel: 1, terrain: 'plains', hasShop: true, isCity: false, connections: ['forest_path', 'river_delta'], discovered: false, lootTable: [
+  { id: 'peaceful_village', name: 'Peaceful Village', description: 'A quiet village nestled in green hills. Few dangers lurk here.', realm: 'mortal', dangerLevel: 1, terrain: 'plains', hasShop: true, isCity: false, mapPosition: { x: 8, y: 64 }, connections: ['forest_path', 'river_delta'], discovered: false, lootTable: [
     { itemId: 'common_herb', weight: 30, minDanger: 1 }, { itemId: 'iron_ore', weight: 15, minDanger: 1 }, { itemId: 'spirit_stone_pouch_small', weight: 5, minDanger: 1 },
   ], eventPool: ['traveler', 'herb_garden'] },
-  { id: 'forest_path', name: 'Forest Path', description: 'A winding path through ancient woods. Beasts and treasures hide among the trees.', realm: 'mortal', dangerLevel: 2, terrain: 'forest', hasShop: false, isCity: false, connections: ['peaceful_village', 'mining_town', 'bandit_wastes', 'cursed_swamp'], discovered: false, lootTable: [
+  { id: 'forest_path', name: 'Forest Path', description: 'A winding path through ancient woods. Beasts and treasures hide among the trees.', realm: 'mortal', dangerLevel: 2, terrain: 'forest', hasShop: false, isCity: false, mapPosition: { x: 24, y: 52 }, connections: ['peaceful_village', 'mining_town', 'bandit_wastes', 'cursed_swamp'], discovered: false, lootTable: [
     { itemId: 'common_herb', weight: 25 , minDanger: 1 }, { itemId: 'uncommon_herb', weight: 10, minDanger: 2 }, { itemId: 'beast_fang', weight: 15, minDanger: 1 }, { itemId: 'basic_scripture', weight: 3, minDanger: 1 },
   ], eventPool: ['traveler', 'beast_encounter', 'herb_garden', 'strange_resonance'] },
-  { id: 'river_delta', name: 'River Delta', description: 'Where the great river meets the sea. Fishermen and merchants gather here.', realm: 'mortal', dangerLevel: 1, terrain: 'water', hasShop: true, isCity: false, connections: ['peaceful_village', 'small_city', 'merchant_hub'], discovered: false, lootTable: [
+  { id: 'river_delta', name: 'River Delta', description: 'Where the great river meets the sea. Fishermen and merchants gather here.', realm: 'mortal', dangerLevel: 1, terrain: 'water', hasShop: true, isCity: false, mapPosition: { x: 16, y: 80 }, connections: ['peaceful_village', 'small_city', 'merchant_hub'], discovered: false, lootTable: [
     { itemId: 'common_herb', weight: 20, minDanger: 1 }, { itemId: 'spirit_stone_pouch_small', weight: 10, minDanger: 1 }, { itemId: 'fish_essence', weight: 15, minDanger: 1 },
   ], eventPool: ['traveler', 'merchant_cart'] },
-  { id: 'mining_town', name: 'Mining Town', description: 'A rough settlement built around mineral-rich caves. Ore is plentiful.', realm: 'mortal', dangerLevel: 2, terrain: 'mountain', hasShop: true, isCity: false, connections: ['forest_path', 'mystic_mountain_base'], discovered: false, lootTable: [
+  { id: 'mining_town', name: 'Mining Town', description: 'A rough settlement built around mineral-rich caves. Ore is plentiful.', realm: 'mortal', dangerLevel: 2, terrain: 'mountain', hasShop: true, isCity: false, mapPosition: { x: 40, y: 46 }, connections: ['forest_path', 'mystic_mountain_base'], discovered: false, lootTable: [
     { itemId: 'iron_ore', weight: 35, minDanger: 1 }, { itemId: 'silver_ore', weight: 10, minDanger: 2 }, { itemId: 'spirit_stone_pouch_small', weight: 8, minDanger: 1 },
   ], eventPool: ['strange_resonance', 'traveler'] },
-  { id: 'small_city', name: 'Skyreach City', description: 'A bustling city with markets, taverns, and a cultivation academy.', realm: 'mortal', dangerLevel: 1, terrain: 'city', hasShop: true, isCity: true, connections: ['river_delta', 'merchant_hub', 'bandit_wastes'], discovered: false, lootTable: [
+  { id: 'small_city', name: 'Skyreach City', description: 'A bustling city with markets, taverns, and a cultivation academy.', realm: 'mortal', dangerLevel: 1, terrain: 'city', hasShop: true, isCity: true, mapPosition: { x: 42, y: 74 }, connections: ['river_delta', 'merchant_hub', 'bandit_wastes'], discovered: false, lootTable: [
     { itemId: 'spirit_stone_pouch_small', weight: 15, minDanger: 1 }, { itemId: 'basic_pill', weight: 8, minDanger: 1 },
   ], eventPool: ['traveler', 'merchant_cart'] },
-  { id: 'bandit_wastes', name: 'Bandit Wastes', description: 'A lawless expanse where bandits and rogues roam. Danger and opportunity intertwine.', realm: 'mortal', dangerLevel: 3, terrain: 'wasteland', hasShop: false, isCity: false, connections: ['forest_path', 'small_city', 'cursed_swamp'], discovered: false, lootTable: [
-    { itemId: 'iron_ore', weight: 15, minDanger: 1 }, { itemId: 'beast_fang', weight: 20, minDanger: 2 }, { itemId: 'bandit_loot', weight: 12, minDanger: 2 }, { itemId: 'uncommon_herb', weight: 8, minDanger: 2 },
+  { id: 'bandit_wastes', name: 'Bandit Wastes', description: 'A lawless expanse where bandits and rogues roam. Danger and opportunity intertwine.', realm: 'mortal', dangerLevel: 3, terrain: 'wasteland', hasShop: false, isCity: false, mapPosition: { x: 50, y: 62 }, connections: ['forest_path', 'small_city', 'cursed_swamp'], discovered: false, lootTable: [
+    { itemId: 'iron_ore', weight: 15, minDanger: 1 }, { itemId: 'beast_fang', weight: 20, minDanger: 2 }, { itemId: 'bandit_loot', weight: 12, minDanger: 2 }, { itemId: 'uncommon_herb', weight: 8, minDanger: 2 }, { itemId: 'iron_fist_manual', weight: 3, minDanger: 2 }, { itemId: 'battle_sense_scroll', weight: 2, minDanger: 3 },
   ], eventPool: ['beast_encounter', 'traveler', 'strange_resonance'] },
-  { id: 'cursed_swamp', name: 'Cursed Swamp', description: 'A miasmic bog shrouded in dark energy. Only the desperate or foolish enter.', realm: 'mortal', dangerLevel: 4, terrain: 'swamp', hasShop: false, isCity: false, connections: ['forest_path', 'bandit_wastes', 'bone_fields'], discovered: false, lootTable: [
+  { id: 'cursed_swamp', name: 'Cursed Swamp', description: 'A miasmic bog shrouded in dark energy. Only the desperate or foolish enter.', realm: 'mortal', dangerLevel: 4, terrain: 'swamp', hasShop: false, isCity: false, mapPosition: { x: 32, y: 66 }, environment: { description: 'Miasma feeds corruption', pathModifiers: { devil_soul: 1.2, devil_body: 1.1 } }, connections: ['forest_path', 'bandit_wastes', 'bone_fields'], discovered: false, lootTable: [
     { itemId: 'uncommon_herb', weight: 20, minDanger: 2 }, { itemId: 'rare_herb', weight: 5, minDanger: 3 }, { itemId: 'soul_fragment', weight: 3, minDanger: 3 }, { itemId: 'alchemy_manual', weight: 1, minDanger: 3 },
-  ], eventPool: ['beast_encounter', 'strange_resonance', 'voice_offers_power'] },
-  { id: 'mystic_mountain_base', name: 'Mystic Mountain Base', description: 'The foot of a sacred mountain. Sects and hermits train in the peaks above.', realm: 'mortal', dangerLevel: 3, terrain: 'mountain', hasShop: true, isCity: false, connections: ['mining_town', 'celestial_peaks'], discovered: false, lootTable: [
+  ], eventPool: ['beast_encounter', 'strange_resonance', 'voice_offers_power', 'necromancy_ritual'] },
+  { id: 'mystic_mountain_base', name: 'Mystic Mountain Base', description: 'The foot of a sacred mountain. Sects and hermits train in the peaks above.', realm: 'mortal', dangerLevel: 3, terrain: 'mountain', hasShop: true, isCity: false, mapPosition: { x: 56, y: 44 }, connections: ['mining_town', 'celestial_peaks'], discovered: false, lootTable: [
     { itemId: 'common_herb', weight: 20, minDanger: 1 }, { itemId: 'uncommon_herb', weight: 12, minDanger: 2 }, { itemId: 'basic_scripture', weight: 5, minDanger: 2 }, { itemId: 'formation_blueprint', weight: 1, minDanger: 3 },
-  ], eventPool: ['traveler', 'herb_garden', 'dying_immortal'] },
-  { id: 'merchant_hub', name: 'Golden Bazaar', description: 'The largest trading hub in the mortal realm. If it exists, it can be found here.', realm: 'mortal', dangerLevel: 1, terrain: 'city', hasShop: true, isCity: true, connections: ['river_delta', 'small_city', 'floating_islands'], discovered: false, lootTable: [
+  ], eventPool: ['traveler', 'herb_garden', 'dying_immortal', 'heavenly_ladder'] },
+  { id: 'merchant_hub', name: 'Golden Bazaar', description: 'The largest trading hub in the mortal realm. If it exists, it can be found here.', realm: 'mortal', dangerLevel: 1, terrain: 'city', hasShop: true, isCity: true, mapPosition: { x: 80, y: 80 }, connections: ['river_delta', 'small_city', 'floating_islands'], discovered: false, lootTable: [
     { itemId: 'spirit_stone_pouch_small', weight: 20, minDanger: 1 }, { itemId: 'basic_pill', weight: 10, minDanger: 1 }, { itemId: 'basic_scripture', weight: 3, minDanger: 1 },
-  ], eventPool: ['merchant_cart', 'traveler'] },
-  { id: 'ancient_battlefield', name: 'Ancient Battlefield', description: 'Echoes of a long-forgotten war. Spiritual residue seeps from the soil.', realm: 'mortal', dangerLevel: 4, terrain: 'wasteland', hasShop: false, isCity: false, connections: ['bandit_wastes', 'lightning_plains'], discovered: false, lootTable: [
-    { itemId: 'beast_fang', weight: 15, minDanger: 2 }, { itemId: 'soul_fragment', weight: 8, minDanger: 3 }, { itemId: 'ancient_text', weight: 2, minDanger: 3 }, { itemId: 'artificer_blueprint', weight: 1, minDanger: 4 },
+  ], eventPool: ['merchant_cart', 'traveler', 'heavenly_ladder'] },
+  { id: 'ancient_battlefield', name: 'Ancient Battlefield', description: 'Echoes of a long-forgotten war. Spiritual residue seeps from the soil.', realm: 'mortal', dangerLevel: 4, terrain: 'wasteland', hasShop: false, isCity: false, mapPosition: { x: 66, y: 56 }, connections: ['bandit_wastes', 'lightning_plains'], discovered: false, lootTable: [
+    { itemId: 'beast_fang', weight: 15, minDanger: 2 }, { itemId: 'soul_fragment', weight: 8, minDanger: 3 }, { itemId: 'ancient_text', weight: 2, minDanger: 3 }, { itemId: 'artificer_blueprint', weight: 1, minDanger: 4 }, { itemId: 'vajra_body_manual', weight: 2, minDanger: 4 },
   ], eventPool: ['beast_encounter', 'strange_resonance', 'dying_immortal'] },
   // HEAVEN REALM
-  { id: 'floating_islands', name: 'Floating Islands', description: 'Islands suspended in the sky by ancient formations. The air is thick with Qi.', realm: 'heaven', dangerLevel: 5, terrain: 'sky', hasShop: false, isCity: false, connections: ['merchant_hub', 'celestial_peaks', 'spirit_beast_territory'], discovered: false, lootTable: [
+  { id: 'floating_islands', name: 'Floating Islands', description: 'Islands suspended in the sky by ancient formations. The air is thick with Qi.', realm: 'heaven', dangerLevel: 5, terrain: 'sky', hasShop: false, isCity: false, mapPosition: { x: 90, y: 30 }, connections: ['merchant_hub', 'celestial_peaks', 'spirit_beast_territory'], discovered: false, lootTable: [
     { itemId: 'rare_herb', weight: 20, minDanger: 4 }, { itemId: 'mithril_ore', weight: 15, minDanger: 5 }, { itemId: 'spirit_stone_pouch_large', weight: 10, minDanger: 5 },
   ], eventPool: ['beast_encounter', 'strange_resonance', 'secret_realm'] },
-  { id: 'celestial_peaks', name: 'Celestial Peaks', description: 'Mountain peaks that pierce the clouds. Immortals once walked these paths.', realm: 'heaven', dangerLevel: 6, terrain: 'mountain', hasShop: true, isCity: false, connections: ['mystic_mountain_base', 'floating_islands', 'jade_palace_city'], discovered: false, lootTable: [
-    { itemId: 'rare_herb', weight: 18, minDanger: 5 }, { itemId: 'epic_scripture', weight: 3, minDanger: 6 }, { itemId: 'spirit_stone_pouch_large', weight: 12, minDanger: 5 },
+  { id: 'celestial_peaks', name: 'Celestial Peaks', description: 'Mountain peaks that pierce the clouds. Immortals once walked these paths.', realm: 'heaven', dangerLevel: 6, terrain: 'mountain', hasShop: true, isCity: false, mapPosition: { x: 44, y: 26 }, connections: ['mystic_mountain_base', 'floating_islands', 'jade_palace_city'], discovered: false, lootTable: [
+    { itemId: 'rare_herb', weight: 18, minDanger: 5 }, { itemId: 'epic_scripture', weight: 3, minDanger: 6 }, { itemId: 'spirit_stone_pouch_large', weight: 12, minDanger: 5 }, { itemId: 'heavenly_resolve_sutra', weight: 2, minDanger: 6 },
   ], eventPool: ['dying_immortal', 'strange_resonance', 'secret_realm'] },
-  { id: 'spirit_beast_territory', name: 'Spirit Beast Territory', description: 'A vast wilderness ruled by powerful spirit beasts. Tamers seek their partners here.', realm: 'heaven', dangerLevel: 6, terrain: 'forest', hasShop: false, isCity: false, connections: ['floating_islands', 'ancient_sect_ruins'], discovered: false, lootTable: [
+  { id: 'spirit_beast_territory', name: 'Spirit Beast Territory', description: 'A vast wilderness ruled by powerful spirit beasts. Tamers seek their partners here.', realm: 'heaven', dangerLevel: 6, terrain: 'forest', hasShop: false, isCity: false, mapPosition: { x: 88, y: 12 }, environment: { description: 'Spirit beasts roam free', pathModifiers: { beast_tamer: 1.4 } }, connections: ['floating_islands', 'ancient_sect_ruins'], discovered: false, lootTable: [
     { itemId: 'beast_fang', weight: 30, minDanger: 4 }, { itemId: 'rare_beast_core', weight: 8, minDanger: 5 }, { itemId: 'taming_bell', weight: 2, minDanger: 5 },
   ], eventPool: ['beast_encounter', 'beast_encounter', 'strange_resonance'] },
-  { id: 'ancient_sect_ruins', name: 'Ancient Sect Ruins', description: 'The crumbling remains of a once-great sect. Treasures and traps await.', realm: 'heaven', dangerLevel: 7, terrain: 'ruins', hasShop: false, isCity: false, connections: ['spirit_beast_territory', 'starfall_lake'], discovered: false, lootTable: [
+  { id: 'ancient_sect_ruins', name: 'Ancient Sect Ruins', description: 'The crumbling remains of a once-great sect. Treasures and traps await.', realm: 'heaven', dangerLevel: 7, terrain: 'ruins', hasShop: false, isCity: false, mapPosition: { x: 66, y: 8 }, environment: { description: 'Broken arrays and puppet wrecks to study', pathModifiers: { formations: 1.3, artificer: 1.3 } }, connections: ['spirit_beast_territory', 'starfall_lake'], discovered: false, lootTable: [
     { itemId: 'epic_scripture', weight: 5, minDanger: 6 }, { itemId: 'formation_blueprint', weight: 8, minDanger: 6 }, { itemId: 'ancient_text', weight: 5, minDanger: 6 }, { itemId: 'legendary_treasure', weight: 1, minDanger: 7 },
   ], eventPool: ['strange_resonance', 'secret_realm', 'dying_immortal'] },
-  { id: 'lightning_plains', name: 'Lightning Plains', description: 'Endless plains struck by perpetual lightning. Tribulation energy saturates everything.', realm: 'heaven', dangerLevel: 7, terrain: 'plains', hasShop: false, isCity: false, connections: ['ancient_battlefield', 'starfall_lake'], discovered: false, lootTable: [
-    { itemId: 'lightning_essence', weight: 20, minDanger: 6 }, { itemId: 'rare_herb', weight: 12, minDanger: 5 }, { itemId: 'tribulation_stone', weight: 3, minDanger: 7 },
+  { id: 'lightning_plains', name: 'Lightning Plains', description: 'Endless plains struck by perpetual lightning. Tribulation energy saturates everything.', realm: 'heaven', dangerLevel: 7, terrain: 'plains', hasShop: false, isCity: false, mapPosition: { x: 68, y: 20 }, environment: { description: 'Tribulation lightning tempers Qi and flesh alike', pathModifiers: { spirit: 1.3, martial: 1.3, devil_body: 1.2 } }, connections: ['ancient_battlefield', 'starfall_lake'], discovered: false, lootTable: [
+    { itemId: 'lightning_essence', weight: 20, minDanger: 6 }, { itemId: 'rare_herb', weight: 12, minDanger: 5 }, { itemId: 'tribulation_stone', weight: 3, minDanger: 7 }, { itemId: 'thunder_sword_manual', weight: 2, minDanger: 7 },
   ], eventPool: ['beast_encounter', 'strange_resonance'] },
-  { id: 'starfall_lake', name: 'Starfall Lake', description: 'A serene lake where fallen stars rest beneath the surface. Immense power lies dormant.', realm: 'heaven', dangerLevel: 8, terrain: 'water', hasShop: false, isCity: false, connections: ['ancient_sect_ruins', 'lightning_plains', 'jade_palace_city'], discovered: false, lootTable: [
+  { id: 'starfall_lake', name: 'Starfall Lake', description: 'A serene lake where fallen stars rest beneath the surface. Immense power lies dormant.', realm: 'heaven', dangerLevel: 8, terrain: 'water', hasShop: false, isCity: false, mapPosition: { x: 40, y: 8 }, environment: { description: 'Fallen stars whisper of fate beneath the water', pathModifiers: { oracle: 1.5, dream: 1.2 } }, connections: ['ancient_sect_ruins', 'lightning_plains', 'jade_palace_city'], discovered: false, lootTable: [
     { itemId: 'star_fragment', weight: 10, minDanger: 7 }, { itemId: 'epic_scripture', weight: 4, minDanger: 7 }, { itemId: 'legendary_treasure', weight: 1, minDanger: 8 },
   ], eventPool: ['strange_resonance', 'secret_realm', 'stars_align'] },
-  { id: 'jade_palace_city', name: 'Jade Palace City', description: 'The greatest city in the Heaven Realm. Transcendent cultivators gather here.', realm: 'heaven', dangerLevel: 5, terrain: 'city', hasShop: true, isCity: true, connections: ['celestial_peaks', 'starfall_lake'], discovered: false, lootTable: [
+  { id: 'jade_palace_city', name: 'Jade Palace City', description: 'The greatest city in the Heaven Realm. Transcendent cultivators gather here.', realm: 'heaven', dangerLevel: 5, terrain: 'city', hasShop: true, isCity: true, mapPosition: { x: 22, y: 22 }, connections: ['celestial_peaks', 'starfall_lake'], discovered: false, lootTable: [
     { itemId: 'spirit_stone_pouch_large', weight: 15, minDanger: 5 }, { itemId: 'epic_pill', weight: 5, minDanger: 5 },
   ], eventPool: ['merchant_cart', 'traveler'] },
   // UNDERWORLD
-  { id: 'bone_fields', name: 'Bone Fields', description: 'Endless plains of ancient bones. Death Qi permeates everything.', realm: 'underworld', dangerLevel: 5, terrain: 'wasteland', hasShop: false, isCity: false, connections: ['cursed_swamp', 'river_of_souls', 'ghost_city'], discovered: false, lootTable: [
+  { id: 'bone_fields', name: 'Bone Fields', description: 'Endless plains of ancient bones. Death Qi permeates everything.', realm: 'underworld', dangerLevel: 5, terrain: 'wasteland', hasShop: false, isCity: false, mapPosition: { x: 30, y: 96 }, environment: { description: 'Death Qi soaks the soil', pathModifiers: { necromancy: 1.5, devil_soul: 1.15 } }, connections: ['cursed_swamp', 'river_of_souls', 'ghost_city'], discovered: false, lootTable: [
     { itemId: 'soul_fragment', weight: 25, minDanger: 4 }, { itemId: 'bone_dust', weight: 20, minDanger: 4 }, { itemId: 'book_of_the_dead', weight: 1, minDanger: 5 },
   ], eventPool: ['beast_encounter', 'strange_resonance', 'voice_offers_power'] },
-  { id: 'river_of_souls', name: 'River of Souls', description: 'A ghostly river carrying the memories of the dead. Drinking grants visions.', realm: 'underworld', dangerLevel: 7, terrain: 'water', hasShop: false, isCity: false, connections: ['bone_fields', 'yamas_court'], discovered: false, lootTable: [
+  { id: 'river_of_souls', name: 'River of Souls', description: 'A ghostly river carrying the memories of the dead. Drinking grants visions.', realm: 'underworld', dangerLevel: 7, terrain: 'water', hasShop: false, isCity: false, mapPosition: { x: 52, y: 104 }, environment: { description: 'Memories of the dead drift past', pathModifiers: { necromancy: 1.3, dream: 1.3 } }, connections: ['bone_fields', 'yamas_court'], discovered: false, lootTable: [
     { itemId: 'soul_fragment', weight: 30, minDanger: 5 }, { itemId: 'memory_crystal', weight: 8, minDanger: 6 }, { itemId: 'divination_manual', weight: 2, minDanger: 6 },
   ], eventPool: ['strange_resonance', 'voice_offers_power'] },
-  { id: 'yamas_court', name: "Yama's Court", description: 'The court of the death god. Judgment and power intertwine.', realm: 'underworld', dangerLevel: 10, terrain: 'ruins', hasShop: true, isCity: true, connections: ['river_of_souls', 'abyssal_chasm'], discovered: false, lootTable: [
+  { id: 'yamas_court', name: "Yama's Court", description: 'The court of the death god. Judgment and power intertwine.', realm: 'underworld', dangerLevel: 10, terrain: 'ruins', hasShop: true, isCity: true, mapPosition: { x: 72, y: 108 }, connections: ['river_of_souls', 'abyssal_chasm'], discovered: false, lootTable: [
     { itemId: 'soul_fragment', weight: 20, minDanger: 7 }, { itemId: 'legendary_treasure', weight: 3, minDanger: 9 }, { itemId: 'dimensional_ring', weight: 1, minDanger: 10 },
   ], eventPool: ['voice_offers_power', 'dying_immortal'] },
-  { id: 'abyssal_chasm', name: 'Abyssal Chasm', description: 'A bottomless chasm at the heart of the underworld. Few return.', realm: 'underworld', dangerLevel: 12, terrain: 'void', hasShop: false, isCity: false, connections: ['yamas_court'], discovered: false, lootTable: [
+  { id: 'abyssal_chasm', name: 'Abyssal Chasm', description: 'A bottomless chasm at the heart of the underworld. Few return.', realm: 'underworld', dangerLevel: 12, terrain: 'void', hasShop: false, isCity: false, mapPosition: { x: 90, y: 116 }, connections: ['yamas_court'], discovered: false, lootTable: [
     { itemId: 'mythic_treasure', weight: 1, minDanger: 11 }, { itemId: 'legendary_treasure', weight: 3, minDanger: 10 }, { itemId: 'void_essence', weight: 10, minDanger: 10 },
   ], eventPool: ['voice_offers_power', 'secret_realm'] },
-  { id: 'ghost_city', name: 'Ghost City', description: 'A spectral metropolis of the dead. Ghostly merchants sell forbidden wares.', realm: 'underworld', dangerLevel: 6, terrain: 'city', hasShop: true, isCity: true, connections: ['bone_fields', 'netherworld_market'], discovered: false, lootTable: [
+  { id: 'ghost_city', name: 'Ghost City', description: 'A spectral metropolis of the dead. Ghostly merchants sell forbidden wares.', realm: 'underworld', dangerLevel: 6, terrain: 'city', hasShop: true, isCity: true, mapPosition: { x: 18, y: 110 }, connections: ['bone_fields', 'netherworld_market'], discovered: false, lootTable: [
     { itemId: 'soul_fragment', weight: 20, minDanger: 5 }, { itemId: 'spirit_stone_pouch_large', weight: 10, minDanger: 5 },
   ], eventPool: ['merchant_cart', 'voice_offers_power'] },
-  { id: 'netherworld_market', name: 'Netherworld Market', description: 'A black market where anything can be traded — for the right price.', realm: 'underworld', dangerLevel: 6, terrain: 'city', hasShop: true, isCity: true, connections: ['ghost_city', 'river_of_souls'], discovered: false, lootTable: [
+  { id: 'netherworld_market', name: 'Netherworld Market', description: 'A black market where anything can be traded — for the right price.', realm: 'underworld', dangerLevel: 6, terrain: 'city', hasShop: true, isCity: true, mapPosition: { x: 40, y: 116 }, connections: ['ghost_city', 'river_of_souls'], discovered: false, lootTable: [
     { itemId: 'spirit_stone_pouch_large', weight: 15, minDanger: 5 }, { itemId: 'bloodline_elixir', weight: 1, minDanger: 6 },
   ], eventPool: ['merchant_cart'] },
 ];
@@ -461,6 +473,7 @@ export const ITEMS: Record<string, Item> = {
   deviation_cure: { id: 'deviation_cure', name: 'Mind-Clearing Pill', category: 'pill', rarity: 'uncommon', description: 'Cures Qi Deviation immediately.', effects: { healQiDeviation: true }, sellValue: 30, stackable: true },
   epic_pill: { id: 'epic_pill', name: 'Heaven-Grade Spirit Pill', category: 'pill', rarity: 'epic', description: 'Powerful pill that greatly boosts cultivation.', effects: { xpMultiplier: 3.0, xpMultiplierDuration: 600 }, sellValue: 200, stackable: true },
   tribulation_pill: { id: 'tribulation_pill', name: 'Tribulation Resistance Pill', category: 'pill', rarity: 'rare', description: 'Boosts tribulation HP by 30%.', effects: { tribulationHpBonus: 0.30 }, sellValue: 80, stackable: true },
+  waste_pill: { id: 'waste_pill', name: 'Cinder Dregs Pill', category: 'pill', rarity: 'common', description: 'A failed concoction, blackened and bitter. Worthless to a cultivator.', effects: {}, sellValue: 1, stackable: true },
 
   // Scriptures
   basic_scripture: { id: 'basic_scripture', name: 'Basic Qi Gathering Manual', category: 'scripture', rarity: 'common', description: 'A simple cultivation method. Opens the path of the spirit.', effects: { xpMultiplier: 1.1 }, sellValue: 15, stackable: false },
@@ -475,10 +488,21 @@ export const ITEMS: Record<string, Item> = {
   harmonic_scripture: { id: 'harmonic_scripture', name: 'Harmonic Scripture', category: 'scripture', rarity: 'rare', description: 'A scripture that teaches cultivation through music.', effects: {}, sellValue: 50, stackable: false },
   musical_instrument: { id: 'musical_instrument', name: 'Spirit Guqin', category: 'treasure', rarity: 'rare', description: 'A stringed instrument that resonates with Qi.', effects: {}, sellValue: 60, stackable: false },
   bloodline_elixir: { id: 'bloodline_elixir', name: 'Bloodline Awakening Elixir', category: 'pill', rarity: 'epic', description: 'An elixir that awakens dormant bloodline power.', effects: {}, sellValue: 300, stackable: false },
+  iron_fist_manual: { id: 'iron_fist_manual', name: 'Iron Fist Manual', category: 'scripture', rarity: 'common', description: 'A dog-eared manual of basic boxing forms.', effects: { teachesTechnique: 'iron_fist' }, sellValue: 10, stackable: false },
+  battle_sense_scroll: { id: 'battle_sense_scroll', name: 'Scroll of Battle Sense', category: 'scripture', rarity: 'uncommon', description: 'Notes from a veteran on reading an opponent\'s intent.', effects: { teachesTechnique: 'battle_sense' }, sellValue: 25, stackable: false },
+  vajra_body_manual: { id: 'vajra_body_manual', name: 'Vajra Body Manual', category: 'scripture', rarity: 'rare', description: 'A temple art that tempers flesh like diamond.', effects: { teachesTechnique: 'vajra_body' }, sellValue: 60, stackable: false },
+  heavenly_resolve_sutra: { id: 'heavenly_resolve_sutra', name: 'Heavenly Resolve Sutra', category: 'scripture', rarity: 'epic', description: 'A sutra for steeling the heart against the wrath of heaven.', effects: { teachesTechnique: 'heavenly_resolve' }, sellValue: 300, stackable: false },
+  thunder_sword_manual: { id: 'thunder_sword_manual', name: 'Thunder-Step Sword Manual', category: 'scripture', rarity: 'epic', description: 'Sword forms that move with the speed of lightning.', effects: { teachesTechnique: 'thunder_step_sword' }, sellValue: 350, stackable: false },
   book_of_the_dead: { id: 'book_of_the_dead', name: 'Book of the Dead', category: 'scripture', rarity: 'epic', description: 'A forbidden text detailing the arts of necromancy.', effects: {}, sellValue: 400, stackable: false },
   taming_bell: { id: 'taming_bell', name: 'Soul-Binding Bell', category: 'treasure', rarity: 'rare', description: 'A bell used to form contracts with spirit beasts.', effects: {}, sellValue: 70, stackable: false },
   tribulation_stone: { id: 'tribulation_stone', name: 'Tribulation Stone', category: 'material', rarity: 'rare', description: 'A stone forged by tribulation lightning.', effects: { tribulationHpBonus: 0.20 }, sellValue: 75, stackable: true },
 
+  // Formation Scrolls
+  gathering_array_scroll: { id: 'gathering_array_scroll', name: 'Spirit-Gathering Array Scroll', category: 'formation_scroll', rarity: 'uncommon', description: 'Deploy to draw ambient Qi toward a single spot.', effects: {}, sellValue: 20, stackable: true },
+  treasure_array_scroll: { id: 'treasure_array_scroll', name: 'Treasure-Seeking Array Scroll', category: 'formation_scroll', rarity: 'uncommon', description: 'Deploy to make hidden treasures resonate with your senses.', effects: {}, sellValue: 30, stackable: true },
+  warding_array_scroll: { id: 'warding_array_scroll', name: 'Road-Warding Array Scroll', category: 'formation_scroll', rarity: 'common', description: 'Deploy to ward the roads leading away from a region.', effects: {}, sellValue: 12, stackable: true },
+  convergence_array_scroll: { id: 'convergence_array_scroll', name: 'Great Convergence Array Scroll', category: 'formation_scroll', rarity: 'rare', description: 'Deploy to bend the heavens\' Qi into a roaring vortex.', effects: {}, sellValue: 150, stackable: true },
+
   // Special Items
   dimensional_ring: { id: 'dimensional_ring', name: 'Dimensional Ring', category: 'special', rarity: 'legendary', description: 'A spatial ring that preserves its contents through death and rebirth.', effects: { preserveInventory: true }, sellValue: 0, stackable: false },
   fate_anchor: { id: 'fate_anchor', name: 'Fate Anchor', category: 'special', rarity: 'legendary', description: 'Preserves your Spirit Root, Body Type, and Luck through rebirth.', effects: { preserveRolls: true }, sellValue: 0, stackable: false },
@@ -495,6 +519,8 @@ export const GAME_EVENTS: GameEvent[] = [
       { text: 'Help them (+2 Karma, +5 💎)', karmaChange: 2, rewards: { spiritStones: 5 }, losses: {} },
       { text: 'Ignore them', karmaChange: 0, rewards: {}, losses: {} },
       { text: 'Rob them (-5 Karma, +20 💎)', karmaChange: -5, rewards: { spiritStones: 20 }, losses: {} },
+      { text: 'Share your cultivation insights (+3 Karma)', karmaChange: 3, rewards: { xpBonus: 0.1 }, losses: {}, karmaRequirement: { min: 100 } },
+      { text: 'Terrify them into paying tribute (-8 Karma)', karmaChange: -8, rewards: { spiritStones: 45 }, losses: {}, karmaRequirement: { max: -100 } },
     ],
   },
   {
@@ -502,14 +528,20 @@ export const GAME_EVENTS: GameEvent[] = [
     description: 'You stumble upon a patch of wild spiritual herbs growing in a hidden glade.',
     choices: [
       { text: 'Gather herbs carefully', karmaChange: 0, rewards: { items: ['common_herb', 'common_herb'] }, losses: {} },
-      { text: 'Search for rare specimens', karmaChange: 0, rewards: { items: ['uncommon_herb'] }, losses: {} },
+      {
+        text: 'Search for rare specimens', karmaChange: 0, rewards: {}, losses: {},
+        branches: [
+          { probability: 0.7, message: 'You find a Jade-Root Herb among the weeds.', karmaChange: 0, rewards: { items: ['uncommon_herb'] }, losses: {} },
+          { probability: 0.3, message: 'A thornvine stings you. You lie numb for a minute.', karmaChange: 0, rewards: {}, losses: { timePenalty: 60 } },
+        ],
+      },
     ],
   },
   {
     id: 'beast_encounter', title: 'Beast Blocks the Path!',
     description: 'A fierce spirit beast blocks your way, snarling with hostility.',
     choices: [
-      { text: '⚔️ Fight!', karmaChange: 0, rewards: { spiritStones: 10, items: ['beast_fang'] }, losses: {} },
+      { text: '⚔️ Fight!', karmaChange: 0, rewards: {}, losses: {}, combat: 'beast' },
       { text: '🏃 Flee!', karmaChange: 0, rewards: {}, losses: { timePenalty: 30 } },
     ],
   },
@@ -525,7 +557,14 @@ export const GAME_EVENTS: GameEvent[] = [
     id: 'strange_resonance', title: 'Strange Resonance',
     description: 'You feel a strange vibration underground. Something calls to you.',
     choices: [
-      { text: 'Investigate carefully', karmaChange: 0, rewards: { spiritStones: 20, items: ['iron_ore'] }, losses: {} },
+      {
+        text: 'Investigate carefully', karmaChange: 0, rewards: {}, losses: {},
+        branches: [
+          { probability: 0.6, message: 'You unearth a small vein of ore and a few stones.', karmaChange: 0, rewards: { spiritStones: 20, items: ['iron_ore'] }, losses: {} },
+          { probability: 0.25, message: 'The resonance harmonizes with your meridians!', karmaChange: 0, rewards: { buff: { id: 'resonance', name: 'Earth Resonance', icon: '🌀', multiplier: 1.5, durationSeconds: 300 } }, losses: {} },
+          { probability: 0.15, message: 'The vibration turns violent and scrambles your Qi!', karmaChange: 0, rewards: {}, losses: { qiDeviationSeconds: 300 } },
+        ],
+      },
       { text: 'Leave it alone', karmaChange: 0, rewards: {}, losses: {} },
     ],
   },
@@ -534,16 +573,30 @@ export const GAME_EVENTS: GameEvent[] = [
     id: 'dying_immortal', title: '✨ Dying Immortal\'s Legacy',
     description: 'A dying immortal appears before you, offering their life\'s cultivation technique!',
     isFated: true,
+    storylineId: 'immortal_disciple',
     choices: [
-      { text: 'Accept the technique reverently (+10 Karma)', karmaChange: 10, rewards: { items: ['epic_scripture'], spiritStones: 100 }, losses: {} },
+      {
+        text: 'Accept the technique reverently (+10 Karma)', karmaChange: 10, rewards: { items: ['epic_scripture'], spiritStones: 100, xpBonus: 0.5 }, losses: {},
+        chain: { storylineId: 'immortal_disciple', journal: 'The immortal begged you to find his disciple, last seen in Skyreach City.', nextEventId: 'immortal_disciple_found', regionId: 'small_city' },
+      },
+      { text: 'Take the scripture and leave him to die (-20 Karma)', karmaChange: -20, rewards: { items: ['epic_scripture'] }, losses: {} },
     ],
   },
   {
     id: 'secret_realm', title: '✨ Secret Realm Entrance',
     description: 'You discover a hidden entrance to an ancient secret realm!',
     isFated: true,
+    storylineId: 'secret_realm',
     choices: [
-      { text: 'Enter and explore', karmaChange: 0, rewards: { spiritStones: 200, items: ['legendary_treasure'] }, losses: {} },
+      {
+        text: 'Descend into the first floor', karmaChange: 0, rewards: { spiritStones: 50 }, losses: {},
+        chain: { storylineId: 'secret_realm', journal: 'Cleared the outer halls. Stairs lead down to the Hall of Puppets.', nextEventId: 'secret_realm_floor_2' },
+      },
+      {
+        text: 'Return to the looted vault', karmaChange: 0, rewards: { spiritStones: 100 }, losses: {},
+        requiredFlags: ['secret_realm_cleared'],
+      },
+      { text: 'Leave it sealed', karmaChange: 0, rewards: {}, losses: {} },
     ],
   },
   {
@@ -560,11 +613,413 @@ export const GAME_EVENTS: GameEvent[] = [
     description: 'The stars align and cosmic energy floods your meridians! Your spiritual root trembles...',
     isFated: true,
     choices: [
-      { text: 'Embrace the cosmic energy', karmaChange: 0, rewards: { spiritStones: 150 }, losses: {} },
+      { text: 'Embrace the cosmic energy', karmaChange: 0, rewards: { spiritStones: 150, buff: { id: 'stars_align', name: 'Starlit Meridians', icon: '🌟', multiplier: 2, durationSeconds: 600 } }, losses: {} },
+    ],
+  },
+  // Storyline follow-ups — only reached through a chain
+  {
+    id: 'secret_realm_floor_2', title: '🗿 Hall of Puppets',
+    description: 'Stone guardians line the hall. Their eyes flicker to life as you step inside.',
+    choices: [
+      {
+        text: '⚔️ Fight through the guardians', karmaChange: 0, rewards: {}, losses: {}, combat: 'spirit',
+        chain: { storylineId: 'secret_realm', journal: 'Fought through the Hall of Puppets. You rest before descending to the vault.', nextEventId: 'secret_realm_floor_3', delaySeconds: 120 },
+      },
+      {
+        text: '🤫 Try to sneak past', karmaChange: 0, rewards: {}, losses: {},
+        branches: [
+          {
+            probability: 0.5, message: 'You slip past unseen.', karmaChange: 0, rewards: {}, losses: {},
+            chain: { storylineId: 'secret_realm', journal: 'Slipped past the guardians. The vault lies just ahead.', nextEventId: 'secret_realm_floor_3' },
+          },
+          {
+            probability: 0.5, message: 'A guardian\'s fist sends you sprawling!', karmaChange: 0, rewards: {}, losses: { timePenalty: 60 },
+            chain: { storylineId: 'secret_realm', journal: 'Battered by a guardian, you crawl onward toward the vault.', nextEventId: 'secret_realm_floor_3', delaySeconds: 120 },
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'secret_realm_floor_3', title: '💎 The Sealed Vault',
+    description: 'At the heart of the realm, a relic floats above an altar, humming with ancient power.',
+    choices: [
+      {
+        text: 'Claim the relic', karmaChange: 0, rewards: { spiritStones: 200, items: ['legendary_treasure'] }, losses: {},
+        setFlags: ['secret_realm_cleared'],
+        chain: { storylineId: 'secret_realm', journal: 'Claimed the Ancient Immortal\'s Relic from the vault.' },
+      },
+      {
+        text: 'Leave the relic to the realm (+20 Karma)', karmaChange: 20, rewards: { xpBonus: 0.5 }, losses: {},
+        setFlags: ['secret_realm_cleared'],
+        chain: { storylineId: 'secret_realm', journal: 'Left the relic undisturbed. Its aura lingers in your meridians.' },
+      },
+    ],
+  },
+  {
+    id: 'immortal_disciple_found', title: '🧕 The Disciple',
+    description: 'In a quiet teahouse you find a young woman wearing the immortal\'s sect emblem.',
+    choices: [
+      {
+        text: 'Tell her of her master\'s passing (+10 Karma)', karmaChange: 10, rewards: {}, losses: {},
+        chain: { storylineId: 'immortal_disciple', journal: 'The disciple asks you to help lay her master to rest at Mystic Mountain Base.', nextEventId: 'immortal_disciple_grave', regionId: 'mystic_mountain_base' },
+      },
+      {
+        text: 'Sell her a copy of his scripture (-15 Karma)', karmaChange: -15, rewards: { spiritStones: 300 }, losses: {},
+        setFlags: ['betrayed_disciple'],
+        chain: { storylineId: 'immortal_disciple', journal: 'You sold the disciple her own master\'s teachings.' },
+      },
+    ],
+  },
+  {
+    id: 'immortal_disciple_grave', title: '🪦 A Mountain Grave',
+    description: 'Beneath the pines, the disciple kneels before a simple stone. She presses a sutra into your hands.',
+    choices: [
+      {
+        text: 'Lay him to rest (+15 Karma)', karmaChange: 15, rewards: { items: ['heavenly_resolve_sutra'], xpBonus: 0.3 }, losses: {},
+        chain: { storylineId: 'immortal_disciple', journal: 'The immortal rests on the mountain. His disciple will carry on his Dao.' },
+      },
+    ],
+  },
+  // Realm gates — see REALM_RULES
+  {
+    id: 'heavenly_ladder', title: '🪜 The Heavenly Ladder',
+    description: 'A ladder of light descends from the clouds. Those who reach the top may walk in the Heaven Realm.',
+    choices: [
+      {
+        text: 'Climb it', karmaChange: 0, rewards: {}, losses: {},
+        branches: [
+          { probability: 0.35, message: 'You reach the top. The heavens acknowledge you.', karmaChange: 0, rewards: { xpBonus: 0.1 }, losses: {}, setFlags: ['heaven_ascension'] },
+          { probability: 0.65, message: 'Your strength fails halfway and you fall back to earth.', karmaChange: 0, rewards: {}, losses: { timePenalty: 90 } },
+        ],
+      },
+      { text: 'Pay the gatekeeper\'s tithe (-300 💎)', karmaChange: 0, rewards: {}, losses: { spiritStones: 300 }, minSpiritStones: 300, setFlags: ['heaven_ascension'] },
+      { text: 'Not yet', karmaChange: 0, rewards: {}, losses: {} },
+    ],
+  },
+  {
+    id: 'necromancy_ritual', title: '🕯️ Circle of Black Candles',
+    description: 'Deep in the bog, a ritual circle waits half-finished. Complete it and the road to the Underworld opens to the living.',
+    choices: [
+      { text: 'Complete the ritual (-30 Karma)', karmaChange: -30, rewards: {}, losses: { qiDeviationSeconds: 120 }, setFlags: ['underworld_ritual'] },
+      { text: 'Purify the circle (+10 Karma)', karmaChange: 10, rewards: {}, losses: {} },
+      { text: 'Walk away', karmaChange: 0, rewards: {}, losses: {} },
+    ],
+  },
+  // Travel hazards — only rolled on the road, see TRAVEL_HAZARD_EVENTS
+  {
+    id: 'road_ambush', title: '🗡️ Ambush on the Road!',
+    description: 'Figures step out from cover ahead and behind. "Your stones or your life, traveler."',
+    choices: [
+      { text: '⚔️ Fight!', karmaChange: 0, rewards: {}, losses: {}, combat: 'bandit' },
+      { text: 'Pay the toll (-40 💎)', karmaChange: 0, rewards: {}, losses: { spiritStones: 40 }, minSpiritStones: 40 },
+      {
+        text: '🏃 Break for the trees', karmaChange: 0, rewards: {}, losses: {},
+        branches: [
+          { probability: 0.6, message: 'You lose them in the undergrowth, far off your path.', karmaChange: 0, rewards: {}, losses: { travelDelay: 45 } },
+          { probability: 0.4, message: 'A thrown club catches you as you run.', karmaChange: 0, rewards: {}, losses: { timePenalty: 45 } },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'stalking_beast', title: '🐾 Something Stalks You',
+    description: 'For the last mile, a spirit beast has paced you from the shadows. Now it closes in.',
+    choices: [
+      { text: '⚔️ Turn and fight', karmaChange: 0, rewards: {}, losses: {}, combat: 'beast' },
+      { text: 'Take the long way around', karmaChange: 0, rewards: {}, losses: { travelDelay: 60 } },
+    ],
+  },
+  {
+    id: 'wandering_merchant', title: '🐫 Wandering Merchant',
+    description: 'A peddler with an overladen mule hails you. "Long road ahead, friend. Supplies?"',
+    choices: [
+      { text: 'Buy a Qi Gathering Pill (-25 💎)', karmaChange: 0, rewards: { items: ['basic_pill'] }, losses: { spiritStones: 25 }, minSpiritStones: 25 },
+      { text: 'Buy a Deviation Cure (-60 💎)', karmaChange: 0, rewards: { items: ['deviation_cure'] }, losses: { spiritStones: 60 }, minSpiritStones: 60 },
+      { text: 'Buy a Breakthrough Pill (-120 💎)', karmaChange: 0, rewards: { items: ['breakthrough_pill'] }, losses: { spiritStones: 120 }, minSpiritStones: 120 },
+      { text: 'Share a meal and move on (+1 Karma)', karmaChange: 1, rewards: {}, losses: {} },
+    ],
+  },
+  {
+    id: 'road_storm', title: '⛈️ Storm on the Road',
+    description: 'Black clouds roll in and the rain comes down in sheets. The path ahead turns to mud.',
+    choices: [
+      { text: 'Take shelter until it passes', karmaChange: 0, rewards: {}, losses: { travelDelay: 90 } },
+      {
+        text: 'Press on through it', karmaChange: 0, rewards: {}, losses: {},
+        branches: [
+          { probability: 0.5, message: 'You push through soaked but on schedule.', karmaChange: 0, rewards: {}, losses: {} },
+          { probability: 0.5, message: 'You lose the path in the downpour and double back.', karmaChange: 0, rewards: {}, losses: { travelDelay: 180 } },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'qi_fog', title: '🌫️ Qi-Laden Fog',
+    description: 'A dense fog thick with wild Qi swallows the road. You can barely see your own hands.',
+    choices: [
+      { text: 'Wait for it to lift', karmaChange: 0, rewards: {}, losses: { travelDelay: 60 } },
+      { text: 'Meditate in the fog', karmaChange: 0, rewards: { xpBonus: 0.05 }, losses: { travelDelay: 120 } },
     ],
   },
 ];
 
+// ========== ALCHEMY RECIPES ==========
+export const ALCHEMY_LEVEL_BONUS = 0.05; // +5% success per Pill Path level above the recipe requirement
+export const WASTE_PILL_CHANCE = 0.5;
+
+export const ALCHEMY_RECIPES: AlchemyRecipe[] = [
+  {
+    id: 'recipe_qi_gathering', name: 'Qi Gathering Pill', description: 'The first pill every apprentice learns to refine.',
+    ingredients: [{ itemId: 'common_herb', quantity: 3 }],
+    outputItemId: 'basic_pill', outputQuantity: 1, craftSeconds: 60, baseSuccessRate: 0.80, requiredLevel: 1,
+  },
+  {
+    id: 'recipe_mind_clearing', name: 'Mind-Clearing Pill', description: 'Fish essence calms the meridians while jade-root soothes the mind.',
+    ingredients: [{ itemId: 'uncommon_herb', quantity: 2 }, { itemId: 'fish_essence', quantity: 1 }],
+    outputItemId: 'deviation_cure', outputQuantity: 1, craftSeconds: 120, baseSuccessRate: 0.65, requiredLevel: 2,
+  },
+  {
+    id: 'recipe_breakthrough', name: 'Breakthrough Pill', description: 'Ginseng essence condensed around a jade-root core.',
+    ingredients: [{ itemId: 'uncommon_herb', quantity: 2 }, { itemId: 'rare_herb', quantity: 1 }],
+    outputItemId: 'breakthrough_pill', outputQuantity: 1, craftSeconds: 180, baseSuccessRate: 0.55, requiredLevel: 3,
+  },
+  {
+    id: 'recipe_tribulation', name: 'Tribulation Resistance Pill', description: 'Binds captured lightning into the body so the next strike feels familiar.',
+    ingredients: [{ itemId: 'rare_herb', quantity: 1 }, { itemId: 'lightning_essence', quantity: 1 }],
+    outputItemId: 'tribulation_pill', outputQuantity: 1, craftSeconds: 300, baseSuccessRate: 0.45, requiredLevel: 5,
+  },
+  {
+    id: 'recipe_heaven_grade', name: 'Heaven-Grade Spirit Pill', description: 'A fallen star dissolved in ginseng. Only true masters dare attempt it.',
+    ingredients: [{ itemId: 'rare_herb', quantity: 2 }, { itemId: 'star_fragment', quantity: 1 }],
+    outputItemId: 'epic_pill', outputQuantity: 1, craftSeconds: 600, baseSuccessRate: 0.35, requiredLevel: 7,
+  },
+];
+
+// ========== FORMATIONS ==========
+export const FORMATION_DURATION_PER_LEVEL = 0.10; // +10% lasting time per Array Path level above 1
+
+export const FORMATIONS: FormationDefinition[] = [
+  {
+    id: 'gathering_array', name: 'Spirit-Gathering Array', description: '+25% XP while you cultivate inside it.',
+    scrollItemId: 'gathering_array_scroll',
+    ingredients: [{ itemId: 'silver_ore', quantity: 1 }, { itemId: 'common_herb', quantity: 3 }],
+    inscribeSeconds: 90, requiredLevel: 1, durationSeconds: 1800,
+    effects: { xpMultiplier: 1.25 },
+  },
+  {
+    id: 'warding_array', name: 'Road-Warding Array', description: 'Journeys leaving this region are 30% shorter and safer.',
+    scrollItemId: 'warding_array_scroll',
+    ingredients: [{ itemId: 'iron_ore', quantity: 4 }, { itemId: 'beast_fang', quantity: 1 }],
+    inscribeSeconds: 120, requiredLevel: 1, durationSeconds: 3600,
+    effects: { wardStrength: 0.3 },
+  },
+  {
+    id: 'treasure_array', name: 'Treasure-Seeking Array', description: 'Exploration rolls loot twice and keeps the better find.',
+    scrollItemId: 'treasure_array_scroll',
+    ingredients: [{ itemId: 'beast_fang', quantity: 2 }, { itemId: 'silver_ore', quantity: 2 }],
+    inscribeSeconds: 150, requiredLevel: 2, durationSeconds: 1800,
+    effects: { extraLootRolls: 1 },
+  },
+  {
+    id: 'convergence_array', name: 'Great Convergence Array', description: '+60% XP while you cultivate inside it.',
+    scrollItemId: 'convergence_array_scroll',
+    ingredients: [{ itemId: 'mithril_ore', quantity: 1 }, { itemId: 'rare_herb', quantity: 1 }],
+    inscribeSeconds: 300, requiredLevel: 5, durationSeconds: 3600,
+    effects: { xpMultiplier: 1.6 },
+  },
+];
+
+// ========== FORGING ==========
+export const FORGE_LEVEL_BONUS = 0.10; // +10% rolled stats per Mechanical Path level above the requirement
+
+export const GEAR_RARITY_MULTIPLIERS: Record<ItemRarity, number> = {
+  common: 1, uncommon: 1.15, rare: 1.35, epic: 1.6, legendary: 2, mythic: 3,
+};
+
+export const EQUIPMENT_SLOTS: { id: EquipmentSlot; label: string; icon: string }[] = [
+  { id: 'weapon', label: 'Weapon', icon: '🗡️' },
+  { id: 'armor', label: 'Armor', icon: '🛡️' },
+  { id: 'accessory', label: 'Accessory', icon: '📿' },
+  { id: 'puppet', label: 'Puppet', icon: '🤖' },
+];
+
+export const FORGE_BLUEPRINTS: ForgeBlueprint[] = [
+  {
+    id: 'iron_sword', name: 'Iron Spirit Sword', description: 'A plain blade that holds a trickle of Qi.', slot: 'weapon',
+    ingredients: [{ itemId: 'iron_ore', quantity: 5 }],
+    forgeSeconds: 120, requiredLevel: 1, powerRange: [8, 14], tribulationHpRange: [0, 0],
+  },
+  {
+    id: 'iron_scale_armor', name: 'Iron Scale Armor', description: 'Overlapping plates lined with beast fangs.', slot: 'armor',
+    ingredients: [{ itemId: 'iron_ore', quantity: 6 }, { itemId: 'beast_fang', quantity: 2 }],
+    forgeSeconds: 150, requiredLevel: 1, powerRange: [2, 4], tribulationHpRange: [10, 18],
+  },
+  {
+    id: 'clockwork_puppet', name: 'Clockwork Puppet', description: 'A wind-up guardian that fights at your side.', slot: 'puppet',
+    ingredients: [{ itemId: 'iron_ore', quantity: 8 }, { itemId: 'silver_ore', quantity: 2 }],
+    forgeSeconds: 240, requiredLevel: 2, powerRange: [15, 25], tribulationHpRange: [0, 0],
+  },
+  {
+    id: 'silver_spear', name: 'Silver-Vein Spear', description: 'Spirit ore channels Qi down the shaft.', slot: 'weapon',
+    ingredients: [{ itemId: 'silver_ore', quantity: 3 }, { itemId: 'iron_ore', quantity: 2 }],
+    forgeSeconds: 200, requiredLevel: 2, powerRange: [18, 28], tribulationHpRange: [0, 0],
+  },
+  {
+    id: 'silver_robe', name: 'Silver-Thread Robe', description: 'Woven spirit silver that grounds lightning.', slot: 'armor',
+    ingredients: [{ itemId: 'silver_ore', quantity: 4 }],
+    forgeSeconds: 240, requiredLevel: 3, powerRange: [4, 8], tribulationHpRange: [25, 40],
+  },
+  {
+    id: 'beast_core_amulet', name: 'Beast Core Amulet', description: 'A spirit beast core set in silver, still faintly beating.', slot: 'accessory',
+    ingredients: [{ itemId: 'rare_beast_core', quantity: 1 }, { itemId: 'silver_ore', quantity: 1 }],
+    forgeSeconds: 300, requiredLevel: 3, powerRange: [10, 16], tribulationHpRange: [15, 25],
+  },
+  {
+    id: 'mithril_blade', name: 'Mithril Cloud-Splitter', description: 'A heaven-metal blade light as a feather.', slot: 'weapon',
+    ingredients: [{ itemId: 'mithril_ore', quantity: 2 }, { itemId: 'silver_ore', quantity: 2 }],
+    forgeSeconds: 480, requiredLevel: 5, powerRange: [45, 70], tribulationHpRange: [0, 5],
+  },
+  {
+    id: 'beast_core_puppet', name: 'Beast-Core War Puppet', description: 'Twin beast cores drive a mithril frame with feral instinct.', slot: 'puppet',
+    ingredients: [{ itemId: 'rare_beast_core', quantity: 2 }, { itemId: 'mithril_ore', quantity: 1 }],
+    forgeSeconds: 600, requiredLevel: 6, powerRange: [60, 90], tribulationHpRange: [10, 20],
+  },
+];
+
+// ========== SPIRIT BEASTS ==========
+export const BEAST_ENCOUNTER_CHANCE = 0.002; // per exploration tick, tripled in Spirit Beast Territory
+export const TAMING_BELL_BONUS = 0.20;
+export const COMPANION_BOND_PER_LEVEL = 120; // bond needed per companion level
+
+export const BEAST_SPECIES: BeastSpecies[] = [
+  {
+    id: 'spirit_fox', name: 'Spirit Fox', icon: '🦊', description: 'A clever fox that sniffs out hidden things.',
+    habitats: ['peaceful_village', 'forest_path'], bonusType: 'discovery', bonusPerLevel: 0.002, tameChance: 0.50,
+  },
+  {
+    id: 'iron_back_boar', name: 'Iron-Back Boar', icon: '🐗', description: 'Bristles hard as nails. Charges anything that threatens you.',
+    habitats: ['mining_town', 'bandit_wastes'], bonusType: 'power', bonusPerLevel: 8, tameChance: 0.40,
+  },
+  {
+    id: 'mist_crane', name: 'Mist Crane', icon: '🦢', description: 'Glides over water and returns with shining trinkets.',
+    habitats: ['river_delta', 'floating_islands'], bonusType: 'loot', bonusPerLevel: 0.05, tameChance: 0.35,
+  },
+  {
+    id: 'jade_serpent', name: 'Jade Serpent', icon: '🐍', description: 'Tastes the swamp air for spiritual residue.',
+    habitats: ['cursed_swamp'], bonusType: 'discovery', bonusPerLevel: 0.003, tameChance: 0.30,
+  },
+  {
+    id: 'thunder_hawk', name: 'Thunder Hawk', icon: '🦅', description: 'Its cry calls down lightning on your foes.',
+    habitats: ['lightning_plains', 'celestial_peaks'], bonusType: 'power', bonusPerLevel: 20, tameChance: 0.20,
+  },
+  {
+    id: 'cloud_qilin', name: 'Cloud Qilin', icon: '🦄', description: 'An auspicious beast. Fortune follows in its hoofprints.',
+    habitats: ['spirit_beast_territory'], bonusType: 'loot', bonusPerLevel: 0.08, tameChance: 0.15,
+  },
+  {
+    id: 'bone_hound', name: 'Bone Hound', icon: '🐕', description: 'A skeletal hunter loyal beyond death.',
+    habitats: ['bone_fields', 'ghost_city'], bonusType: 'power', bonusPerLevel: 15, tameChance: 0.25,
+  },
+  {
+    id: 'star_carp', name: 'Star Carp', icon: '🐟', description: 'Swims between reflected constellations, guiding you to treasure.',
+    habitats: ['starfall_lake'], bonusType: 'discovery', bonusPerLevel: 0.005, tameChance: 0.15,
+  },
+];
+
+// ========== STORYLINES ==========
+export const STORYLINES: Storyline[] = [
+  { id: 'secret_realm', name: 'The Secret Realm', icon: '🏛️', description: 'An ancient realm of sealed halls and forgotten treasure.' },
+  { id: 'immortal_disciple', name: 'The Immortal\'s Disciple', icon: '🕯️', description: 'A dying immortal\'s last wish.' },
+];
+
+// ========== TECHNIQUES ==========
+export const TECHNIQUES: Technique[] = [
+  // Martial techniques — one equipped at a time
+  { id: 'iron_fist', name: 'Iron Fist Art', icon: '👊', kind: 'martial', description: 'Straightforward strikes drilled ten thousand times.', effects: { trainingXpMultiplier: 1.15, combatDamageMultiplier: 1.2 } },
+  { id: 'flowing_water_palm', name: 'Flowing Water Palm', icon: '🌊', kind: 'martial', description: 'Yielding palms that turn an opponent\'s force aside.', effects: { trainingXpMultiplier: 1.1, combatDamageMultiplier: 1.3, tribulationResistance: 0.05 } },
+  { id: 'vajra_body', name: 'Vajra Body Art', icon: '💎', kind: 'martial', description: 'Tempering the flesh until blades and lightning glance off.', effects: { trainingXpMultiplier: 1.3, tribulationResistance: 0.15 } },
+  { id: 'thunder_step_sword', name: 'Thunder-Step Sword', icon: '⚡', kind: 'martial', description: 'Sword forms that strike before the thunder sounds.', effects: { trainingXpMultiplier: 1.2, combatDamageMultiplier: 1.6 } },
+  // Passives — slots open at each tier transition
+  { id: 'battle_sense', name: 'Battle Sense', icon: '👁️', kind: 'passive', description: 'You read intent a heartbeat before the blow.', effects: { combatDamageMultiplier: 1.1 } },
+  { id: 'breath_control', name: 'Breath Control', icon: '🌬️', kind: 'passive', description: 'Steady breathing lets you train longer.', effects: { trainingXpMultiplier: 1.1 } },
+  { id: 'iron_skin', name: 'Iron Skin', icon: '🛡️', kind: 'passive', description: 'Calloused skin that shrugs off glancing strikes.', effects: { tribulationResistance: 0.1 } },
+  { id: 'blood_frenzy', name: 'Blood Frenzy', icon: '🩸', kind: 'passive', description: 'Forbidden art that feeds on the scent of blood.', effects: { combatDamageMultiplier: 1.25 } },
+  { id: 'heavenly_resolve', name: 'Heavenly Resolve', icon: '☯️', kind: 'passive', description: 'An unshakable heart before the judgment of heaven.', effects: { tribulationResistance: 0.25 } },
+];
+
+export const MAX_TRIBULATION_RESISTANCE = 0.6;
+
+// ========== COMBAT ==========
+export const COMBAT_ENCOUNTER_CHANCE = 0.0005; // per explore tick, multiplied by region danger
+export const ENEMY_POWER_PER_DANGER = 15; // scaled by danger^1.5
+export const COMBAT_FLEE_BASE_CHANCE = 0.5;
+export const INJURY_SECONDS_PER_DANGER = 120;
+export const INJURY_XP_PENALTY = 0.75; // XP multiplier while injured
+export const INJURY_POWER_PENALTY = 0.7; // power multiplier while injured
+
+// ========== REALMS ==========
+export const REALM_RULES: Record<RealmId, RealmRules> = {
+  mortal: {
+    name: 'Mortal Realm', icon: '🌏', ambient: 'Thin, ordinary Qi.',
+    qiMultiplier: 1, livingDrain: 0, drainExemptPaths: [], gate: null,
+  },
+  heaven: {
+    name: 'Heaven Realm', icon: '☁️', ambient: 'Dense heavenly Qi: cultivation is 1.5x faster.',
+    qiMultiplier: 1.5, livingDrain: 0, drainExemptPaths: [],
+    gate: { description: 'Reach the Transcendent tier on any path, or climb the Heavenly Ladder', flag: 'heaven_ascension', minTier: 2 },
+  },
+  underworld: {
+    name: 'Underworld', icon: '💀', ambient: 'Death Qi gnaws at the living: your path loses XP here unless you walk the Death Path.',
+    qiMultiplier: 1, livingDrain: 0.001, drainExemptPaths: ['necromancy'],
+    gate: { description: 'Die once, or perform the necromancy ritual', flag: 'underworld_ritual', afterDeath: true },
+  },
+};
+
+// Every city has libraries, academies and scholars to argue with
+export const CITY_ENVIRONMENT: RegionEnvironment = {
+  description: 'Libraries and academies', pathModifiers: { scholar: 1.25 },
+};
+
+// ========== TRAVEL HAZARDS ==========
+// Per-second odds on the road, scaled by the terrain of the region being entered
+export const TRAVEL_HAZARD_CHANCE: Record<TravelHazard, number> = {
+  ambush: 0.0004, // also multiplied by danger, and reduced by the player's power
+  merchant: 0.0015,
+  weather: 0.001,
+};
+export const TRAVEL_HAZARD_TERRAIN: Record<string, Record<TravelHazard, number>> = {
+  city: { ambush: 0, merchant: 2, weather: 0.5 },
+  forest: { ambush: 1.3, merchant: 0.8, weather: 1 },
+  mountain: { ambush: 1, merchant: 0.6, weather: 1.5 },
+  plains: { ambush: 0.8, merchant: 1.3, weather: 1.2 },
+  ruins: { ambush: 1.3, merchant: 0.4, weather: 0.8 },
+  sky: { ambush: 0.8, merchant: 0.3, weather: 2 },
+  swamp: { ambush: 1.2, merchant: 0.4, weather: 1.5 },
+  void: { ambush: 1.5, merchant: 0.1, weather: 1 },
+  wasteland: { ambush: 1.5, merchant: 0.6, weather: 1.3 },
+  water: { ambush: 0.8, merchant: 1.5, weather: 1.5 },
+};
+export const TRAVEL_HAZARD_EVENTS: Record<TravelHazard, string[]> = {
+  ambush: ['road_ambush', 'stalking_beast'],
+  merchant: ['wandering_merchant'],
+  weather: ['road_storm', 'qi_fog'],
+};
+export const TRAVEL_AMBUSH_MIN_FACTOR = 0.1; // however strong the player, ambushes never stop entirely
+
+export const ENEMY_TEMPLATES: EnemyTemplate[] = [
+  { id: 'wild_wolf', name: 'Qi-Touched Wolf', icon: '🐺', kind: 'beast', terrains: ['forest', 'plains', 'mountain'], powerMultiplier: 0.9 },
+  { id: 'swamp_lurker', name: 'Swamp Lurker', icon: '🐊', kind: 'beast', terrains: ['swamp', 'water'], powerMultiplier: 1.0 },
+  { id: 'rock_ape', name: 'Rock-Hide Ape', icon: '🦍', kind: 'beast', terrains: ['mountain', 'wasteland'], powerMultiplier: 1.1 },
+  { id: 'storm_roc', name: 'Storm Roc', icon: '🦅', kind: 'beast', terrains: ['sky', 'plains'], powerMultiplier: 1.2 },
+  { id: 'territorial_beast', name: 'Territorial Spirit Beast', icon: '🐯', kind: 'beast', terrains: ['forest', 'sky', 'mountain', 'ruins', 'wasteland', 'swamp', 'water', 'plains', 'void'], powerMultiplier: 1.0 },
+  { id: 'road_bandit', name: 'Road Bandit', icon: '🗡️', kind: 'bandit', terrains: ['forest', 'wasteland', 'plains', 'water'], powerMultiplier: 0.8 },
+  { id: 'bandit_chief', name: 'Bandit Chief', icon: '🪓', kind: 'bandit', terrains: ['wasteland'], powerMultiplier: 1.3 },
+  { id: 'rogue_cultivator', name: 'Rogue Cultivator', icon: '🥷', kind: 'cultivator', terrains: ['mountain', 'ruins', 'sky', 'wasteland'], powerMultiplier: 1.2 },
+  { id: 'ruin_guardian', name: 'Ruin Guardian Puppet', icon: '🗿', kind: 'spirit', terrains: ['ruins'], powerMultiplier: 1.4 },
+  { id: 'vengeful_ghost', name: 'Vengeful Ghost', icon: '👻', kind: 'spirit', terrains: ['swamp', 'ruins', 'void', 'wasteland'], powerMultiplier: 1.1 },
+];
+
 // ========== SHOP INVENTORIES ==========
 export const SHOP_ITEMS_BY_REALM: Record<string, string[]> = {
   mortal: ['basic_pill', 'breakthrough_pill', 'deviation_cure', 'basic_scripture', 'common_herb', 'iron_ore'],
@@ -583,8 +1038,8 @@ export const GROUPS: import('./types').Group[] = [
     karmaRequirement: { min: 0, max: 1000 }, description: 'An orthodox sect focused on righteous cultivation.',
     location: 'mystic_mountain_base', contributionPoints: 0,
     missions: [
-      { id: 'patrol_1', name: 'Mountain Patrol', description: 'Patrol the mountain for intruders.', helpOption: { reward: 20, karmaChange: 3, description: 'Help escort lost travelers (+3 Karma)' }, exploitOption: { reward: 40, karmaChange: -5, description: 'Shake down travelers for tolls (-5 Karma)' }, duration: 300, completed: false },
-      { id: 'herb_gather', name: 'Herb Gathering Mission', description: 'Gather herbs for the sect\'s alchemists.', helpOption: { reward: 15, karmaChange: 1, description: 'Deliver fairly (+1 Karma)' }, exploitOption: { reward: 30, karmaChange: -3, description: 'Skim some for yourself (-3 Karma)' }, duration: 180, completed: false },
+      { id: 'patrol_1', name: 'Mountain Patrol', description: 'Patrol the mountain for intruders.', helpOption: { reward: 20, karmaChange: 3, description: 'Help escort lost travelers (+3 Karma)' }, exploitOption: { reward: 40, karmaChange: -5, description: 'Shake down travelers for tolls (-5 Karma)' }, duration: 300, teachesTechnique: 'flowing_water_palm' },
+      { id: 'herb_gather', name: 'Herb Gathering Mission', description: 'Gather herbs for the sect\'s alchemists.', helpOption: { reward: 15, karmaChange: 1, description: 'Deliver fairly (+1 Karma)' }, exploitOption: { reward: 30, karmaChange: -3, description: 'Skim some for yourself (-3 Karma)' }, duration: 180, teachesTechnique: 'breath_control' },
     ],
   },
   {
@@ -592,7 +1047,7 @@ export const GROUPS: import('./types').Group[] = [
     karmaRequirement: { min: -1000, max: -50 }, description: 'A dark cult practicing forbidden blood arts.',
     location: 'cursed_swamp', contributionPoints: 0,
     missions: [
-      { id: 'sacrifice_1', name: 'Blood Offering', description: 'Perform a dark ritual.', helpOption: { reward: 30, karmaChange: -10, description: 'Perform the ritual (-10 Karma)' }, exploitOption: { reward: 60, karmaChange: -25, description: 'Use extra sacrifices for power (-25 Karma)' }, duration: 300, completed: false },
+      { id: 'sacrifice_1', name: 'Blood Offering', description: 'Perform a dark ritual.', helpOption: { reward: 30, karmaChange: -10, description: 'Perform the ritual (-10 Karma)' }, exploitOption: { reward: 60, karmaChange: -25, description: 'Use extra sacrifices for power (-25 Karma)' }, duration: 300, teachesTechnique: 'blood_frenzy' },
     ],
   },
   {
@@ -600,11 +1055,92 @@ export const GROUPS: import('./types').Group[] = [
     karmaRequirement: { min: -500, max: 1000 }, description: 'A merchant guild offering trade bonuses.',
     location: 'merchant_hub', contributionPoints: 0,
     missions: [
-      { id: 'trade_1', name: 'Trade Route Guard', description: 'Guard a merchant caravan.', helpOption: { reward: 25, karmaChange: 2, description: 'Protect honestly (+2 Karma)' }, exploitOption: { reward: 50, karmaChange: -8, description: 'Steal from the cargo (-8 Karma)' }, duration: 240, completed: false },
+      { id: 'trade_1', name: 'Trade Route Guard', description: 'Guard a merchant caravan.', helpOption: { reward: 25, karmaChange: 2, description: 'Protect honestly (+2 Karma)' }, exploitOption: { reward: 50, karmaChange: -8, description: 'Steal from the cargo (-8 Karma)' }, duration: 240, teachesTechnique: 'iron_skin' },
     ],
   },
 ];
 
+// ========== SAMSARA ==========
+// Points are awarded at death and spent between lives.
+export const SAMSARA_POINTS_PER_LEVEL = 1; // per level on every unlocked path
+export const SAMSARA_KARMA_THRESHOLD = 100; // karma beyond ±this (Righteous or Wicked) pays out
+export const SAMSARA_POINTS_PER_KARMA = 0.05; // per point of karma beyond the threshold
+export const SAMSARA_POINTS_PER_ACHIEVEMENT = 5; // once per achievement, on the first death after unlocking it
+export const SAMSARA_SECLUSION_HOURS = 2; // offline cap per Eternal Seclusion level
+export const SAMSARA_SCRIPTURE_ID = 'basic_scripture';
+
+export const SAMSARA_UPGRADES: SamsaraUpgrade[] = [
+  { id: 'remembered_scripture', name: 'Remembered Scripture', icon: '📜', description: 'Begin every life already holding a Basic Qi Gathering Manual.', costs: [30] },
+  { id: 'defiant_fate', name: 'Defiant Fate', icon: '🔄', description: 'One more free re-roll of your fate each life, per level.', costs: [20, 60, 180] },
+  { id: 'eternal_seclusion', name: 'Eternal Seclusion', icon: '🧘', description: `Offline progress lasts ${SAMSARA_SECLUSION_HOURS}h longer per level.`, costs: [25, 75, 225] },
+  { id: 'chosen_birth', name: 'Chosen Birth', icon: '🏯', description: 'Choose your background instead of leaving it to fate.', costs: [100] },
+];
+
+// ========== ACHIEVEMENTS ==========
+// Kept through rebirth. Each grants a small permanent bonus.
+export const NARROW_ESCAPE_HP_RATIO = 0.25;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  ...PATHS.map((path): Achievement => ({
+    id: `path_${path.id}_5`, name: `${path.name}: Second Tier`, icon: path.icon,
+    description: `Reach level 5 on ${path.name}.`,
+    bonus: { xpBonus: 0.02 },
+    progress: s => ({ current: s.pathProgress[path.id]?.currentLevel || 0, target: 5 }),
+  })),
+  {
+    id: 'dao_pinnacle', name: 'Pinnacle of the Dao', icon: '🏔️', description: 'Reach level 12 on any path.',
+    bonus: { xpBonus: 0.10 },
+    progress: s => ({ current: s.highestPathLevel, target: 12 }),
+  },
+  {
+    id: 'wanderer', name: 'Wanderer', icon: '🧭', description: 'Discover 8 regions.',
+    bonus: { xpBonus: 0.02 },
+    progress: s => ({ current: s.discoveredRegions.length, target: 8 }),
+  },
+  {
+    id: 'world_walker', name: 'World Walker', icon: '🌏', description: 'Discover every region in all three realms.',
+    bonus: { powerBonus: 20 },
+    progress: s => ({ current: s.discoveredRegions.length, target: REGIONS.length }),
+  },
+  {
+    id: 'narrow_escape', name: 'Hair\'s Breadth', icon: '⛈️', description: `Survive a Heavenly Tribulation with ${NARROW_ESCAPE_HP_RATIO * 100}% HP or less.`,
+    bonus: { breakthroughBonus: 0.03 },
+  },
+  {
+    id: 'saint', name: 'Living Saint', icon: '😇', description: 'Reach Saint karma (500).',
+    bonus: { breakthroughBonus: 0.05 },
+    progress: s => ({ current: Math.max(0, s.character.karma), target: 500 }),
+  },
+  {
+    id: 'abomination', name: 'Abomination', icon: '👹', description: 'Sink to Abomination karma (-500).',
+    bonus: { powerBonus: 40 },
+    progress: s => ({ current: Math.max(0, -s.character.karma), target: 500 }),
+  },
+  {
+    id: 'hoarder', name: 'Dragon\'s Hoard', icon: '💰', description: 'Hold 10,000 Spirit Stones at once.',
+    bonus: { xpBonus: 0.03 },
+    progress: s => ({ current: s.spiritStones, target: 10000 }),
+  },
+  {
+    id: 'reborn', name: 'Turning of the Wheel', icon: '♻️', description: 'Be reborn for the first time.',
+    bonus: { xpBonus: 0.05 },
+    progress: s => ({ current: s.character.rebirthCount, target: 1 }),
+  },
+  {
+    id: 'beast_friend', name: 'Friend of Beasts', icon: '🐾', description: 'Keep 3 spirit beast companions.',
+    bonus: { powerBonus: 15 },
+    progress: s => ({ current: (s.companions || []).length, target: 3 }),
+  },
+  {
+    id: 'technique_collector', name: 'Hundred Schools', icon: '🥋', description: 'Learn 5 techniques.',
+    bonus: { powerBonus: 20 },
+    progress: s => ({ current: (s.learnedTechniques || []).length, target: 5 }),
+  },
+];
+
+// ========== RARITY ORDER ==========
+export const RARITY_ORDER: ItemRarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary', 'mythic'];
+
 // ========== RARITY COLORS ==========
 export const RARITY_COLORS: Record<string, string> = {
   common: '#9ca3af',
@@ -73,6 +73,7 @@ export interface Item {
     preserveRolls?: boolean;
     tribulationHpBonus?: number;
     rerollSpiritRoot?: boolean;
+    teachesTechnique?: string;
   };
   sellValue: number;
   stackable: boolean;
@@ -105,15 +106,43 @@ export interface QiDeviationDebuff {
   remainingSeconds: number;
 }
 
+export type RealmId = 'mortal' | 'heaven' | 'underworld';
+
+/** Who may cross into a realm: any one of the conditions opens it. */
+export interface RealmGate {
+  description: string;
+  flag: string; // set by the realm's ascension or ritual event
+  minTier?: number; // on any path, reached at any point in this life
+  afterDeath?: boolean; // open to anyone who has died before
+}
+
+export interface RealmRules {
+  name: string;
+  icon: string;
+  ambient: string; // shown on arrival and on the map
+  qiMultiplier: number; // on cultivation XP
+  livingDrain: number; // fraction of the active path's level requirement lost per second
+  drainExemptPaths: string[];
+  gate: RealmGate | null;
+}
+
+/** Local conditions that favour some paths over others. */
+export interface RegionEnvironment {
+  description: string;
+  pathModifiers: Record<string, number>; // XP multiplier by path id
+}
+
 export interface Region {
   id: string;
   name: string;
   description: string;
-  realm: 'mortal' | 'heaven' | 'underworld';
+  realm: RealmId;
   dangerLevel: number;
   terrain: string;
   hasShop: boolean;
   isCity: boolean;
+  mapPosition: { x: number; y: number }; // travel time grows with the distance between positions
+  environment?: RegionEnvironment;
   connections: string[];
   discovered: boolean;
   lootTable: LootEntry[];
@@ -132,13 +161,72 @@ export interface GameEvent {
   description: string;
   choices: EventChoice[];
   isFated?: boolean;
+  storylineId?: string; // opens this storyline; not rolled again while it is active
 }
 
-export interface EventChoice {
-  text: string;
+export interface EventBuff {
+  id: string;
+  name: string;
+  icon: string;
+  multiplier: number;
+  durationSeconds: number;
+}
+
+export interface EventOutcome {
   karmaChange: number;
-  rewards: { spiritStones?: number; items?: string[]; xpBonus?: number };
-  losses: { spiritStones?: number; items?: string[]; timePenalty?: number };
+  rewards: {
+    spiritStones?: number;
+    items?: string[];
+    xpBonus?: number; // fraction of the active path's current level requirement
+    buff?: EventBuff;
+  };
+  losses: {
+    spiritStones?: number;
+    items?: string[];
+    timePenalty?: number; // seconds stunned
+    qiDeviationSeconds?: number;
+    travelDelay?: number; // seconds added to the leg under way
+  };
+  combat?: EnemyKind; // starts a fight against a local enemy of this kind
+  setFlags?: string[];
+  chain?: ChainStep;
+}
+
+/** Advances a storyline. Without a nextEventId the storyline is complete. */
+export interface ChainStep {
+  storylineId: string;
+  journal: string;
+  nextEventId?: string;
+  delaySeconds?: number;
+  regionId?: string; // the next event waits until the player is here
+}
+
+export interface Storyline {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+}
+
+export interface ActiveStoryline {
+  storylineId: string;
+  journal: string[];
+  nextEventId: string | null;
+  regionId: string | null;
+  remainingSeconds: number;
+}
+
+export interface EventBranch extends EventOutcome {
+  probability: number;
+  message: string;
+}
+
+export interface EventChoice extends EventOutcome {
+  text: string;
+  karmaRequirement?: { min?: number; max?: number };
+  minSpiritStones?: number; // the price of the choice, so it can't be taken on credit
+  requiredFlags?: string[];
+  branches?: EventBranch[]; // one is rolled and applied on top of the choice itself
 }
 
 export interface Group {
@@ -159,7 +247,7 @@ export interface Mission {
   helpOption: { reward: number; karmaChange: number; description: string };
   exploitOption: { reward: number; karmaChange: number; description: string };
   duration: number;
-  completed: boolean;
+  teachesTechnique?: string;
 }
 
 export interface CombatResult {
@@ -190,13 +278,295 @@ export interface Character {
   redeemedDevil: boolean;
 }
 
+export interface AlchemyRecipe {
+  id: string;
+  name: string;
+  description: string;
+  ingredients: { itemId: string; quantity: number }[];
+  outputItemId: string;
+  outputQuantity: number;
+  craftSeconds: number;
+  baseSuccessRate: number;
+  requiredLevel: number;
+}
+
+export interface CraftingJob {
+  recipeId: string;
+  remainingSeconds: number;
+  totalSeconds: number;
+}
+
+export interface FormationEffect {
+  xpMultiplier?: number;
+  extraLootRolls?: number;
+  wardStrength?: number;
+}
+
+export interface FormationDefinition {
+  id: string;
+  name: string;
+  description: string;
+  scrollItemId: string;
+  ingredients: { itemId: string; quantity: number }[];
+  inscribeSeconds: number;
+  requiredLevel: number;
+  durationSeconds: number;
+  effects: FormationEffect;
+}
+
+export interface DeployedFormation {
+  formationId: string;
+  regionId: string;
+  remainingSeconds: number;
+  totalSeconds: number;
+}
+
+export type EquipmentSlot = 'weapon' | 'armor' | 'accessory' | 'puppet';
+
+export interface ForgeBlueprint {
+  id: string;
+  name: string;
+  description: string;
+  slot: EquipmentSlot;
+  ingredients: { itemId: string; quantity: number }[];
+  forgeSeconds: number;
+  requiredLevel: number;
+  powerRange: [number, number];
+  tribulationHpRange: [number, number];
+}
+
+export interface ForgedGear {
+  uid: string;
+  blueprintId: string;
+  name: string;
+  slot: EquipmentSlot;
+  rarity: ItemRarity;
+  power: number;
+  tribulationHp: number;
+}
+
+export type CompanionBonusType = 'loot' | 'discovery' | 'power';
+
+export interface BeastSpecies {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  habitats: string[];
+  bonusType: CompanionBonusType;
+  bonusPerLevel: number;
+  tameChance: number;
+}
+
+export interface Companion {
+  uid: string;
+  speciesId: string;
+  level: number;
+  bond: number;
+}
+
+export type TechniqueKind = 'martial' | 'passive';
+
+export interface TechniqueEffect {
+  trainingXpMultiplier?: number;
+  combatDamageMultiplier?: number;
+  tribulationResistance?: number; // fraction of each lightning strike's damage ignored
+}
+
+export interface Technique {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  kind: TechniqueKind;
+  effects: TechniqueEffect;
+}
+
+export interface AchievementBonus {
+  xpBonus?: number; // added to the XP multiplier
+  breakthroughBonus?: number; // added to breakthrough chance
+  powerBonus?: number; // flat combat power
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  bonus: AchievementBonus;
+  // Omitted for achievements granted directly by the moment they describe
+  progress?: (state: GameState) => { current: number; target: number };
+}
+
+export type EnemyKind = 'beast' | 'bandit' | 'cultivator' | 'spirit';
+
+export interface EnemyTemplate {
+  id: string;
+  name: string;
+  icon: string;
+  kind: EnemyKind;
+  terrains: string[];
+  powerMultiplier: number;
+}
+
+export type CombatAction = 'strike' | 'guard' | 'flee';
+
+export interface CombatState {
+  enemyId: string;
+  enemyName: string;
+  enemyIcon: string;
+  enemyPower: number;
+  enemyHp: number;
+  enemyMaxHp: number;
+  playerHp: number;
+  playerMaxHp: number;
+  round: number;
+  regionId: string;
+  log: string[];
+}
+
+export interface InjuryDebuff {
+  active: boolean;
+  remainingSeconds: number;
+}
+
+export type RoutePreference = 'fastest' | 'safest';
+
+export type TravelHazard = 'ambush' | 'merchant' | 'weather';
+
 export interface TravelState {
   traveling: boolean;
   destinationId: string | null;
   remainingSeconds: number;
+  route: string[]; // waypoints still to travel after destinationId, in order
+  preference: RoutePreference;
+  autoExplore: boolean; // explore at each waypoint before the next leg
+  layoverSeconds: number; // time left exploring the current waypoint
+}
+
+/** Preview of a save slot, kept in the slot index so the picker never parses full saves. */
+export interface SaveSlotMeta {
+  id: string;
+  name: string;
+  realm: string; // level name on the character's furthest path
+  rebirthCount: number;
+  playTime: number; // seconds
+  lastSaved: number;
+}
+
+// ========== SAMSARA ==========
+/** A permanent upgrade bought with Samsara points between lives. */
+export interface SamsaraUpgrade {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  costs: number[]; // one entry per level
+}
+
+/** Where the points from the last death came from. */
+export interface SamsaraAward {
+  levels: number;
+  karma: number;
+  achievements: number;
+  total: number;
+}
+
+export interface SamsaraState {
+  points: number; // unspent
+  totalEarned: number;
+  upgrades: Record<string, number>; // upgrade id -> levels bought
+  claimedAchievements: string[]; // achievements already paid out; each pays once
+  lastAward: SamsaraAward | null;
+}
+
+/** A restorable snapshot of one slot's save. */
+export interface SaveBackup {
+  id: string;
+  kind: 'auto' | 'daily'; // rolling auto-save copy or the day's snapshot
+  timestamp: number; // when the snapshot was saved
+  realm: string;
+  playTime: number; // seconds
+}
+
+/** What happened during offline catch-up, shown once when the game loads. */
+export interface OfflineReport {
+  secondsAway: number;
+  secondsReplayed: number; // secondsAway clipped to the offline cap
+  xpGained: Record<string, number>; // by path id
+  levelsGained: Record<string, number>; // by path id
+  breakthroughs: Partial<Record<BreakthroughResult['outcome'], number>>;
+  itemsGained: { itemId: string; name: string; quantity: number }[];
+  stonesGained: number;
+  eventsSkipped: string[]; // titles of events nobody was there to answer
+  eventAwaiting: string | null; // a storyline or fated event kept for the player
+  combatsFled: number;
+  beastsIgnored: number;
+  arrivedAt: string | null; // region name, if a journey ended while away
+  died: boolean;
+}
+
+export interface BreakthroughResult {
+  success: boolean;
+  outcome: 'success' | 'minor_setback' | 'qi_deviation' | 'crippling_injury' | 'death';
+  message: string;
+}
+
+/** Every change a player can make to the game, applied through ActionEngine.applyAction. */
+export type PlayerAction =
+  | { type: 'tick'; clickBoost: boolean }
+  | { type: 'set_action'; action: ActionType }
+  | { type: 'select_path'; pathId: string }
+  | { type: 'begin_tribulation' }
+  | { type: 'breakthrough'; survivedHpRatio?: number }
+  | { type: 'rebirth' }
+  | { type: 'buy_samsara_upgrade'; upgradeId: string }
+  | { type: 'reincarnate'; character?: Character }
+  | { type: 'buy_speed_boost' }
+  | { type: 'toggle_auto_breakthrough' }
+  | { type: 'upgrade_offline_cap' }
+  | { type: 'use_pill'; itemId: string }
+  | { type: 'travel'; regionId: string }
+  | { type: 'cancel_route' }
+  | { type: 'set_route_preference'; preference: RoutePreference }
+  | { type: 'toggle_auto_explore' }
+  | { type: 'buy_item'; itemId: string }
+  | { type: 'sell_item'; itemId: string }
+  | { type: 'join_group'; groupId: string }
+  | { type: 'leave_group' }
+  | { type: 'complete_mission'; missionId: string; help: boolean }
+  | { type: 'toggle_rogue' }
+  | { type: 'equip_scripture'; itemId: string }
+  | { type: 'study_scripture'; itemId: string }
+  | { type: 'equip_martial'; techniqueId: string | null }
+  | { type: 'equip_passive'; techniqueId: string }
+  | { type: 'unequip_passive'; techniqueId: string }
+  | { type: 'start_refining'; recipeId: string }
+  | { type: 'start_inscribing'; formationId: string }
+  | { type: 'deploy_formation'; itemId: string }
+  | { type: 'start_forging'; blueprintId: string }
+  | { type: 'equip_gear'; uid: string }
+  | { type: 'unequip_gear'; slot: EquipmentSlot }
+  | { type: 'scrap_gear'; uid: string }
+  | { type: 'tame_beast' }
+  | { type: 'ignore_beast' }
+  | { type: 'set_active_companion'; uid: string | null }
+  | { type: 'release_companion'; uid: string }
+  | { type: 'event_choice'; choiceIdx: number }
+  | { type: 'combat'; action: CombatAction }
+  | { type: 'log'; text: string; logType: LogMessage['type'] };
+
+/** Sends an action through the reducer; returns the new state, or null if nothing happened. */
+export type ActionDispatch = (action: PlayerAction) => GameState | null;
+
+/** Seedable PRNG position. `seed` is kept so a run can be reproduced from its start. */
+export interface RngState {
+  seed: number;
+  state: number;
 }
 
 export interface GameState {
+  version: number; // save schema version, see SAVE_VERSION
   character: Character;
   pathProgress: Record<string, PathProgress>;
   currentAction: ActionType;
@@ -215,14 +585,36 @@ export interface GameState {
   lastSaveTimestamp: number;
   karmaVisible: boolean;
   autoSaveEnabled: boolean;
-  gamePhase: 'character_creation' | 'playing';
+  gamePhase: 'character_creation' | 'playing' | 'samsara'; // samsara: dead, between lives
   rerollCount: number;
   tickCount: number;
   highestPathLevel: number;
   equippedScripture: string | null;
   equippedMartialTechnique: string | null;
   equippedPassives: string[];
+  learnedTechniques: string[];
   totalDeaths: number;
   achievements: string[];
+  refining: CraftingJob | null;
+  inscribing: CraftingJob | null;
+  formations: DeployedFormation[];
+  forging: CraftingJob | null;
+  equipment: Partial<Record<EquipmentSlot, ForgedGear>>;
+  gearStash: ForgedGear[];
+  companions: Companion[];
+  activeCompanionUid: string | null;
+  wildBeast: string | null;
+  combat: CombatState | null;
+  injury: InjuryDebuff;
+  stunSeconds: number;
+  storyFlags: string[];
+  activeStorylines: ActiveStoryline[];
+  completedStorylines: string[];
+  rng: RngState;
+  completedMissions: string[];
+  lastBreakthrough: BreakthroughResult | null;
+  offlineCapLevel: number; // Secluded Meditation upgrades, kept through rebirth
+  autoBreakthrough: boolean; // attempt ordinary breakthroughs while away
+  samsara: SamsaraState; // kept through rebirth
   _pendingEvent?: GameEvent | null;
 }
@@ -0,0 +1,49 @@
+import type { GameState, Achievement } from '../data/types';
+import { ACHIEVEMENTS } from '../data/constants';
+import { addLog, formatPercent } from './gameState';
+
+export class AchievementEngine {
+  // ========== LOOKUP ==========
+  static getAchievement(achievementId: string): Achievement | undefined {
+    return ACHIEVEMENTS.find(a => a.id === achievementId);
+  }
+
+  static isUnlocked(state: GameState, achievementId: string): boolean {
+    return (state.achievements || []).includes(achievementId);
+  }
+
+  /** Progress clamped to the target, or null for achievements granted by a single moment. */
+  static getProgress(state: GameState, achievement: Achievement): { current: number; target: number } | null {
+    if (!achievement.progress) return null;
+    const { current, target } = achievement.progress(state);
+    return { current: Math.min(current, target), target };
+  }
+
+  static describeBonus(achievement: Achievement): string {
+    const { xpBonus, breakthroughBonus, powerBonus } = achievement.bonus;
+    return [
+      xpBonus ? `+${formatPercent(xpBonus)} XP` : null,
+      breakthroughBonus ? `+${formatPercent(breakthroughBonus)} Breakthrough` : null,
+      powerBonus ? `+${powerBonus} Power` : null,
+    ].filter(Boolean).join(' · ');
+  }
+
+  // ========== UNLOCKING ==========
+  static unlock(state: GameState, achievementId: string): boolean {
+    const achievement = AchievementEngine.getAchievement(achievementId);
+    if (!achievement || AchievementEngine.isUnlocked(state, achievementId)) return false;
+
+    state.achievements = [...(state.achievements || []), achievementId];
+    addLog(state, `🏆 Achievement unlocked: ${achievement.icon} ${achievement.name} (${AchievementEngine.describeBonus(achievement)})`, 'legendary');
+    return true;
+  }
+
+  /** Runs every tick. Only achievements with a progress check are considered. */
+  static checkAchievements(state: GameState): void {
+    for (const achievement of ACHIEVEMENTS) {
+      if (!achievement.progress || AchievementEngine.isUnlocked(state, achievement.id)) continue;
+      const { current, target } = achievement.progress(state);
+      if (current >= target) AchievementEngine.unlock(state, achievement.id);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import type { GameState, PlayerAction } from '../data/types';
+import { addLog, triggerRebirth } from './gameState';
+import { GameEngine } from './GameEngine';
+import { AlchemyEngine } from './AlchemyEngine';
+import { FormationEngine } from './FormationEngine';
+import { ForgeEngine } from './ForgeEngine';
+import { CompanionEngine } from './CompanionEngine';
+import { CombatEngine } from './CombatEngine';
+import { TechniqueEngine } from './TechniqueEngine';
+import { EventEngine } from './EventEngine';
+import { ShopEngine } from './ShopEngine';
+import { GroupEngine } from './GroupEngine';
+import { OfflineEngine } from './OfflineEngine';
+import { SamsaraEngine } from './SamsaraEngine';
+import { TravelEngine } from './TravelEngine';
+
+/**
+ * Single entry point for everything the player (or the game loop) does.
+ * Components dispatch PlayerActions here instead of mutating state themselves.
+ */
+export class ActionEngine {
+  // ========== REDUCER ==========
+  /**
+   * Pure reducer: never touches `state`. Returns a new state when the action
+   * went through, or the very same object when it was rejected.
+   */
+  static applyAction(state: GameState, action: PlayerAction): GameState {
+    const ns = JSON.parse(JSON.stringify(state)) as GameState;
+    return ActionEngine.perform(ns, action) ?? state;
+  }
+
+  /**
+   * Applies the action to `state` in place. Returns the resulting state —
+   * a fresh object after reincarnating — or null if the action was rejected.
+   */
+  static perform(state: GameState, action: PlayerAction): GameState | null {
+    const ok = (applied: boolean) => applied ? state : null;
+
+    switch (action.type) {
+      // ===== LOOP & LIFE =====
+      case 'tick':
+        return state.gamePhase === 'playing' ? GameEngine.tick(state, action.clickBoost) : null;
+      case 'rebirth':
+        return state.gamePhase === 'playing' ? SamsaraEngine.enterSamsara(state) : null;
+      case 'buy_samsara_upgrade':
+        return ok(SamsaraEngine.buyUpgrade(state, action.upgradeId));
+      case 'reincarnate':
+        return state.gamePhase === 'samsara' ? triggerRebirth(state, action.character) : null;
+      case 'log':
+        addLog(state, action.text, action.logType);
+        return state;
+
+      // ===== CULTIVATION =====
+      case 'set_action':
+        return ok(GameEngine.setAction(state, action.action));
+      case 'select_path':
+        return ok(GameEngine.selectPath(state, action.pathId));
+      case 'begin_tribulation': {
+        const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+        if (!pp?.breakthroughAvailable || !GameEngine.isTierTransition(pp.currentLevel)) return null;
+        addLog(state, '⛈️ HEAVENLY TRIBULATION BEGINS!', 'danger');
+        return state;
+      }
+      case 'breakthrough':
+        return ok(GameEngine.breakthrough(state, action.survivedHpRatio));
+      case 'buy_speed_boost':
+        return ok(GameEngine.buySpiritStoneBoost(state));
+      case 'use_pill':
+        return ok(GameEngine.usePill(state, action.itemId));
+      case 'toggle_auto_breakthrough':
+        OfflineEngine.toggleAutoBreakthrough(state);
+        return state;
+      case 'upgrade_offline_cap':
+        return ok(OfflineEngine.upgradeCap(state));
+
+      // ===== WORLD =====
+      case 'travel':
+        return ok(TravelEngine.travelTo(state, action.regionId));
+      case 'cancel_route':
+        return ok(TravelEngine.cancelRoute(state));
+      case 'set_route_preference':
+        TravelEngine.setPreference(state, action.preference);
+        return state;
+      case 'toggle_auto_explore':
+        TravelEngine.toggleAutoExplore(state);
+        return state;
+      case 'buy_item':
+        return ok(ShopEngine.buyItem(state, action.itemId));
+      case 'sell_item':
+        return ok(ShopEngine.sellItem(state, action.itemId));
+      case 'join_group':
+        return ok(GroupEngine.joinGroup(state, action.groupId));
+      case 'leave_group':
+        return ok(GroupEngine.leaveGroup(state));
+      case 'complete_mission':
+        return ok(GroupEngine.completeMission(state, action.missionId, action.help));
+      case 'toggle_rogue':
+        GroupEngine.toggleRogue(state);
+        return state;
+
+      // ===== TECHNIQUES =====
+      case 'equip_scripture':
+        return ok(TechniqueEngine.equipScripture(state, action.itemId));
+      case 'study_scripture':
+        return ok(TechniqueEngine.studyScripture(state, action.itemId));
+      case 'equip_martial':
+        return ok(TechniqueEngine.equipMartial(state, action.techniqueId));
+      case 'equip_passive':
+        return ok(TechniqueEngine.equipPassive(state, action.techniqueId));
+      case 'unequip_passive':
+        return ok(TechniqueEngine.unequipPassive(state, action.techniqueId));
+
+      // ===== CRAFTING =====
+      case 'start_refining':
+        return ok(AlchemyEngine.startRefining(state, action.recipeId));
+      case 'start_inscribing':
+        return ok(FormationEngine.startInscribing(state, action.formationId));
+      case 'deploy_formation':
+        return ok(FormationEngine.deployFormation(state, action.itemId));
+      case 'start_forging':
+        return ok(ForgeEngine.startForging(state, action.blueprintId));
+      case 'equip_gear':
+        return ok(ForgeEngine.equipGear(state, action.uid));
+      case 'unequip_gear':
+        return ok(ForgeEngine.unequipGear(state, action.slot));
+      case 'scrap_gear':
+        return ok(ForgeEngine.scrapGear(state, action.uid));
+
+      // ===== COMPANIONS =====
+      case 'tame_beast':
+        return ok(CompanionEngine.attemptTame(state));
+      case 'ignore_beast':
+        if (!state.wildBeast) return null;
+        CompanionEngine.ignoreWildBeast(state);
+        return state;
+      case 'set_active_companion':
+        return ok(CompanionEngine.setActiveCompanion(state, action.uid));
+      case 'release_companion':
+        return ok(CompanionEngine.releaseCompanion(state, action.uid));
+
+      // ===== ENCOUNTERS =====
+      case 'event_choice':
+        return state._pendingEvent ? ok(EventEngine.resolveChoice(state, action.choiceIdx)) : null;
+      case 'combat':
+        if (!state.combat) return null;
+        CombatEngine.takeTurn(state, action.action);
+        return state;
+    }
+  }
+}
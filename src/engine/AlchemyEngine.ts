@@ -0,0 +1,101 @@
+import type { GameState, AlchemyRecipe } from '../data/types';
+import { ALCHEMY_RECIPES, ALCHEMY_LEVEL_BONUS, WASTE_PILL_CHANCE, ITEMS } from '../data/constants';
+import { addLog, addItemToInventory, removeItemFromInventory, formatTime, formatPercent } from './gameState';
+import { rateChance } from '../utils/random';
+
+export class AlchemyEngine {
+  // ========== RECIPE LOOKUP ==========
+  static getRecipe(recipeId: string): AlchemyRecipe | undefined {
+    return ALCHEMY_RECIPES.find(r => r.id === recipeId);
+  }
+
+  static getAlchemyLevel(state: GameState): number {
+    const pp = state.pathProgress['alchemy'];
+    return pp?.unlocked ? pp.currentLevel : 0;
+  }
+
+  // ========== SUCCESS CHANCE ==========
+  /**
+   * Base recipe rate, plus a bonus for every Pill Path level above the
+   * recipe's requirement, plus a small luck bonus. Capped at 95%.
+   */
+  static getSuccessChance(state: GameState, recipe: AlchemyRecipe): number {
+    const levelsAbove = Math.max(0, AlchemyEngine.getAlchemyLevel(state) - recipe.requiredLevel);
+    const luckBonus = state.character.luck * 0.05;
+    return Math.min(0.95, recipe.baseSuccessRate + levelsAbove * ALCHEMY_LEVEL_BONUS + luckBonus);
+  }
+
+  static hasIngredients(state: GameState, recipe: AlchemyRecipe): boolean {
+    return recipe.ingredients.every(ing => {
+      const owned = state.inventory.find(i => i.id === ing.itemId)?.quantity || 0;
+      return owned >= ing.quantity;
+    });
+  }
+
+  static canRefine(state: GameState, recipe: AlchemyRecipe): boolean {
+    if (state.refining) return false;
+    if (AlchemyEngine.getAlchemyLevel(state) < recipe.requiredLevel) return false;
+    return AlchemyEngine.hasIngredients(state, recipe);
+  }
+
+  // ========== START REFINING ==========
+  /**
+   * Consumes the recipe's ingredients and begins a timed refinement.
+   * Switches the player onto the Pill Path so the craft progresses each tick.
+   */
+  static startRefining(state: GameState, recipeId: string): boolean {
+    const recipe = AlchemyEngine.getRecipe(recipeId);
+    if (!recipe || !AlchemyEngine.canRefine(state, recipe)) return false;
+
+    for (const ing of recipe.ingredients) {
+      removeItemFromInventory(state, ing.itemId, ing.quantity);
+    }
+
+    state.refining = {
+      recipeId: recipe.id,
+      remainingSeconds: recipe.craftSeconds,
+      totalSeconds: recipe.craftSeconds,
+    };
+    state.currentAction = 'refine';
+    state.activePathId = 'alchemy';
+
+    addLog(state, `⚗️ Began refining ${recipe.name} (${formatTime(recipe.craftSeconds)})`, 'info');
+    return true;
+  }
+
+  // ========== TICK ==========
+  /**
+   * Advances the active refinement by one second. Only called while the
+   * player's action is 'refine' — an untended cauldron does not progress.
+   */
+  static processRefining(state: GameState): void {
+    const job = state.refining;
+    if (!job) return;
+
+    job.remainingSeconds--;
+    if (job.remainingSeconds > 0) return;
+
+    state.refining = null;
+    const recipe = AlchemyEngine.getRecipe(job.recipeId);
+    if (!recipe) return;
+
+    const chance = AlchemyEngine.getSuccessChance(state, recipe);
+    if (rateChance(state.rng, chance)) {
+      const output = ITEMS[recipe.outputItemId];
+      if (output) addItemToInventory(state, output, recipe.outputQuantity);
+      addLog(
+        state,
+        `⚗️ Refinement succeeded! Created ${output?.name || recipe.name}${recipe.outputQuantity > 1 ? ` x${recipe.outputQuantity}` : ''}`,
+        'success'
+      );
+      return;
+    }
+
+    if (rateChance(state.rng, WASTE_PILL_CHANCE)) {
+      addItemToInventory(state, ITEMS['waste_pill']);
+      addLog(state, `💨 Refinement failed (${formatPercent(chance)} chance). Only a Cinder Dregs Pill remains.`, 'warning');
+    } else {
+      addLog(state, `💨 Refinement failed (${formatPercent(chance)} chance). The cauldron is empty.`, 'warning');
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import type { GameState, Region, EnemyKind, EnemyTemplate, CombatAction, CombatState } from '../data/types';
+import {
+  ENEMY_TEMPLATES, ENEMY_POWER_PER_DANGER, COMBAT_ENCOUNTER_CHANCE, COMBAT_FLEE_BASE_CHANCE,
+  INJURY_SECONDS_PER_DANGER, REGIONS,
+} from '../data/constants';
+import { addLog, calculatePower, resolveCombat, formatTime } from './gameState';
+import { GameEngine } from './GameEngine';
+import { TechniqueEngine } from './TechniqueEngine';
+import { random, randomInt, rateChance } from '../utils/random';
+
+const COMBAT_LOG_LENGTH = 6;
+
+export class CombatEngine {
+  // ========== ENEMY GENERATION ==========
+  /** Enemies native to the region's terrain, optionally narrowed to one kind. */
+  static getTemplates(region: Region, kind?: EnemyKind): EnemyTemplate[] {
+    const native = ENEMY_TEMPLATES.filter(t => t.terrains.includes(region.terrain));
+    const ofKind = kind ? native.filter(t => t.kind === kind) : native;
+    if (ofKind.length > 0) return ofKind;
+    // Fall back to any enemy of the requested kind so events always have a foe
+    return kind ? ENEMY_TEMPLATES.filter(t => t.kind === kind) : native;
+  }
+
+  /** Enemy power grows faster than linearly with region danger. */
+  static rollEnemyPower(state: GameState, region: Region, template: EnemyTemplate): number {
+    const base = ENEMY_POWER_PER_DANGER * Math.pow(region.dangerLevel, 1.5) * template.powerMultiplier;
+    return Math.max(1, Math.floor(base * (0.8 + random(state.rng) * 0.4)));
+  }
+
+  static getPlayerMaxHp(state: GameState): number {
+    return Math.floor(50 + calculatePower(state) * 2 + state.character.bodyType.bodyMultiplier * 20);
+  }
+
+  /** Starts a fight at the given region. Returns false if there is nothing to fight. */
+  static startCombat(state: GameState, region: Region, kind?: EnemyKind): boolean {
+    if (state.combat) return false;
+    const templates = CombatEngine.getTemplates(region, kind);
+    if (templates.length === 0) return false;
+
+    const template = templates[randomInt(state.rng, 0, templates.length - 1)];
+    const enemyPower = CombatEngine.rollEnemyPower(state, region, template);
+    const playerMaxHp = CombatEngine.getPlayerMaxHp(state);
+
+    state.combat = {
+      enemyId: template.id,
+      enemyName: template.name,
+      enemyIcon: template.icon,
+      enemyPower,
+      enemyHp: enemyPower * 2,
+      enemyMaxHp: enemyPower * 2,
+      playerHp: playerMaxHp,
+      playerMaxHp,
+      round: 0,
+      regionId: region.id,
+      log: [],
+    };
+    addLog(state, `⚔️ A ${template.name} attacks! (⚡${enemyPower})`, 'danger');
+    return true;
+  }
+
+  /** Rolls for a hostile encounter while exploring. Cities are safe. */
+  static rollAmbush(state: GameState, region: Region): void {
+    if (state.combat || state._pendingEvent || region.isCity) return;
+    if (!rateChance(state.rng, COMBAT_ENCOUNTER_CHANCE * region.dangerLevel)) return;
+    CombatEngine.startCombat(state, region);
+  }
+
+  // ========== ROUNDS ==========
+  private static rollDamage(state: GameState, power: number): number {
+    return Math.max(1, Math.floor(power * (0.25 + random(state.rng) * 0.15)));
+  }
+
+  private static pushLog(combat: CombatState, line: string): void {
+    combat.log = [...combat.log, line].slice(-COMBAT_LOG_LENGTH);
+  }
+
+  /**
+   * Plays out one round. Each exchange is decided by resolveCombat, so the
+   * same power ratio that governs quick fights governs every blow here.
+   */
+  static takeTurn(state: GameState, action: CombatAction): void {
+    const combat = state.combat;
+    if (!combat) return;
+
+    combat.round++;
+    const playerPower = calculatePower(state);
+    const techniqueMult = TechniqueEngine.getCombatDamageMultiplier(state);
+    const prefix = `R${combat.round}:`;
+
+    if (action === 'flee') {
+      const fleeChance = Math.min(0.9, Math.max(0.2, COMBAT_FLEE_BASE_CHANCE * playerPower / Math.max(1, combat.enemyPower)));
+      if (rateChance(state.rng, fleeChance)) {
+        state.combat = null;
+        addLog(state, `🏃 You escaped from the ${combat.enemyName}.`, 'warning');
+        return;
+      }
+      const dmg = CombatEngine.rollDamage(state, combat.enemyPower);
+      combat.playerHp -= dmg;
+      CombatEngine.pushLog(combat, `${prefix} Escape failed! The ${combat.enemyName} hits you for ${dmg}.`);
+    } else {
+      // Guarding makes the exchange easier to win, but halves both sides' damage
+      const guarding = action === 'guard';
+      const { won, message } = resolveCombat(state, guarding ? combat.enemyPower * 0.7 : combat.enemyPower);
+      if (won) {
+        const dmg = Math.max(1, Math.floor(CombatEngine.rollDamage(state, playerPower) * techniqueMult * (guarding ? 0.5 : 1)));
+        combat.enemyHp -= dmg;
+        CombatEngine.pushLog(combat, `${prefix} ${message} You deal ${dmg}.`);
+      } else {
+        const dmg = Math.max(1, Math.floor(CombatEngine.rollDamage(state, combat.enemyPower) * (guarding ? 0.5 : 1)));
+        combat.playerHp -= dmg;
+        CombatEngine.pushLog(combat, `${prefix} ${message} You take ${dmg}.`);
+      }
+    }
+
+    if (combat.enemyHp <= 0) CombatEngine.victory(state, combat);
+    else if (combat.playerHp <= 0) CombatEngine.defeat(state, combat);
+  }
+
+  // ========== OUTCOMES ==========
+  private static victory(state: GameState, combat: CombatState): void {
+    state.combat = null;
+    const region = REGIONS.find(r => r.id === combat.regionId);
+    const danger = region?.dangerLevel || 1;
+    const stones = randomInt(state.rng, 5, 15) * danger;
+    state.spiritStones += stones;
+    addLog(state, `🏆 Defeated the ${combat.enemyName} in ${combat.round} rounds! +${stones} 💎`, 'success');
+    if (region) GameEngine.generateLoot(state, region);
+  }
+
+  /** Defeat leaves you injured and drops a share of your spirit stones. */
+  private static defeat(state: GameState, combat: CombatState): void {
+    state.combat = null;
+    const region = REGIONS.find(r => r.id === combat.regionId);
+    const duration = INJURY_SECONDS_PER_DANGER * (region?.dangerLevel || 1);
+    const lost = Math.floor(state.spiritStones * 0.1);
+    state.spiritStones -= lost;
+    state.injury = {
+      active: true,
+      remainingSeconds: Math.max(state.injury?.active ? state.injury.remainingSeconds : 0, duration),
+    };
+    addLog(
+      state,
+      `🩸 Defeated by the ${combat.enemyName}!${lost > 0 ? ` Lost ${lost} 💎.` : ''} Injured for ${formatTime(state.injury.remainingSeconds)}.`,
+      'danger'
+    );
+  }
+
+  // ========== INJURY ==========
+  static processInjury(state: GameState): void {
+    if (!state.injury?.active) return;
+    state.injury.remainingSeconds--;
+    if (state.injury.remainingSeconds <= 0) {
+      state.injury = { active: false, remainingSeconds: 0 };
+      addLog(state, '✅ Your wounds have healed.', 'success');
+    }
+  }
+}
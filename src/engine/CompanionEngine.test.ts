@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { GameState } from '../data/types';
+import { BEAST_SPECIES, INJURY_XP_PENALTY } from '../data/constants';
+import { CompanionEngine } from './CompanionEngine';
+import { GameEngine } from './GameEngine';
+import { createInitialGameState, rollCharacter } from './gameState';
+import { createRng } from '../utils/random';
+
+/** A beast tamer with one companion at their side, standing where no environment applies. */
+function tamer(): GameState {
+  const state = createInitialGameState(rollCharacter('Tamer', createRng(5)), createRng(5));
+  state.pathProgress.beast_tamer = GameEngine.createPathProgress('beast_tamer');
+  state.companions = [{ uid: 'companion', speciesId: BEAST_SPECIES[0].id, level: 1, bond: 0 }];
+  state.activeCompanionUid = 'companion';
+  state.currentLocationId = 'peaceful_village';
+  return state;
+}
+
+function bondXp(state: GameState): number {
+  CompanionEngine.processBond(state);
+  return state.pathProgress.beast_tamer.currentXp;
+}
+
+describe('CompanionEngine.processBond', () => {
+  it('slows an injured tamer like any other path', () => {
+    const injured = tamer();
+    injured.injury = { active: true, remainingSeconds: 60 };
+
+    expect(bondXp(injured)).toBeCloseTo(bondXp(tamer()) * INJURY_XP_PENALTY);
+  });
+
+  it('speeds up under an XP buff', () => {
+    const buffed = tamer();
+    buffed.buffs = [{ id: 'pill', name: 'Qi Gathering Pill', multiplier: 1.5, remainingSeconds: 60, icon: '💊' }];
+
+    expect(bondXp(buffed)).toBeCloseTo(bondXp(tamer()) * 1.5);
+  });
+});
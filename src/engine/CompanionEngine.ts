@@ -0,0 +1,146 @@
+import type { GameState, BeastSpecies, Companion, CompanionBonusType, Region } from '../data/types';
+import {
+  BEAST_SPECIES, BEAST_ENCOUNTER_CHANCE, TAMING_BELL_BONUS, COMPANION_BOND_PER_LEVEL,
+  BASE_XP_PER_SECOND, PATHS,
+} from '../data/constants';
+import { addLog } from './gameState';
+import { GameEngine } from './GameEngine';
+import { randomId, randomInt, rateChance } from '../utils/random';
+
+export class CompanionEngine {
+  // ========== LOOKUP ==========
+  static getSpecies(speciesId: string): BeastSpecies | undefined {
+    return BEAST_SPECIES.find(b => b.id === speciesId);
+  }
+
+  static getTamerLevel(state: GameState): number {
+    const pp = state.pathProgress['beast_tamer'];
+    return pp?.unlocked ? pp.currentLevel : 0;
+  }
+
+  static getActiveCompanion(state: GameState): Companion | undefined {
+    return (state.companions || []).find(c => c.uid === state.activeCompanionUid);
+  }
+
+  /** One companion slot, plus one more every three Resonance Path levels. */
+  static getRosterLimit(state: GameState): number {
+    return 1 + Math.floor(CompanionEngine.getTamerLevel(state) / 3);
+  }
+
+  /** Passive bonus of the given kind from the companion currently at your side. */
+  static getBonus(state: GameState, type: CompanionBonusType): number {
+    const companion = CompanionEngine.getActiveCompanion(state);
+    if (!companion) return 0;
+    const species = CompanionEngine.getSpecies(companion.speciesId);
+    if (!species || species.bonusType !== type) return 0;
+    return species.bonusPerLevel * companion.level;
+  }
+
+  static getBondRequired(level: number): number {
+    return COMPANION_BOND_PER_LEVEL * level;
+  }
+
+  // ========== ENCOUNTERS ==========
+  /** Rolls for a tameable beast while exploring. Requires the Resonance Path. */
+  static rollEncounter(state: GameState, region: Region): void {
+    if (state.wildBeast || !state.pathProgress['beast_tamer']?.unlocked) return;
+
+    const natives = BEAST_SPECIES.filter(b => b.habitats.includes(region.id));
+    if (natives.length === 0) return;
+
+    const chance = BEAST_ENCOUNTER_CHANCE * (region.id === 'spirit_beast_territory' ? 3 : 1) * (1 + state.character.luck);
+    if (!rateChance(state.rng, chance)) return;
+
+    const species = natives[randomInt(state.rng, 0, natives.length - 1)];
+    state.wildBeast = species.id;
+    addLog(state, `${species.icon} A wild ${species.name} watches you from a distance...`, 'success');
+  }
+
+  static getTameChance(state: GameState, species: BeastSpecies): number {
+    const levelBonus = CompanionEngine.getTamerLevel(state) * 0.05;
+    const luckBonus = state.character.luck * 0.1;
+    const bellBonus = state.inventory.some(i => i.id === 'taming_bell') ? TAMING_BELL_BONUS : 0;
+    return Math.min(0.95, species.tameChance + levelBonus + luckBonus + bellBonus);
+  }
+
+  /** Attempts to form a contract with the wild beast. It leaves either way. */
+  static attemptTame(state: GameState): boolean {
+    const species = state.wildBeast ? CompanionEngine.getSpecies(state.wildBeast) : undefined;
+    if (!species) return false;
+    if ((state.companions || []).length >= CompanionEngine.getRosterLimit(state)) return false;
+
+    state.wildBeast = null;
+
+    if (!rateChance(state.rng, CompanionEngine.getTameChance(state, species))) {
+      addLog(state, `${species.icon} The ${species.name} slips away into the wilds.`, 'warning');
+      return true;
+    }
+
+    const companion: Companion = {
+      uid: randomId(state.rng, species.id, (state.companions || []).map(c => c.uid)),
+      speciesId: species.id,
+      level: 1,
+      bond: 0,
+    };
+    state.companions = [...(state.companions || []), companion];
+    if (!state.activeCompanionUid) state.activeCompanionUid = companion.uid;
+    addLog(state, `${species.icon} Contract formed! The ${species.name} joins you.`, 'legendary');
+    return true;
+  }
+
+  static ignoreWildBeast(state: GameState): void {
+    state.wildBeast = null;
+  }
+
+  // ========== ROSTER ==========
+  static setActiveCompanion(state: GameState, uid: string | null): boolean {
+    if (uid !== null && !(state.companions || []).some(c => c.uid === uid)) return false;
+    state.activeCompanionUid = uid;
+    return true;
+  }
+
+  static releaseCompanion(state: GameState, uid: string): boolean {
+    const companion = (state.companions || []).find(c => c.uid === uid);
+    if (!companion) return false;
+
+    state.companions = state.companions.filter(c => c.uid !== uid);
+    if (state.activeCompanionUid === uid) state.activeCompanionUid = null;
+    const species = CompanionEngine.getSpecies(companion.speciesId);
+    addLog(state, `${species?.icon || '🐾'} You release the ${species?.name || 'beast'} back into the wild.`, 'info');
+    return true;
+  }
+
+  // ========== TICK ==========
+  /**
+   * Exploring with a companion deepens your bond and grows the Resonance Path.
+   * Companions level from bond, but never above your Resonance Path level.
+   */
+  static processBond(state: GameState): void {
+    const companion = CompanionEngine.getActiveCompanion(state);
+    if (!companion) return;
+
+    const tamerLevel = CompanionEngine.getTamerLevel(state);
+    if (companion.level < tamerLevel) {
+      companion.bond++;
+      if (companion.bond >= CompanionEngine.getBondRequired(companion.level)) {
+        companion.bond = 0;
+        companion.level++;
+        const species = CompanionEngine.getSpecies(companion.speciesId);
+        addLog(state, `${species?.icon || '🐾'} Your ${species?.name || 'companion'} grew to level ${companion.level}!`, 'success');
+      }
+    }
+
+    // The Resonance Path grows through the bond rather than through meditation
+    const pp = state.pathProgress['beast_tamer'];
+    const path = PATHS.find(p => p.id === 'beast_tamer');
+    if (!pp?.unlocked || pp.breakthroughAvailable || !path) return;
+
+    pp.currentXp += BASE_XP_PER_SECOND * GameEngine.getPathXpMultiplier(state, path);
+    if (pp.currentXp >= pp.xpRequired) {
+      pp.currentXp = pp.xpRequired;
+      pp.breakthroughAvailable = true;
+      const levelName = path.levels[pp.currentLevel - 1]?.name || `Level ${pp.currentLevel}`;
+      addLog(state, `⚡ ${levelName} XP maxed! Attempt Breakthrough!`, 'warning');
+    }
+  }
+}
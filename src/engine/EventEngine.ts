@@ -0,0 +1,162 @@
+import type { GameState, EventChoice, EventOutcome } from '../data/types';
+import { ITEMS, PATHS, REGIONS } from '../data/constants';
+import {
+  addLog, addItemToInventory, removeItemFromInventory, checkPathUnlocks, formatTime,
+} from './gameState';
+import { CombatEngine } from './CombatEngine';
+import { StoryEngine } from './StoryEngine';
+import { weightedRandom } from '../utils/random';
+
+export class EventEngine {
+  // ========== AVAILABILITY ==========
+  /** Flag-gated choices stay hidden until the story has set their flags. */
+  static isChoiceVisible(state: GameState, choice: EventChoice): boolean {
+    return StoryEngine.hasFlags(state, choice.requiredFlags);
+  }
+
+  static isChoiceAvailable(state: GameState, choice: EventChoice): boolean {
+    if (!EventEngine.isChoiceVisible(state, choice)) return false;
+    if (choice.minSpiritStones && state.spiritStones < choice.minSpiritStones) return false;
+    const req = choice.karmaRequirement;
+    if (!req) return true;
+    const karma = state.character.karma;
+    if (req.min !== undefined && karma < req.min) return false;
+    if (req.max !== undefined && karma > req.max) return false;
+    return true;
+  }
+
+  static describeRequirement(choice: EventChoice): string | null {
+    const req = choice.karmaRequirement;
+    if (!req) return choice.minSpiritStones ? `Requires ${choice.minSpiritStones} 💎` : null;
+    if (req.min !== undefined && req.max !== undefined) return `Requires ${req.min} to ${req.max} Karma`;
+    if (req.min !== undefined) return `Requires ${req.min}+ Karma`;
+    if (req.max !== undefined) return `Requires ${req.max} Karma or lower`;
+    return null;
+  }
+
+  // ========== RESOLUTION ==========
+  /**
+   * Resolves the pending event with the chosen option. The choice is applied
+   * first, then one of its random branches (if any) on top.
+   */
+  static resolveChoice(state: GameState, choiceIdx: number): boolean {
+    const event = state._pendingEvent;
+    const choice = event?.choices[choiceIdx];
+    if (!event || !choice || !EventEngine.isChoiceAvailable(state, choice)) return false;
+
+    state._pendingEvent = null;
+    StoryEngine.completeStep(state, event.id);
+    addLog(state, `📋 ${event.title}: ${choice.text}`, choice.karmaChange >= 0 ? 'success' : 'warning');
+    EventEngine.applyOutcome(state, choice);
+
+    if (choice.branches && choice.branches.length > 0) {
+      const branch = weightedRandom(state.rng, choice.branches);
+      addLog(state, `🎲 ${branch.message}`, branch.karmaChange < 0 || Object.keys(branch.losses).length > 0 ? 'warning' : 'info');
+      EventEngine.applyOutcome(state, branch);
+    }
+
+    // A chain with no delay raises its next event right away
+    StoryEngine.triggerReady(state);
+
+    checkPathUnlocks(state);
+
+    // Check devil path unlock
+    if (state.character.karma <= -100 && !state.character.devilMark) {
+      if (state.pathProgress['devil_soul']?.unlocked || state.pathProgress['devil_body']?.unlocked) {
+        state.character.devilMark = true;
+        addLog(state, '💀 You have been permanently marked as a Devil Cultivator!', 'danger');
+      }
+    }
+
+    return true;
+  }
+
+  static applyOutcome(state: GameState, outcome: EventOutcome): void {
+    const { rewards, losses } = outcome;
+
+    if (outcome.karmaChange) {
+      state.character.karma = Math.max(-1000, Math.min(1000, state.character.karma + outcome.karmaChange));
+    }
+
+    // Spirit stones
+    if (rewards.spiritStones) state.spiritStones += rewards.spiritStones;
+    if (losses.spiritStones) state.spiritStones = Math.max(0, state.spiritStones - losses.spiritStones);
+
+    // Items
+    rewards.items?.forEach(itemId => {
+      const item = ITEMS[itemId];
+      if (item) addItemToInventory(state, item);
+    });
+    losses.items?.forEach(itemId => {
+      if (removeItemFromInventory(state, itemId)) {
+        addLog(state, `📦 Lost: ${ITEMS[itemId]?.name || itemId}`, 'warning');
+      }
+    });
+
+    if (rewards.xpBonus) EventEngine.grantPathXp(state, rewards.xpBonus);
+
+    if (rewards.buff) {
+      const { durationSeconds, ...buff } = rewards.buff;
+      state.buffs = state.buffs.filter(b => b.id !== buff.id);
+      state.buffs.push({ ...buff, remainingSeconds: durationSeconds });
+      addLog(state, `${buff.icon} ${buff.name}: ${buff.multiplier}x speed for ${formatTime(durationSeconds)}`, 'success');
+    }
+
+    if (losses.timePenalty) {
+      state.stunSeconds = (state.stunSeconds || 0) + losses.timePenalty;
+      addLog(state, `😵 Stunned for ${formatTime(losses.timePenalty)}`, 'warning');
+    }
+
+    if (losses.qiDeviationSeconds) {
+      state.qiDeviation = {
+        active: true,
+        remainingSeconds: Math.max(state.qiDeviation.active ? state.qiDeviation.remainingSeconds : 0, losses.qiDeviationSeconds),
+      };
+      addLog(state, `😵 Qi Deviation! (${formatTime(state.qiDeviation.remainingSeconds)})`, 'danger');
+    }
+
+    if (losses.travelDelay && state.travelState.traveling) {
+      state.travelState.remainingSeconds += losses.travelDelay;
+      addLog(state, `🐌 Delayed by ${formatTime(losses.travelDelay)}`, 'warning');
+    }
+
+    if (outcome.setFlags) StoryEngine.setFlags(state, outcome.setFlags);
+    if (outcome.chain) StoryEngine.advance(state, outcome.chain);
+
+    if (outcome.combat) {
+      // On the road, the foe belongs to the region ahead
+      const regionId = state.travelState.traveling ? state.travelState.destinationId : state.currentLocationId;
+      const region = REGIONS.find(r => r.id === regionId);
+      if (region) CombatEngine.startCombat(state, region, outcome.combat);
+    }
+  }
+
+  /** XP bonuses are a fraction of the active path's current level requirement. */
+  private static grantPathXp(state: GameState, fraction: number): void {
+    const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+    if (!pp || !pp.unlocked || pp.breakthroughAvailable) return;
+
+    const gained = pp.xpRequired * fraction;
+    pp.currentXp += gained;
+    addLog(state, `✨ Insight! +${Math.floor(gained)} XP`, 'success');
+
+    if (pp.currentXp >= pp.xpRequired) {
+      pp.currentXp = pp.xpRequired;
+      pp.breakthroughAvailable = true;
+      const path = PATHS.find(p => p.id === pp.pathId);
+      const levelName = path?.levels[pp.currentLevel - 1]?.name || `Level ${pp.currentLevel}`;
+      addLog(state, `⚡ ${levelName} XP maxed! Attempt Breakthrough!`, 'warning');
+    }
+  }
+
+  // ========== STUN ==========
+  /** Counts down a stun. Returns true while the player is still stunned. */
+  static processStun(state: GameState): boolean {
+    if (!state.stunSeconds || state.stunSeconds <= 0) return false;
+    state.stunSeconds--;
+    if (state.stunSeconds <= 0) {
+      addLog(state, '✅ You shake off the daze.', 'success');
+    }
+    return true;
+  }
+}
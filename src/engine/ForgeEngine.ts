@@ -0,0 +1,136 @@
+import type { GameState, ForgeBlueprint, ForgedGear } from '../data/types';
+import { FORGE_BLUEPRINTS, FORGE_LEVEL_BONUS, GEAR_RARITY_MULTIPLIERS } from '../data/constants';
+import { addLog, removeItemFromInventory, formatTime, getEquippedGear } from './gameState';
+import { randomId, randomInt, rollRarity } from '../utils/random';
+
+export class ForgeEngine {
+  // ========== LOOKUP ==========
+  static getBlueprint(blueprintId: string): ForgeBlueprint | undefined {
+    return FORGE_BLUEPRINTS.find(b => b.id === blueprintId);
+  }
+
+  static getArtificerLevel(state: GameState): number {
+    const pp = state.pathProgress['artificer'];
+    return pp?.unlocked ? pp.currentLevel : 0;
+  }
+
+  static hasIngredients(state: GameState, blueprint: ForgeBlueprint): boolean {
+    return blueprint.ingredients.every(ing => {
+      const owned = state.inventory.find(i => i.id === ing.itemId)?.quantity || 0;
+      return owned >= ing.quantity;
+    });
+  }
+
+  static canForge(state: GameState, blueprint: ForgeBlueprint): boolean {
+    if (state.forging) return false;
+    if (ForgeEngine.getArtificerLevel(state) < blueprint.requiredLevel) return false;
+    return ForgeEngine.hasIngredients(state, blueprint);
+  }
+
+  // ========== FORGING ==========
+  /**
+   * Consumes ores and begins a timed forging job.
+   * Switches the player onto the Mechanical Path so the forge stays lit.
+   */
+  static startForging(state: GameState, blueprintId: string): boolean {
+    const blueprint = ForgeEngine.getBlueprint(blueprintId);
+    if (!blueprint || !ForgeEngine.canForge(state, blueprint)) return false;
+
+    for (const ing of blueprint.ingredients) {
+      removeItemFromInventory(state, ing.itemId, ing.quantity);
+    }
+
+    state.forging = {
+      recipeId: blueprint.id,
+      remainingSeconds: blueprint.forgeSeconds,
+      totalSeconds: blueprint.forgeSeconds,
+    };
+    state.currentAction = 'forge';
+    state.activePathId = 'artificer';
+
+    addLog(state, `⚙️ Began forging ${blueprint.name} (${formatTime(blueprint.forgeSeconds)})`, 'info');
+    return true;
+  }
+
+  /**
+   * Rolls rarity (luck-weighted) and stats for a finished piece.
+   * Artificer levels above the requirement raise the whole roll.
+   */
+  static rollGear(state: GameState, blueprint: ForgeBlueprint): ForgedGear {
+    const rarity = rollRarity(state.rng, state.character.luck);
+    const levelsAbove = Math.max(0, ForgeEngine.getArtificerLevel(state) - blueprint.requiredLevel);
+    const mult = GEAR_RARITY_MULTIPLIERS[rarity] * (1 + levelsAbove * FORGE_LEVEL_BONUS);
+
+    return {
+      uid: randomId(state.rng, blueprint.id, [...(state.gearStash || []), ...getEquippedGear(state)].map(g => g.uid)),
+      blueprintId: blueprint.id,
+      name: blueprint.name,
+      slot: blueprint.slot,
+      rarity,
+      power: Math.floor(randomInt(state.rng, blueprint.powerRange[0], blueprint.powerRange[1]) * mult),
+      tribulationHp: Math.floor(randomInt(state.rng, blueprint.tribulationHpRange[0], blueprint.tribulationHpRange[1]) * mult),
+    };
+  }
+
+  /** Advances the active forging job by one second while the player forges. */
+  static processForging(state: GameState): void {
+    const job = state.forging;
+    if (!job) return;
+
+    job.remainingSeconds--;
+    if (job.remainingSeconds > 0) return;
+
+    state.forging = null;
+    const blueprint = ForgeEngine.getBlueprint(job.recipeId);
+    if (!blueprint) return;
+
+    const gear = ForgeEngine.rollGear(state, blueprint);
+    state.gearStash = [...(state.gearStash || []), gear];
+
+    const logType = (gear.rarity === 'legendary' || gear.rarity === 'mythic')
+      ? 'legendary'
+      : (gear.rarity === 'epic' || gear.rarity === 'rare')
+        ? 'success'
+        : 'info';
+    addLog(state, `⚙️ Forged ${gear.rarity} ${gear.name}! (⚡${gear.power}${gear.tribulationHp > 0 ? `, +${gear.tribulationHp} Tribulation HP` : ''})`, logType);
+  }
+
+  // ========== EQUIPMENT ==========
+  /** Moves a piece from the stash into its slot, returning any displaced piece to the stash. */
+  static equipGear(state: GameState, uid: string): boolean {
+    const stash = state.gearStash || [];
+    const gear = stash.find(g => g.uid === uid);
+    if (!gear) return false;
+
+    state.equipment = { ...(state.equipment || {}) };
+    const displaced = state.equipment[gear.slot];
+    state.gearStash = stash.filter(g => g.uid !== uid);
+    if (displaced) state.gearStash.push(displaced);
+    state.equipment[gear.slot] = gear;
+
+    addLog(state, `🗡️ Equipped ${gear.name}`, 'success');
+    return true;
+  }
+
+  static unequipGear(state: GameState, slot: ForgedGear['slot']): boolean {
+    const gear = state.equipment?.[slot];
+    if (!gear) return false;
+
+    state.equipment = { ...state.equipment };
+    delete state.equipment[slot];
+    state.gearStash = [...(state.gearStash || []), gear];
+    return true;
+  }
+
+  /** Breaks down a stashed piece for a handful of spirit stones. */
+  static scrapGear(state: GameState, uid: string): boolean {
+    const gear = (state.gearStash || []).find(g => g.uid === uid);
+    if (!gear) return false;
+
+    const stones = Math.max(1, Math.floor(gear.power / 2));
+    state.gearStash = state.gearStash.filter(g => g.uid !== uid);
+    state.spiritStones += stones;
+    addLog(state, `⚙️ Scrapped ${gear.name} for ${stones} 💎`, 'info');
+    return true;
+  }
+}
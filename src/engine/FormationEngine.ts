@@ -0,0 +1,143 @@
+import type { GameState, FormationDefinition, DeployedFormation } from '../data/types';
+import { FORMATIONS, FORMATION_DURATION_PER_LEVEL, ITEMS, REGIONS } from '../data/constants';
+import { addLog, addItemToInventory, removeItemFromInventory, formatTime } from './gameState';
+
+export class FormationEngine {
+  // ========== LOOKUP ==========
+  static getFormation(formationId: string): FormationDefinition | undefined {
+    return FORMATIONS.find(f => f.id === formationId);
+  }
+
+  static getFormationLevel(state: GameState): number {
+    const pp = state.pathProgress['formations'];
+    return pp?.unlocked ? pp.currentLevel : 0;
+  }
+
+  /** Formations active at the given region (defaults to the player's location). */
+  static getActiveFormations(state: GameState, regionId: string = state.currentLocationId): DeployedFormation[] {
+    return (state.formations || []).filter(f => f.regionId === regionId);
+  }
+
+  // ========== EFFECT AGGREGATION ==========
+  static getXpMultiplier(state: GameState): number {
+    return FormationEngine.getActiveFormations(state).reduce((m, f) => {
+      return m * (FormationEngine.getFormation(f.formationId)?.effects.xpMultiplier || 1);
+    }, 1);
+  }
+
+  static getExtraLootRolls(state: GameState): number {
+    return FormationEngine.getActiveFormations(state).reduce((n, f) => {
+      return n + (FormationEngine.getFormation(f.formationId)?.effects.extraLootRolls || 0);
+    }, 0);
+  }
+
+  /** Strongest ward at the region, 0..1. Wards do not stack. */
+  static getWardStrength(state: GameState, regionId: string = state.currentLocationId): number {
+    return FormationEngine.getActiveFormations(state, regionId).reduce((w, f) => {
+      return Math.max(w, FormationEngine.getFormation(f.formationId)?.effects.wardStrength || 0);
+    }, 0);
+  }
+
+  // ========== INSCRIBING ==========
+  static hasIngredients(state: GameState, formation: FormationDefinition): boolean {
+    return formation.ingredients.every(ing => {
+      const owned = state.inventory.find(i => i.id === ing.itemId)?.quantity || 0;
+      return owned >= ing.quantity;
+    });
+  }
+
+  static canInscribe(state: GameState, formation: FormationDefinition): boolean {
+    if (state.inscribing) return false;
+    if (FormationEngine.getFormationLevel(state) < formation.requiredLevel) return false;
+    return FormationEngine.hasIngredients(state, formation);
+  }
+
+  /**
+   * Consumes materials and begins inscribing a formation scroll.
+   * Switches the player onto the Array Path so the inscription progresses.
+   */
+  static startInscribing(state: GameState, formationId: string): boolean {
+    const formation = FormationEngine.getFormation(formationId);
+    if (!formation || !FormationEngine.canInscribe(state, formation)) return false;
+
+    for (const ing of formation.ingredients) {
+      removeItemFromInventory(state, ing.itemId, ing.quantity);
+    }
+
+    state.inscribing = {
+      recipeId: formation.id,
+      remainingSeconds: formation.inscribeSeconds,
+      totalSeconds: formation.inscribeSeconds,
+    };
+    state.currentAction = 'inscribe';
+    state.activePathId = 'formations';
+
+    addLog(state, `📐 Began inscribing ${formation.name} (${formatTime(formation.inscribeSeconds)})`, 'info');
+    return true;
+  }
+
+  /** Advances the active inscription by one second while the player inscribes. */
+  static processInscribing(state: GameState): void {
+    const job = state.inscribing;
+    if (!job) return;
+
+    job.remainingSeconds--;
+    if (job.remainingSeconds > 0) return;
+
+    state.inscribing = null;
+    const formation = FormationEngine.getFormation(job.recipeId);
+    const scroll = formation ? ITEMS[formation.scrollItemId] : undefined;
+    if (!scroll) return;
+
+    addItemToInventory(state, scroll);
+    addLog(state, `📐 Inscribed a ${scroll.name}!`, 'success');
+  }
+
+  // ========== DEPLOYMENT ==========
+  /** Duration scales with Array Path level at the moment of deployment. */
+  static getDeployDuration(state: GameState, formation: FormationDefinition): number {
+    const level = Math.max(1, FormationEngine.getFormationLevel(state));
+    return Math.floor(formation.durationSeconds * (1 + (level - 1) * FORMATION_DURATION_PER_LEVEL));
+  }
+
+  /**
+   * Consumes a scroll and plants its formation at the current location.
+   * Re-deploying the same formation in the same region refreshes its duration.
+   */
+  static deployFormation(state: GameState, scrollItemId: string): boolean {
+    if (state.travelState.traveling) return false;
+    const formation = FORMATIONS.find(f => f.scrollItemId === scrollItemId);
+    if (!formation) return false;
+    if (!removeItemFromInventory(state, scrollItemId)) return false;
+
+    const duration = FormationEngine.getDeployDuration(state, formation);
+    state.formations = (state.formations || []).filter(
+      f => !(f.formationId === formation.id && f.regionId === state.currentLocationId)
+    );
+    state.formations.push({
+      formationId: formation.id,
+      regionId: state.currentLocationId,
+      remainingSeconds: duration,
+      totalSeconds: duration,
+    });
+
+    const region = REGIONS.find(r => r.id === state.currentLocationId);
+    addLog(state, `📐 ${formation.name} deployed at ${region?.name || 'your location'} for ${formatTime(duration)}`, 'success');
+    return true;
+  }
+
+  // ========== DECAY ==========
+  static decayFormations(state: GameState): void {
+    if (!state.formations || state.formations.length === 0) return;
+    state.formations = state.formations.filter(f => {
+      f.remainingSeconds--;
+      if (f.remainingSeconds <= 0) {
+        const formation = FormationEngine.getFormation(f.formationId);
+        const region = REGIONS.find(r => r.id === f.regionId);
+        addLog(state, `📐 ${formation?.name || 'A formation'} at ${region?.name || 'a distant region'} has faded.`, 'info');
+        return false;
+      }
+      return true;
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { ActionType, GameState } from '../data/types';
+import { GameEngine } from './GameEngine';
+import { ActionEngine } from './ActionEngine';
+import { ITEMS } from '../data/constants';
+import { addItemToInventory, createInitialGameState, rollCharacter } from './gameState';
+import { createRng } from '../utils/random';
+
+/** Plays the same script on any state: two pills, explore, then train, answering whatever comes up. */
+function play(state: GameState, seconds: number): GameState {
+  ActionEngine.perform(state, { type: 'use_pill', itemId: 'basic_pill' });
+  ActionEngine.perform(state, { type: 'use_pill', itemId: 'basic_pill' });
+  for (let second = 0; second < seconds; second++) {
+    const action: ActionType = second < seconds / 2 ? 'explore' : 'train';
+    if (state.currentAction !== action) ActionEngine.perform(state, { type: 'set_action', action });
+    if (state._pendingEvent && !ActionEngine.perform(state, { type: 'event_choice', choiceIdx: 0 })) state._pendingEvent = null;
+    if (state.combat) ActionEngine.perform(state, { type: 'combat', action: 'strike' });
+    if (state.wildBeast && !ActionEngine.perform(state, { type: 'tame_beast' })) ActionEngine.perform(state, { type: 'ignore_beast' });
+    const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+    if (pp?.breakthroughAvailable && !GameEngine.isTierTransition(pp.currentLevel)) {
+      ActionEngine.perform(state, { type: 'breakthrough' });
+    }
+    state = GameEngine.tick(state);
+  }
+  return state;
+}
+
+/** Log ids and timestamps come from the clock, not the game; the entries themselves must match. */
+function outcome(state: GameState) {
+  return { ...state, eventLog: state.eventLog.map(({ text, type }) => ({ text, type })) };
+}
+
+describe('GameEngine determinism', () => {
+  it('plays a seeded state the same way twice', () => {
+    // A beast tamer in beast country, so companions and their ids come into play
+    const seeded = createInitialGameState(rollCharacter('Twin', createRng(2024)), createRng(2024));
+    seeded.pathProgress.beast_tamer = GameEngine.createPathProgress('beast_tamer');
+    seeded.currentLocationId = 'forest_path';
+    addItemToInventory(seeded, ITEMS.basic_pill, 2);
+
+    const first = play(structuredClone(seeded), 4 * 3600);
+    const second = play(structuredClone(seeded), 4 * 3600);
+
+    expect(first.tickCount).toBe(seeded.tickCount + 4 * 3600);
+    expect(first.companions.length).toBeGreaterThan(0);
+    expect(outcome(second)).toEqual(outcome(first));
+  });
+});
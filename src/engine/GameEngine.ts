@@ -1,10 +1,28 @@
-import type { GameState, PathProgress, Item } from '../data/types';
+import type { GameState, PathProgress, Item, LootEntry, ActionType } from '../data/types';
 import {
   PATHS, BASE_XP_PER_SECOND, CLICK_BOOST_MULTIPLIER, EVENT_CHECK_INTERVAL,
   FATED_ENCOUNTER_BASE_CHANCE, GAME_EVENTS, REGIONS, ITEMS,
-  calculateXpRequired, BREAKTHROUGH_RATES, TIER_TRANSITION_LEVELS,
+  calculateXpRequired, BREAKTHROUGH_RATES, TIER_TRANSITION_LEVELS, RARITY_ORDER, INJURY_XP_PENALTY, NARROW_ESCAPE_HP_RATIO,
 } from '../data/constants';
-import { addLog, addItemToInventory, checkPathUnlocks, formatTime } from './gameState';
+import {
+  addLog, addItemToInventory, removeItemFromInventory, checkPathUnlocks, formatTime, getAchievementBonus, attemptBreakthrough,
+} from './gameState';
+import { AlchemyEngine } from './AlchemyEngine';
+import { FormationEngine } from './FormationEngine';
+import { ForgeEngine } from './ForgeEngine';
+import { CompanionEngine } from './CompanionEngine';
+import { CombatEngine } from './CombatEngine';
+import { TechniqueEngine } from './TechniqueEngine';
+import { AchievementEngine } from './AchievementEngine';
+import { EventEngine } from './EventEngine';
+import { StoryEngine } from './StoryEngine';
+import { TravelEngine } from './TravelEngine';
+import { RealmEngine } from './RealmEngine';
+import { random, randomId, randomInt, randomPick, rateChance } from '../utils/random';
+
+// Cultivate and Train auto-select the first unlocked path in these orders
+const QI_PATH_PRIORITY = ['spirit', 'rogue', 'devil_soul', 'oracle', 'harmonic', 'bloodline', 'dream', 'necromancy'];
+const BODY_PATH_PRIORITY = ['martial', 'devil_body'];
 
 export class GameEngine {
   // ========== XP FORMULA ==========
@@ -41,11 +59,6 @@ export class GameEngine {
     // Verify action matches
     if (!GameEngine.doesActionMatchPath(state.currentAction, path)) return 0;
 
-    const pathSpeed = path.speedModifier(state);
-    const deviationMult = state.qiDeviation.active ? 0.5 : 1;
-    const legacyMult = 1 + state.character.legacyBonus;
-    const buffMult = state.buffs.reduce((m, b) => m * b.multiplier, 1);
-
     const bgExploreBonus = state.currentAction === 'explore'
       ? (1 + (state.character.background.bonusEffect.explorationBonus || 0))
       : 1;
@@ -58,52 +71,112 @@ export class GameEngine {
       }
     }
 
-    return BASE_XP_PER_SECOND * pathSpeed * deviationMult * legacyMult * buffMult * bgExploreBonus * scriptureMult;
+    const techniqueMult = state.currentAction === 'train' ? TechniqueEngine.getTrainingXpMultiplier(state) : 1;
+
+    return BASE_XP_PER_SECOND * GameEngine.getPathXpMultiplier(state, path) * bgExploreBonus * scriptureMult * techniqueMult;
+  }
+
+  /**
+   * Multipliers every path's XP takes however it is earned: path speed, Qi
+   * deviation, injury, legacy, achievements, buffs, formations and location.
+   * CompanionEngine.processBond applies it to the Resonance Path as well.
+   */
+  static getPathXpMultiplier(state: GameState, path: typeof PATHS[number]): number {
+    const pathSpeed = path.speedModifier(state);
+    const deviationMult = state.qiDeviation.active ? 0.5 : 1;
+    const injuryMult = state.injury?.active ? INJURY_XP_PENALTY : 1;
+    const legacyMult = 1 + state.character.legacyBonus;
+    const achievementMult = 1 + getAchievementBonus(state, 'xpBonus');
+    const buffMult = state.buffs.reduce((m, b) => m * b.multiplier, 1);
+    const formationMult = FormationEngine.getXpMultiplier(state);
+    const locationMult = RealmEngine.getLocationMultiplier(state, path);
+    return pathSpeed * deviationMult * injuryMult * legacyMult * achievementMult * buffMult * formationMult * locationMult;
   }
 
   // ========== BREAKTHROUGH CHANCE ==========
+  /** Every breakthrough pill held is consumed by the next attempt. */
+  static getPillBonus(state: GameState): number {
+    return state.inventory
+      .filter(i => i.id === 'breakthrough_pill')
+      .reduce((s, i) => s + (i.effects.breakthroughBonus || 0) * i.quantity, 0);
+  }
+
   static getBreakthroughChance(state: GameState, pillBonus: number = 0): number {
     const pp = state.pathProgress[state.activePathId!];
     if (!pp) return 0;
     const baseRate = BREAKTHROUGH_RATES[pp.currentLevel] || 0.10;
     const luckBonus = state.character.luck * 0.05;
-    return Math.min(0.95, baseRate + pillBonus + luckBonus);
+    const achievementBonus = getAchievementBonus(state, 'breakthroughBonus');
+    return Math.min(0.95, baseRate + pillBonus + luckBonus + achievementBonus);
   }
 
   static isTierTransition(level: number): boolean {
     return TIER_TRANSITION_LEVELS.includes(level);
   }
 
+  // ========== PLAYER ACTIONS ==========
+  /**
+   * Switches the current action. Cultivate and Train pick the first unlocked
+   * path of their kind; choosing the current action again goes idle.
+   */
+  static setAction(state: GameState, action: ActionType): boolean {
+    if (state.currentAction === action) {
+      state.currentAction = 'idle';
+      return true;
+    }
+
+    state.currentAction = action;
+    if (action === 'cultivate') {
+      const qiPath = QI_PATH_PRIORITY.find(id => state.pathProgress[id]?.unlocked);
+      if (qiPath) {
+        state.activePathId = qiPath;
+      } else {
+        addLog(state, '📜 You need a Cultivation Scripture to cultivate the Spirit. Try Exploring or Training first!', 'warning');
+      }
+    } else if (action === 'train') {
+      const bodyPath = BODY_PATH_PRIORITY.find(id => state.pathProgress[id]?.unlocked);
+      if (bodyPath) state.activePathId = bodyPath;
+    }
+    // Explore keeps the active path — it only generates discoveries
+    return true;
+  }
+
+  /** Focuses a path and switches to the action that feeds it. */
+  static selectPath(state: GameState, pathId: string): boolean {
+    const path = PATHS.find(p => p.id === pathId);
+    if (!path || !state.pathProgress[pathId]?.unlocked) return false;
+    state.activePathId = pathId;
+    state.currentAction = path.action;
+    return true;
+  }
+
+  /**
+   * Attempts the active path's breakthrough, consuming all breakthrough pills.
+   * survivedHpRatio is passed when the attempt follows a tribulation. The
+   * outcome is kept in `lastBreakthrough`; a death still needs a rebirth.
+   */
+  static breakthrough(state: GameState, survivedHpRatio?: number): boolean {
+    const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+    if (!pp || !pp.breakthroughAvailable) return false;
+
+    if (survivedHpRatio !== undefined && survivedHpRatio <= NARROW_ESCAPE_HP_RATIO) {
+      AchievementEngine.unlock(state, 'narrow_escape');
+    }
+
+    const pillBonus = GameEngine.getPillBonus(state);
+    while (state.inventory.some(i => i.id === 'breakthrough_pill')) {
+      removeItemFromInventory(state, 'breakthrough_pill');
+    }
+
+    state.lastBreakthrough = attemptBreakthrough(state, pillBonus);
+    return true;
+  }
+
   // ========== CORE TICK ==========
   static tick(state: GameState, clickBoost: boolean = false): GameState {
     state.tickCount++;
     state.totalPlayTime++;
 
-    // === TRAVEL ===
-    if (state.travelState.traveling) {
-      state.travelState.remainingSeconds--;
-      if (state.travelState.remainingSeconds <= 0) {
-        state.travelState.traveling = false;
-        if (state.travelState.destinationId) {
-          state.currentLocationId = state.travelState.destinationId;
-          if (!state.discoveredRegions.includes(state.currentLocationId)) {
-            state.discoveredRegions.push(state.currentLocationId);
-          }
-          const region = REGIONS.find(r => r.id === state.currentLocationId);
-          if (region) {
-            addLog(state, `🗺️ Arrived at ${region.name}`, 'success');
-            region.connections.forEach(c => {
-              if (!state.discoveredRegions.includes(c)) {
-                state.discoveredRegions.push(c);
-              }
-            });
-          }
-        }
-        state.travelState.destinationId = null;
-      }
-      return state;
-    }
-
     // === BUFF COUNTDOWN ===
     state.buffs = state.buffs.filter(b => {
       b.remainingSeconds--;
@@ -114,6 +187,9 @@ export class GameEngine {
       return true;
     });
 
+    // === FORMATION DECAY ===
+    FormationEngine.decayFormations(state);
+
     // === QI DEVIATION COUNTDOWN ===
     if (state.qiDeviation.active) {
       state.qiDeviation.remainingSeconds--;
@@ -123,6 +199,23 @@ export class GameEngine {
       }
     }
 
+    // === INJURY RECOVERY ===
+    CombatEngine.processInjury(state);
+
+    // === STUN ===
+    // A stunned cultivator can neither train nor explore
+    if (EventEngine.processStun(state)) return state;
+
+    // === TRAVEL ===
+    // Buffs, formations and injuries run their course on the road, but there is no training or exploring
+    if (state.travelState.traveling) {
+      TravelEngine.tickTravel(state);
+      return state;
+    }
+
+    // === STORYLINES ===
+    StoryEngine.processStorylines(state);
+
     // === MAIN ACTION: XP GAIN ===
     // Cultivate → only paths with action 'cultivate' (spirit, rogue, devil_soul, oracle, harmonic, bloodline, dream, necromancy)
     // Train → only paths with action 'train' (martial, devil_body)
@@ -152,11 +245,34 @@ export class GameEngine {
       }
     }
 
+    // === REALM AMBIENCE ===
+    RealmEngine.processAmbient(state);
+
+    // === ALCHEMY REFINEMENT ===
+    if (state.currentAction === 'refine' && state.refining) {
+      AlchemyEngine.processRefining(state);
+    }
+
+    // === FORMATION INSCRIBING ===
+    if (state.currentAction === 'inscribe' && state.inscribing) {
+      FormationEngine.processInscribing(state);
+    }
+
+    // === ARTIFACT FORGING ===
+    if (state.currentAction === 'forge' && state.forging) {
+      ForgeEngine.processForging(state);
+    }
+
     // === EXPLORATION DISCOVERIES ===
-    if (state.currentAction === 'explore' && !state.travelState.traveling) {
+    // Exploration pauses while a fight is in progress; waypoint stops always explore
+    const exploring = state.currentAction === 'explore' || state.travelState.layoverSeconds > 0;
+    if (exploring && !state.travelState.traveling && !state.combat) {
       GameEngine.processExploration(state);
     }
 
+    // === WAYPOINT STOP ===
+    TravelEngine.tickLayover(state);
+
     // === KARMA VISIBILITY CHECK ===
     if (!state.karmaVisible) {
       for (const pp of Object.values(state.pathProgress)) {
@@ -178,6 +294,9 @@ export class GameEngine {
     // === SPECIAL PATH UNLOCK CHECKS ===
     GameEngine.checkSpecialPathUnlocks(state);
 
+    // === ACHIEVEMENTS ===
+    AchievementEngine.checkAchievements(state);
+
     return state;
   }
 
@@ -190,30 +309,42 @@ export class GameEngine {
     const baseDiscoveryRate = 0.005 + state.character.luck * 0.025;
     const explorationBonus = state.character.background.bonusEffect.explorationBonus || 0;
     const rogueBonus = state.character.rogueStatus ? 0.005 : 0; // +0.5% for rogues (15% of base roughly)
-    const discoveryChance = baseDiscoveryRate + explorationBonus + rogueBonus;
+    const companionBonus = CompanionEngine.getBonus(state, 'discovery');
+    const discoveryChance = baseDiscoveryRate + explorationBonus + rogueBonus + companionBonus;
 
     // Small spirit stone trickle from exploring (1 per ~30 ticks on average)
-    if (Math.random() < 0.033) {
-      const amount = 1 + Math.floor(Math.random() * 3);
+    if (rateChance(state.rng, 0.033)) {
+      const amount = randomInt(state.rng, 1, 3);
       state.spiritStones += amount;
       // Only log occasionally to avoid spam
-      if (Math.random() < 0.3) {
+      if (rateChance(state.rng, 0.3)) {
         addLog(state, `💎 Found ${amount} Spirit Stone${amount > 1 ? 's' : ''} while exploring.`, 'info');
       }
     }
 
-    if (Math.random() < discoveryChance) {
+    if (rateChance(state.rng, discoveryChance)) {
       GameEngine.generateLoot(state, region);
+      // Scavenging companions sometimes turn up a second find
+      if (rateChance(state.rng, CompanionEngine.getBonus(state, 'loot'))) {
+        GameEngine.generateLoot(state, region);
+      }
     }
 
-    // Fated Encounters
+    // Hostile encounters
+    CombatEngine.rollAmbush(state, region);
+
+    // Spirit beasts
+    CompanionEngine.rollEncounter(state, region);
+    CompanionEngine.processBond(state);
+
+    // Fated Encounters — never over an event already waiting, which may be a storyline's next step
     const fatedChance = FATED_ENCOUNTER_BASE_CHANCE * (1 + state.character.luck * 5);
-    if (Math.random() < fatedChance) {
-      const fatedEvents = GAME_EVENTS.filter(e => e.isFated);
+    if (!state._pendingEvent && rateChance(state.rng, fatedChance)) {
+      const fatedEvents = GAME_EVENTS.filter(e => e.isFated && !StoryEngine.isActive(state, e.storylineId));
       const regionFated = fatedEvents.filter(e => region.eventPool.includes(e.id));
       const pool = regionFated.length > 0 ? regionFated : fatedEvents;
       if (pool.length > 0) {
-        const event = pool[Math.floor(Math.random() * pool.length)];
+        const event = randomPick(state.rng, pool);
         state._pendingEvent = event;
       }
     }
@@ -221,7 +352,7 @@ export class GameEngine {
     // Random events every 60 ticks
     if (state.tickCount % EVENT_CHECK_INTERVAL === 0) {
       if (region.eventPool.length > 0 && !state._pendingEvent) {
-        const eventId = region.eventPool[Math.floor(Math.random() * region.eventPool.length)];
+        const eventId = randomPick(state.rng, region.eventPool);
         const event = GAME_EVENTS.find(e => e.id === eventId && !e.isFated);
         if (event) {
           state._pendingEvent = event;
@@ -231,18 +362,28 @@ export class GameEngine {
   }
 
   // ========== LOOT GENERATION ==========
-  private static generateLoot(state: GameState, region: typeof REGIONS[number]): void {
-    const validLoot = region.lootTable.filter(l => l.minDanger <= region.dangerLevel);
-    if (validLoot.length === 0) return;
-
+  private static rollLootEntry(state: GameState, validLoot: LootEntry[]): LootEntry {
     const totalWeight = validLoot.reduce((s, l) => s + l.weight, 0);
-    let roll = Math.random() * totalWeight;
-    let selectedLoot = validLoot[0];
+    let roll = random(state.rng) * totalWeight;
     for (const loot of validLoot) {
       roll -= loot.weight;
-      if (roll <= 0) {
-        selectedLoot = loot;
-        break;
+      if (roll <= 0) return loot;
+    }
+    return validLoot[0];
+  }
+
+  static generateLoot(state: GameState, region: typeof REGIONS[number]): void {
+    const validLoot = region.lootTable.filter(l => l.minDanger <= region.dangerLevel);
+    if (validLoot.length === 0) return;
+
+    // Treasure-Seeking Arrays grant extra rolls; keep the rarest find
+    const rarityRank = (entry: LootEntry) => RARITY_ORDER.indexOf(ITEMS[entry.itemId]?.rarity || 'common');
+    let selectedLoot = GameEngine.rollLootEntry(state, validLoot);
+    const extraRolls = FormationEngine.getExtraLootRolls(state);
+    for (let i = 0; i < extraRolls; i++) {
+      const reroll = GameEngine.rollLootEntry(state, validLoot);
+      if (rarityRank(reroll) > rarityRank(selectedLoot)) {
+        selectedLoot = reroll;
       }
     }
 
@@ -250,11 +391,11 @@ export class GameEngine {
     if (!item) return;
 
     if (item.id === 'spirit_stone_pouch_small') {
-      const amount = 5 + Math.floor(Math.random() * 11);
+      const amount = randomInt(state.rng, 5, 15);
       state.spiritStones += amount;
       addLog(state, `💎 Found ${amount} Spirit Stones!`, 'success');
     } else if (item.id === 'spirit_stone_pouch_large') {
-      const amount = 30 + Math.floor(Math.random() * 51);
+      const amount = randomInt(state.rng, 30, 80);
       state.spiritStones += amount;
       addLog(state, `💎 Found ${amount} Spirit Stones!`, 'legendary');
     } else {
@@ -276,7 +417,7 @@ export class GameEngine {
     if (state.currentAction === 'explore' && !state.pathProgress['beast_tamer']?.unlocked) {
       const region = REGIONS.find(r => r.id === state.currentLocationId);
       if (region && region.id === 'spirit_beast_territory') {
-        if (Math.random() < 0.005 * state.character.luck) {
+        if (rateChance(state.rng, 0.005 * state.character.luck)) {
           state.pathProgress['beast_tamer'] = GameEngine.createPathProgress('beast_tamer');
           addLog(state, '🐉 A spirit beast approaches! The Resonance Path is unlocked!', 'legendary');
         }
@@ -285,7 +426,7 @@ export class GameEngine {
 
     // Dream Walker
     if (state.currentAction === 'cultivate' && !state.pathProgress['dream']?.unlocked) {
-      if (Math.random() < 0.0002) {
+      if (rateChance(state.rng, 0.0002)) {
         state.pathProgress['dream'] = GameEngine.createPathProgress('dream');
         addLog(state, '🌙 A lucid dream overtakes you... The Illusion Path is unlocked!', 'legendary');
       }
@@ -356,7 +497,7 @@ export class GameEngine {
 
     if (item.effects.xpMultiplier && item.effects.xpMultiplierDuration) {
       state.buffs.push({
-        id: `pill_${itemId}_${Date.now()}`,
+        id: randomId(state.rng, `pill_${itemId}`, state.buffs.map(b => b.id)),
         name: item.name,
         multiplier: item.effects.xpMultiplier,
         remainingSeconds: item.effects.xpMultiplierDuration,
@@ -0,0 +1,71 @@
+import type { GameState, Group } from '../data/types';
+import { GROUPS } from '../data/constants';
+import { addLog, checkPathUnlocks } from './gameState';
+import { TechniqueEngine } from './TechniqueEngine';
+
+export class GroupEngine {
+  // ========== LOOKUP ==========
+  static getCurrentGroup(state: GameState): Group | undefined {
+    return state.groupMembership ? GROUPS.find(g => g.id === state.groupMembership) : undefined;
+  }
+
+  /** Groups whose karma range you fit and whose home you have found (or any, with sect access). */
+  static getAvailableGroups(state: GameState): Group[] {
+    return GROUPS.filter(g =>
+      state.character.karma >= g.karmaRequirement.min &&
+      state.character.karma <= g.karmaRequirement.max &&
+      (state.discoveredRegions.includes(g.location) || state.character.background.bonusEffect.sectAccess)
+    );
+  }
+
+  static isMissionCompleted(state: GameState, missionId: string): boolean {
+    return (state.completedMissions || []).includes(missionId);
+  }
+
+  // ========== MEMBERSHIP ==========
+  static joinGroup(state: GameState, groupId: string): boolean {
+    const group = GroupEngine.getAvailableGroups(state).find(g => g.id === groupId);
+    if (!group || state.character.rogueStatus) return false;
+
+    state.groupMembership = group.id;
+    state.groupContribution = 0;
+    addLog(state, `🏛️ Joined ${group.name}!`, 'success');
+    return true;
+  }
+
+  static leaveGroup(state: GameState): boolean {
+    const group = GroupEngine.getCurrentGroup(state);
+    if (!group) return false;
+
+    state.groupMembership = null;
+    state.groupContribution = 0;
+    addLog(state, `Left ${group.name}`, 'warning');
+    return true;
+  }
+
+  /** Going rogue leaves any group; some paths only open to rogues. */
+  static toggleRogue(state: GameState): void {
+    const rogue = !state.character.rogueStatus;
+    state.character = { ...state.character, rogueStatus: rogue };
+    if (rogue) state.groupMembership = null;
+    addLog(state, rogue ? '🌪️ You walk the path alone...' : '🤝 You rejoin society.', 'info');
+    checkPathUnlocks(state);
+  }
+
+  // ========== MISSIONS ==========
+  static completeMission(state: GameState, missionId: string, help: boolean): boolean {
+    const mission = GroupEngine.getCurrentGroup(state)?.missions.find(m => m.id === missionId);
+    if (!mission || GroupEngine.isMissionCompleted(state, missionId)) return false;
+
+    const option = help ? mission.helpOption : mission.exploitOption;
+    state.spiritStones += option.reward;
+    state.character = { ...state.character, karma: Math.max(-1000, Math.min(1000, state.character.karma + option.karmaChange)) };
+    state.groupContribution += option.reward;
+    state.completedMissions = [...(state.completedMissions || []), missionId];
+
+    addLog(state, `📋 Mission complete: ${mission.name} — +${option.reward} 💎, ${option.karmaChange > 0 ? '+' : ''}${option.karmaChange} Karma`, option.karmaChange >= 0 ? 'success' : 'warning');
+    if (mission.teachesTechnique) TechniqueEngine.learnTechnique(state, mission.teachesTechnique);
+    checkPathUnlocks(state);
+    return true;
+  }
+}
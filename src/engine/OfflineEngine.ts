@@ -0,0 +1,167 @@
+import type { GameState, GameEvent, OfflineReport } from '../data/types';
+import {
+  REGIONS, OFFLINE_CAP_HOURS, OFFLINE_CAP_UPGRADE_HOURS, OFFLINE_CAP_UPGRADE_COSTS, OFFLINE_BATCH_SECONDS,
+  SAMSARA_SECLUSION_HOURS,
+} from '../data/constants';
+import { addLog, formatTime } from './gameState';
+import { GameEngine } from './GameEngine';
+import { CombatEngine } from './CombatEngine';
+import { CompanionEngine } from './CompanionEngine';
+import { SamsaraEngine } from './SamsaraEngine';
+import { TravelEngine } from './TravelEngine';
+
+// A fight left running can only end in victory, defeat or escape; this bounds the flee attempts
+const MAX_FLEE_ROUNDS = 20;
+
+export class OfflineEngine {
+  // ========== CAP ==========
+  static getCapSeconds(state: GameState): number {
+    return (OFFLINE_CAP_HOURS
+      + (state.offlineCapLevel || 0) * OFFLINE_CAP_UPGRADE_HOURS
+      + SamsaraEngine.getLevel(state, 'eternal_seclusion') * SAMSARA_SECLUSION_HOURS) * 3600;
+  }
+
+  /** Cost of the next Secluded Meditation upgrade, or null once fully upgraded. */
+  static getCapUpgradeCost(state: GameState): number | null {
+    return OFFLINE_CAP_UPGRADE_COSTS[state.offlineCapLevel || 0] ?? null;
+  }
+
+  static upgradeCap(state: GameState): boolean {
+    const cost = OfflineEngine.getCapUpgradeCost(state);
+    if (cost === null || state.spiritStones < cost) return false;
+
+    state.spiritStones -= cost;
+    state.offlineCapLevel = (state.offlineCapLevel || 0) + 1;
+    addLog(state, `🧘 Secluded Meditation deepened — offline progress now lasts ${formatTime(OfflineEngine.getCapSeconds(state))}`, 'success');
+    return true;
+  }
+
+  static toggleAutoBreakthrough(state: GameState): void {
+    state.autoBreakthrough = !state.autoBreakthrough;
+  }
+
+  // ========== REPLAY ==========
+  /** Storyline and fated events wait for the player instead of being skipped. */
+  static isStoryEvent(event: GameEvent): boolean {
+    return !!event.isFated || !!event.storylineId ||
+      event.choices.some(c => c.chain || c.branches?.some(b => b.chain));
+  }
+
+  /**
+   * Runs the real tick loop for the time spent away, up to the offline cap.
+   * Between batches it settles whatever would have needed the player. Returns
+   * a fresh state after a fatal breakthrough, otherwise the same object.
+   */
+  static replay(state: GameState, secondsAway: number): { state: GameState; report: OfflineReport } {
+    const secondsReplayed = Math.min(secondsAway, OfflineEngine.getCapSeconds(state));
+    const report: OfflineReport = {
+      secondsAway,
+      secondsReplayed,
+      xpGained: {},
+      levelsGained: {},
+      breakthroughs: {},
+      itemsGained: [],
+      stonesGained: 0,
+      eventsSkipped: [],
+      eventAwaiting: null,
+      combatsFled: 0,
+      beastsIgnored: 0,
+      arrivedAt: null,
+      died: false,
+    };
+
+    const stonesBefore = state.spiritStones;
+    const itemsBefore = OfflineEngine.countItems(state);
+    const levelsBefore = new Map(Object.values(state.pathProgress).map(pp => [pp.pathId, pp.currentLevel]));
+    const destinationId = TravelEngine.getFinalDestination(state);
+
+    for (let second = 0; second < secondsReplayed; second++) {
+      OfflineEngine.tickTracked(state, report);
+
+      if ((second + 1) % OFFLINE_BATCH_SECONDS === 0 || second === secondsReplayed - 1) {
+        OfflineEngine.settleInterruptions(state, report);
+        if (state.autoBreakthrough && OfflineEngine.tryBreakthrough(state, report)) {
+          report.died = true;
+          break;
+        }
+      }
+    }
+
+    report.stonesGained = state.spiritStones - stonesBefore;
+    for (const [itemId, quantity] of OfflineEngine.countItems(state)) {
+      const gained = quantity - (itemsBefore.get(itemId) || 0);
+      const name = state.inventory.find(i => i.id === itemId)?.name || itemId;
+      if (gained > 0) report.itemsGained.push({ itemId, name, quantity: gained });
+    }
+    for (const pp of Object.values(state.pathProgress)) {
+      const gained = pp.currentLevel - (levelsBefore.get(pp.pathId) || 1);
+      if (gained !== 0) report.levelsGained[pp.pathId] = gained;
+    }
+    if (destinationId && !TravelEngine.isOnJourney(state) && state.currentLocationId === destinationId) {
+      report.arrivedAt = REGIONS.find(r => r.id === destinationId)?.name || null;
+    }
+
+    if (report.died) return { state: SamsaraEngine.enterSamsara(state), report };
+    return { state, report };
+  }
+
+  /** Total held per item id; unstackable items take one inventory slot each. */
+  private static countItems(state: GameState): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const item of state.inventory) counts.set(item.id, (counts.get(item.id) || 0) + item.quantity);
+    return counts;
+  }
+
+  /** One game tick, crediting any XP the active path earned to the report. */
+  private static tickTracked(state: GameState, report: OfflineReport): void {
+    const pathId = state.activePathId;
+    const pp = pathId ? state.pathProgress[pathId] : null;
+    const level = pp?.currentLevel;
+    const xp = pp?.currentXp || 0;
+
+    GameEngine.tick(state);
+
+    if (pathId && pp && pp.currentLevel === level && pp.currentXp > xp) {
+      report.xpGained[pathId] = (report.xpGained[pathId] || 0) + pp.currentXp - xp;
+    }
+  }
+
+  private static settleInterruptions(state: GameState, report: OfflineReport): void {
+    const event = state._pendingEvent;
+    if (event) {
+      if (OfflineEngine.isStoryEvent(event)) {
+        report.eventAwaiting = event.title;
+      } else {
+        report.eventsSkipped.push(event.title);
+        state._pendingEvent = null;
+      }
+    }
+
+    if (state.combat) {
+      report.combatsFled++;
+      for (let round = 0; state.combat && round < MAX_FLEE_ROUNDS; round++) {
+        CombatEngine.takeTurn(state, 'flee');
+      }
+      state.combat = null;
+    }
+
+    if (state.wildBeast) {
+      report.beastsIgnored++;
+      CompanionEngine.ignoreWildBeast(state);
+    }
+  }
+
+  /**
+   * Attempts the active path's breakthrough if it is ready and needs no
+   * tribulation. Returns true if the attempt was fatal.
+   */
+  private static tryBreakthrough(state: GameState, report: OfflineReport): boolean {
+    const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+    if (!pp?.breakthroughAvailable || GameEngine.isTierTransition(pp.currentLevel)) return false;
+    if (!GameEngine.breakthrough(state) || !state.lastBreakthrough) return false;
+
+    const outcome = state.lastBreakthrough.outcome;
+    report.breakthroughs[outcome] = (report.breakthroughs[outcome] || 0) + 1;
+    return outcome === 'death';
+  }
+}
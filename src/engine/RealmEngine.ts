@@ -0,0 +1,69 @@
+import type { GameState, Path, RealmId, RealmRules, Region, RegionEnvironment } from '../data/types';
+import { REALM_RULES, REGIONS, CITY_ENVIRONMENT, getTierForLevel } from '../data/constants';
+import { StoryEngine } from './StoryEngine';
+
+export class RealmEngine {
+  static getRules(realm: RealmId): RealmRules {
+    return REALM_RULES[realm];
+  }
+
+  /** Rules of the realm the player is standing in; mortal if the region is unknown. */
+  static getCurrentRules(state: GameState): RealmRules {
+    const region = REGIONS.find(r => r.id === state.currentLocationId);
+    return REALM_RULES[region?.realm || 'mortal'];
+  }
+
+  // ========== GATES ==========
+  static canEnter(state: GameState, realm: RealmId): boolean {
+    const gate = REALM_RULES[realm].gate;
+    if (!gate) return true;
+    if (StoryEngine.hasFlags(state, [gate.flag])) return true;
+    if (gate.minTier && getTierForLevel(state.highestPathLevel) >= gate.minTier) return true;
+    if (gate.afterDeath && state.character.rebirthCount > 0) return true;
+    return false;
+  }
+
+  /** Gates stand only at realm borders; moving within a realm is always allowed. */
+  static canCross(state: GameState, from: Region, to: Region): boolean {
+    return from.realm === to.realm || RealmEngine.canEnter(state, to.realm);
+  }
+
+  // ========== LOCAL CULTIVATION ==========
+  static getEnvironments(region: Region): RegionEnvironment[] {
+    return [region.environment, region.isCity ? CITY_ENVIRONMENT : undefined].filter((e): e is RegionEnvironment => !!e);
+  }
+
+  /**
+   * Everything about the current location that speeds or slows the path:
+   * the realm's Qi density (cultivation paths only), then the region's own
+   * environment. Empty where the path is unaffected. Path XP picks it up
+   * through GameEngine.getPathXpMultiplier.
+   */
+  static getLocationBreakdown(state: GameState, path: Path): { label: string; multiplier: number }[] {
+    const sources: { label: string; multiplier: number }[] = [];
+    const rules = RealmEngine.getCurrentRules(state);
+    if (path.action === 'cultivate' && rules.qiMultiplier !== 1) {
+      sources.push({ label: `${rules.name} Qi density`, multiplier: rules.qiMultiplier });
+    }
+    const region = REGIONS.find(r => r.id === state.currentLocationId);
+    for (const environment of region ? RealmEngine.getEnvironments(region) : []) {
+      const multiplier = environment.pathModifiers[path.id];
+      if (multiplier) sources.push({ label: environment.description, multiplier });
+    }
+    return sources;
+  }
+
+  static getLocationMultiplier(state: GameState, path: Path): number {
+    return RealmEngine.getLocationBreakdown(state, path).reduce((m, s) => m * s.multiplier, 1);
+  }
+
+  // ========== AMBIENT ==========
+  /** The Underworld's drain on the living, once a second. Never costs a level or a waiting breakthrough. */
+  static processAmbient(state: GameState): void {
+    const rules = RealmEngine.getCurrentRules(state);
+    if (!rules.livingDrain || !state.activePathId || rules.drainExemptPaths.includes(state.activePathId)) return;
+    const pp = state.pathProgress[state.activePathId];
+    if (!pp?.unlocked || pp.breakthroughAvailable) return;
+    pp.currentXp = Math.max(0, pp.currentXp - pp.xpRequired * rules.livingDrain);
+  }
+}
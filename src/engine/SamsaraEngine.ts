@@ -0,0 +1,65 @@
+import type { GameState, SamsaraAward, SamsaraUpgrade } from '../data/types';
+import {
+  SAMSARA_UPGRADES, SAMSARA_POINTS_PER_LEVEL, SAMSARA_KARMA_THRESHOLD, SAMSARA_POINTS_PER_KARMA,
+  SAMSARA_POINTS_PER_ACHIEVEMENT,
+} from '../data/constants';
+import { addLog } from './gameState';
+
+export class SamsaraEngine {
+  // ========== UPGRADES ==========
+  static getLevel(state: GameState, upgradeId: string): number {
+    return state.samsara?.upgrades[upgradeId] || 0;
+  }
+
+  /** Cost of the upgrade's next level, or null once maxed. */
+  static getNextCost(state: GameState, upgrade: SamsaraUpgrade): number | null {
+    return upgrade.costs[SamsaraEngine.getLevel(state, upgrade.id)] ?? null;
+  }
+
+  /** Only between lives: the shop is the wheel of rebirth, not a market. */
+  static buyUpgrade(state: GameState, upgradeId: string): boolean {
+    const upgrade = SAMSARA_UPGRADES.find(u => u.id === upgradeId);
+    if (!upgrade || state.gamePhase !== 'samsara') return false;
+    const cost = SamsaraEngine.getNextCost(state, upgrade);
+    if (cost === null || state.samsara.points < cost) return false;
+
+    state.samsara.points -= cost;
+    state.samsara.upgrades[upgrade.id] = SamsaraEngine.getLevel(state, upgrade.id) + 1;
+    addLog(state, `${upgrade.icon} ${upgrade.name} ${upgrade.costs.length > 1 ? `level ${state.samsara.upgrades[upgrade.id]}` : 'attained'}`, 'success');
+    return true;
+  }
+
+  /** A Fate Anchor carries the character over unchanged, so there is nothing to roll. */
+  static keepsCharacter(state: GameState): boolean {
+    return state.inventory.some(i => i.id === 'fate_anchor');
+  }
+
+  // ========== DEATH ==========
+  /** What this life is worth. Achievements already paid out in earlier lives count for nothing. */
+  static calculateAward(state: GameState): SamsaraAward {
+    const levels = Object.values(state.pathProgress)
+      .filter(pp => pp.unlocked)
+      .reduce((sum, pp) => sum + pp.currentLevel * SAMSARA_POINTS_PER_LEVEL, 0);
+    const karma = Math.floor(Math.max(0, Math.abs(state.character.karma) - SAMSARA_KARMA_THRESHOLD) * SAMSARA_POINTS_PER_KARMA);
+    const claimed = state.samsara?.claimedAchievements || [];
+    const achievements = (state.achievements || []).filter(id => !claimed.includes(id)).length * SAMSARA_POINTS_PER_ACHIEVEMENT;
+    return { levels, karma, achievements, total: levels + karma + achievements };
+  }
+
+  /**
+   * Death: pays out Samsara points and leaves the cultivator between lives,
+   * where the shop is open until they reincarnate.
+   */
+  static enterSamsara(state: GameState): GameState {
+    const award = SamsaraEngine.calculateAward(state);
+    state.samsara.points += award.total;
+    state.samsara.totalEarned += award.total;
+    state.samsara.claimedAchievements = [...new Set([...state.samsara.claimedAchievements, ...(state.achievements || [])])];
+    state.samsara.lastAward = award;
+    state.gamePhase = 'samsara';
+    state.combat = null;
+    state._pendingEvent = null;
+    addLog(state, `☸️ The wheel of Samsara turns. +${award.total} Samsara points`, 'danger');
+    return state;
+  }
+}
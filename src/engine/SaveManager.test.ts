@@ -0,0 +1,263 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GameState } from '../data/types';
+import { SAVE_VERSION } from '../data/constants';
+import { SaveManager } from './SaveManager';
+import { MemoryStorage } from './SaveStorage';
+import { createInitialGameState, rollCharacter } from './gameState';
+import { createRng } from '../utils/random';
+import { checksum } from '../utils/checksum';
+import v0Baseline from './__fixtures__/saves/v0-baseline.json';
+import v0Unversioned from './__fixtures__/saves/v0-unversioned.json';
+import v6 from './__fixtures__/saves/v6.json';
+import v7 from './__fixtures__/saves/v7.json';
+import v8 from './__fixtures__/saves/v8.json';
+import v9 from './__fixtures__/saves/v9.json';
+import v10 from './__fixtures__/saves/v10.json';
+
+/**
+ * Each fixture is the browser storage a past release left behind after a
+ * short session, key for key: `v0-baseline` from the first tracked release,
+ * `v0-unversioned` from the last release before saves carried a version, and
+ * one per version bump after that.
+ */
+type StorageDump = Record<string, string>;
+
+async function useStorage(dump: StorageDump): Promise<MemoryStorage> {
+  const storage = new MemoryStorage();
+  for (const [key, value] of Object.entries(dump)) await storage.setItem(key, value);
+  SaveManager.useStorage(storage);
+  return storage;
+}
+
+async function loadFixture(dump: StorageDump): Promise<GameState> {
+  await useStorage(dump);
+  return load();
+}
+
+async function load(): Promise<GameState> {
+  const result = await SaveManager.load();
+  if (result.status !== 'loaded') throw new Error(`Expected the save to load, got ${result.status}`);
+  return result.state;
+}
+
+/** Every field a new game has, so nothing the current code reads is missing after an upgrade. */
+function expectCurrentShape(state: GameState): void {
+  const fresh = createInitialGameState(rollCharacter('Shape', createRng(1)), createRng(1));
+  expect(state.version).toBe(SAVE_VERSION);
+  expect(Object.keys(state)).toEqual(expect.arrayContaining(Object.keys(fresh)));
+  expect(Object.keys(state.travelState)).toEqual(expect.arrayContaining(Object.keys(fresh.travelState)));
+}
+
+const inventoryOf = (state: GameState) => state.inventory.map(item => [item.id, item.quantity]);
+
+describe('SaveManager migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('upgrades a save from the first tracked release', async () => {
+    const state = await loadFixture(v0Baseline);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Lin Feng');
+    expect(state.currentLocationId).toBe('river_delta');
+    expect(state.spiritStones).toBe(153);
+    expect(state.totalPlayTime).toBe(3660);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 3, currentXp: 346, unlocked: true });
+    expect(state.pathProgress.spirit).toMatchObject({ currentLevel: 1, unlocked: true });
+    expect(inventoryOf(state)).toEqual([['basic_pill', 4], ['basic_scripture', 1], ['common_herb', 3], ['fish_essence', 1]]);
+    // Its pending event used the old choice format
+    expect(state._pendingEvent).toBeNull();
+    expect(state.rng).toEqual({ seed: expect.any(Number), state: expect.any(Number) });
+    expect(state.companions).toEqual([]);
+    expect(state.formations).toEqual([]);
+    expect(state.completedMissions).toEqual([]);
+  });
+
+  it('upgrades a save from the last release before versioning', async () => {
+    const state = await loadFixture(v0Unversioned);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Mei Ling');
+    expect(state.currentLocationId).toBe('mining_town');
+    expect(state.spiritStones).toBe(159);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 2, unlocked: true });
+    expect(state.pathProgress.spirit).toBeUndefined();
+    expect(inventoryOf(state)).toEqual([['uncommon_herb', 4], ['common_herb', 20], ['iron_ore', 4], ['silver_ore', 1]]);
+    expect(state.groupMembership).toBe('azure_cloud_sect');
+    expect(state.completedMissions).toEqual(['patrol_1']);
+    // Seeded before saves were versioned; kept so the run continues the same way
+    expect(state.rng).toEqual({ seed: 112, state: 1522439010 });
+    expect(state._pendingEvent).toBeNull();
+  });
+
+  it('loads a v6 save', async () => {
+    const state = await loadFixture(v6);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Zhao Ren');
+    expect(state.currentLocationId).toBe('forest_path');
+    expect(state.spiritStones).toBe(332);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 3, unlocked: true });
+    expect(inventoryOf(state)).toEqual([
+      ['common_herb', 86], ['iron_ore', 33], ['basic_scripture', 1], ['beast_fang', 29],
+      ['uncommon_herb', 10], ['basic_scripture', 1], ['basic_scripture', 1], ['basic_scripture', 1],
+    ]);
+    expect(state._pendingEvent?.id).toBe('beast_encounter');
+    expect(state.rng).toEqual({ seed: 613, state: 2755805651 });
+    expect(state.offlineCapLevel).toBe(0);
+    expect(state.autoBreakthrough).toBe(false);
+  });
+
+  it('loads a v7 save', async () => {
+    const state = await loadFixture(v7);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Bai Xue');
+    expect(state.currentLocationId).toBe('forest_path');
+    expect(state.spiritStones).toBe(299);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 3, unlocked: true });
+    expect(inventoryOf(state)).toEqual([['iron_ore', 27], ['common_herb', 96], ['beast_fang', 16], ['uncommon_herb', 11], ['basic_scripture', 1]]);
+    expect(state._pendingEvent?.id).toBe('traveler');
+    expect(state.rng).toEqual({ seed: 714, state: 2060028885 });
+    expect(state.samsara).toEqual({ points: 0, totalEarned: 0, upgrades: {}, claimedAchievements: [], lastAward: null });
+  });
+
+  it('loads a v8 save from its checksummed slot', async () => {
+    const state = await loadFixture(v8);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Han Li');
+    expect(state.currentLocationId).toBe('river_delta');
+    expect(state.spiritStones).toBe(365);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 3, currentXp: 346, unlocked: true });
+    expect(state.pathProgress.spirit).toBeUndefined();
+    expect(inventoryOf(state)).toEqual([['fish_essence', 2], ['common_herb', 1]]);
+    expect(state.groupMembership).toBe('jade_merchant_assoc');
+    expect(state.completedMissions).toEqual(['trade_1']);
+    expect(state._pendingEvent?.id).toBe('traveler');
+    expect(state.rng).toEqual({ seed: 815, state: 1876696401 });
+    expect(state.travelState).toEqual({
+      traveling: false, destinationId: null, remainingSeconds: 0, route: [], preference: 'fastest', autoExplore: false, layoverSeconds: 0,
+    });
+  });
+
+  it('loads a v9 save', async () => {
+    const state = await loadFixture(v9);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Su Yin');
+    expect(state.currentLocationId).toBe('peaceful_village');
+    expect(state.spiritStones).toBe(368);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 3, unlocked: true });
+    expect(inventoryOf(state)).toEqual([['common_herb', 19], ['iron_ore', 9], ['uncommon_herb', 2], ['beast_fang', 7], ['basic_scripture', 1]]);
+    expect(state._pendingEvent?.id).toBe('herb_garden');
+    expect(state.rng).toEqual({ seed: 916, state: 4249182385 });
+    expect(state.travelState).toMatchObject({ preference: 'fastest', autoExplore: false, layoverSeconds: 0 });
+  });
+
+  it('loads a v10 save', async () => {
+    const state = await loadFixture(v10);
+
+    expectCurrentShape(state);
+    expect(state.character.name).toBe('Ye Chen');
+    expect(state.currentLocationId).toBe('forest_path');
+    expect(state.spiritStones).toBe(171);
+    expect(state.pathProgress.martial).toMatchObject({ currentLevel: 2, currentXp: 248, unlocked: true });
+    expect(inventoryOf(state)).toEqual([
+      ['iron_ore', 31], ['common_herb', 129], ['beast_fang', 19], ['uncommon_herb', 16],
+      ['basic_scripture', 1], ['basic_scripture', 1], ['basic_scripture', 1],
+    ]);
+    expect(state._pendingEvent?.id).toBe('dying_immortal');
+    expect(state.rng).toEqual({ seed: 1017, state: 4139783489 });
+  });
+
+  it('adopts a save from before slots as the first slot', async () => {
+    await useStorage(v7);
+
+    expect(await SaveManager.listSlots()).toEqual([expect.objectContaining({ name: 'Bai Xue', rebirthCount: 0, playTime: 4200 })]);
+    expect(await SaveManager.load()).toEqual(expect.objectContaining({ status: 'loaded' }));
+  });
+
+  it.each([
+    ['first tracked release', v0Baseline],
+    ['last unversioned release', v0Unversioned],
+    ['v6', v6],
+    ['v7', v7],
+    ['v8', v8],
+    ['v9', v9],
+    ['v10', v10],
+  ])('re-saves an upgraded save from the %s with a checksum', async (_, dump) => {
+    const storage = await useStorage(dump);
+    const state = await load();
+    const before = structuredClone(state);
+    expect(await SaveManager.save(state)).toBe(true);
+    expect(state).toEqual(before); // stamps its own copy
+
+    const data = (await storage.getItem(`incremental_cultivation_save_${await SaveManager.getActiveSlotId()}`))!;
+    const sep = data.indexOf(':');
+    expect(data.slice(0, sep)).toBe(checksum(data.slice(sep + 1)));
+    expect(await load()).toEqual({ ...state, lastSaveTimestamp: expect.any(Number) });
+  });
+
+  it('reports a slot that fails its checksum as unreadable', async () => {
+    const storage = await useStorage(v8);
+    const key = `incremental_cultivation_save_${await SaveManager.getActiveSlotId()}`;
+    await storage.setItem(key, (await storage.getItem(key))!.replace('"spiritStones":365', '"spiritStones":99999'));
+
+    expect(await SaveManager.load()).toEqual(expect.objectContaining({
+      status: 'unreadable',
+      reason: expect.stringContaining('checksum'),
+    }));
+  });
+
+  it('refuses a save from a newer version', async () => {
+    const newer = { ...JSON.parse(v7.incremental_cultivation_save), version: SAVE_VERSION + 1 };
+    await useStorage({ incremental_cultivation_save: JSON.stringify(newer) });
+
+    expect(await SaveManager.load()).toEqual(expect.objectContaining({
+      status: 'unreadable',
+      reason: expect.stringContaining('newer version'),
+    }));
+  });
+
+  it('reports a save that is not JSON as unreadable and keeps it', async () => {
+    await useStorage({ incremental_cultivation_save: v7.incremental_cultivation_save.slice(0, 500) });
+
+    expect(await SaveManager.load()).toEqual(expect.objectContaining({
+      status: 'unreadable',
+      raw: expect.stringContaining(v7.incremental_cultivation_save.slice(0, 500)),
+    }));
+  });
+
+  it('reports a slot holding plain JSON as unreadable', async () => {
+    const storage = await useStorage(v10);
+    const key = `incremental_cultivation_save_${await SaveManager.getActiveSlotId()}`;
+    const data = (await storage.getItem(key))!;
+    await storage.setItem(key, data.slice(data.indexOf(':') + 1));
+
+    expect(await SaveManager.load()).toEqual(expect.objectContaining({
+      status: 'unreadable',
+      reason: expect.stringContaining('checksum'),
+    }));
+  });
+});
+
+describe('SaveManager.importSave', () => {
+  it('reads back an exported save', async () => {
+    await useStorage(v10);
+    const state = await load();
+
+    const imported = await SaveManager.importSave(await SaveManager.exportSave(state));
+    expect(imported.character.name).toBe('Ye Chen');
+    expect(imported.spiritStones).toBe(171);
+  });
+
+  it('refuses a save string whose version is not a number', async () => {
+    await useStorage(v10);
+    const [header, , ...rest] = (await SaveManager.exportSave(await load())).split(':');
+
+    await expect(SaveManager.importSave([header, 'abc', ...rest].join(':'))).rejects.toThrow('malformed header');
+    await expect(SaveManager.importSave([header, '', ...rest].join(':'))).rejects.toThrow('malformed header');
+  });
+});
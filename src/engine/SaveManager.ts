@@ -1,153 +1,683 @@
-import type { GameState } from '../data/types';
-import { PATHS, BASE_XP_PER_SECOND } from '../data/constants';
-import { addLog, formatTime, formatNumber } from './gameState';
+import type { GameState, OfflineReport, SaveSlotMeta, SaveBackup } from '../data/types';
+import { SAVE_VERSION, PATHS, BACKUP_AUTO_LIMIT, BACKUP_DAILY_LIMIT } from '../data/constants';
+import { addLog, formatTime } from './gameState';
+import { OfflineEngine } from './OfflineEngine';
+import { createRng } from '../utils/random';
+import { checksum } from '../utils/checksum';
+import { compressToBase64, decompressFromBase64 } from '../utils/compression';
+import type { SaveStorage } from './SaveStorage';
+import { LocalStorageAdapter, IndexedDbStorage } from './SaveStorage';
 
-const SAVE_KEY = 'incremental_cultivation_save';
-const OFFLINE_CAP_SECONDS = 8 * 3600; // 8 hours
+const KEY_PREFIX = 'incremental_cultivation'; // every key the game stores starts with this
+const SAVE_KEY = 'incremental_cultivation_save'; // single-slot saves from before slots; each slot appends its id
+const SLOT_INDEX_KEY = 'incremental_cultivation_slots';
+const RECOVERY_KEY = 'incremental_cultivation_save_unreadable';
+const LEGACY_SLOT_ID = 'slot_1';
+const EXPORT_HEADER = 'GDAO1'; // export format 1: GDAO1:<save version>:<checksum>:<deflated JSON, base64>
+
+interface SlotIndex {
+  activeSlotId: string | null;
+  slots: SaveSlotMeta[];
+}
+
+interface StoredBackup extends SaveBackup {
+  data: string; // sealed save, exactly as it sat in the slot
+}
+
+/** A parsed save of any age. Fields are only trusted after migration. */
+type LegacySave = Partial<GameState> & { version?: number };
+
+interface SaveMigration {
+  /** The version this migration upgrades a save to. */
+  version: number;
+  description: string;
+  migrate: (save: LegacySave) => void;
+}
+
+/**
+ * Ordered upgrade chain. Saves written before versioning count as version 0
+ * and run every step; each step only fills in what is missing, so it is safe
+ * whichever release the save actually came from.
+ */
+const MIGRATIONS: SaveMigration[] = [
+  {
+    version: 1,
+    description: 'Crafting: alchemy, formations and forging',
+    migrate: save => {
+      save.refining ??= null;
+      save.inscribing ??= null;
+      save.formations ??= [];
+      save.forging ??= null;
+      save.equipment ??= {};
+      save.gearStash ??= [];
+    },
+  },
+  {
+    version: 2,
+    description: 'Spirit beast companions and combat',
+    migrate: save => {
+      save.companions ??= [];
+      save.activeCompanionUid ??= null;
+      save.wildBeast ??= null;
+      save.combat ??= null;
+      save.injury ??= { active: false, remainingSeconds: 0 };
+    },
+  },
+  {
+    version: 3,
+    description: 'Techniques and achievements',
+    migrate: save => {
+      save.learnedTechniques ??= [];
+      save.equippedMartialTechnique ??= null;
+      save.equippedPassives ??= [];
+      save.achievements ??= [];
+    },
+  },
+  {
+    version: 4,
+    description: 'Event outcomes and storylines',
+    migrate: save => {
+      save.stunSeconds ??= 0;
+      save.storyFlags ??= [];
+      save.activeStorylines ??= [];
+      save.completedStorylines ??= [];
+      // Pending events were saved in the old choice format; drop rather than misread them
+      save._pendingEvent = null;
+    },
+  },
+  {
+    version: 5,
+    description: 'Seeded randomness',
+    migrate: save => {
+      save.rng ??= createRng();
+    },
+  },
+  {
+    version: 6,
+    description: 'Mission completion and breakthrough results kept in state',
+    migrate: save => {
+      save.completedMissions ??= [];
+      save.lastBreakthrough ??= null;
+    },
+  },
+  {
+    version: 7,
+    description: 'Offline replay settings',
+    migrate: save => {
+      save.offlineCapLevel ??= 0;
+      save.autoBreakthrough ??= false;
+    },
+  },
+  {
+    version: 8,
+    description: 'Samsara points and reincarnation upgrades',
+    migrate: save => {
+      save.samsara ??= { points: 0, totalEarned: 0, upgrades: {}, claimedAchievements: [], lastAward: null };
+    },
+  },
+  {
+    version: 9,
+    description: 'Multi-leg travel routes',
+    migrate: save => {
+      if (save.travelState) save.travelState.route ??= [];
+    },
+  },
+  {
+    version: 10,
+    description: 'Route preference and waypoint exploring',
+    migrate: save => {
+      if (!save.travelState) return;
+      save.travelState.preference ??= 'fastest';
+      save.travelState.autoExplore ??= false;
+      save.travelState.layoverSeconds ??= 0;
+    },
+  },
+];
+
+/** Outcome of reading the local save. `unreadable` keeps the raw data for the recovery screen. */
+export type SaveLoadResult =
+  | { status: 'empty' }
+  | { status: 'loaded'; state: GameState }
+  | { status: 'unreadable'; reason: string; raw: string };
 
 export class SaveManager {
-  // ========== LOCAL STORAGE ==========
-  static saveToLocalStorage(gameState: GameState): boolean {
-    gameState.lastSaveTimestamp = Date.now();
+  private static storage: Promise<SaveStorage> | null = null;
+  private static pending: Promise<unknown> = Promise.resolve();
+
+  // ========== STORAGE ==========
+  /** Replaces the backend, e.g. with a MemoryStorage in tests. */
+  static useStorage(storage: SaveStorage): void {
+    SaveManager.storage = Promise.resolve(storage);
+  }
+
+  /** IndexedDB where available, localStorage otherwise. Opened on first use. */
+  private static getStorage(): Promise<SaveStorage> {
+    SaveManager.storage ??= SaveManager.openDefaultStorage();
+    return SaveManager.storage;
+  }
+
+  private static async openDefaultStorage(): Promise<SaveStorage> {
+    const local = new LocalStorageAdapter();
+    if (typeof indexedDB === 'undefined') return local;
+    try {
+      const idb = await IndexedDbStorage.open();
+      await SaveManager.moveSaves(local, idb);
+      return idb;
+    } catch (e) {
+      console.warn('IndexedDB unavailable, saving to localStorage', e);
+      return local;
+    }
+  }
+
+  /**
+   * One-time move of everything the game kept in localStorage into a new
+   * backend. Skipped once the target holds saves of its own.
+   */
+  private static async moveSaves(from: SaveStorage, to: SaveStorage): Promise<void> {
+    if (await to.getItem(SLOT_INDEX_KEY) || await to.getItem(SAVE_KEY)) return;
+    const keys = (await from.keys()).filter(k => k.startsWith(KEY_PREFIX));
+    for (const key of keys) await to.setItem(key, (await from.getItem(key))!);
+    for (const key of keys) await from.removeItem(key);
+  }
+
+  /**
+   * Runs storage operations one at a time so read-modify-write steps on the
+   * slot index never interleave.
+   */
+  private static serial<T>(task: (storage: SaveStorage) => Promise<T>): Promise<T> {
+    const run = SaveManager.pending.then(() => SaveManager.getStorage()).then(task);
+    SaveManager.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  // ========== SLOTS ==========
+  private static slotKey(slotId: string): string {
+    return `${SAVE_KEY}_${slotId}`;
+  }
+
+  /**
+   * Reads the slot index, adopting a pre-slot save as the first slot. Those
+   * saves predate checksums and are sealed here; a slot or backup holding
+   * plain JSON is refused everywhere else.
+   */
+  private static async readIndex(storage: SaveStorage): Promise<SlotIndex> {
+    const stored = await storage.getItem(SLOT_INDEX_KEY);
+    if (stored) return JSON.parse(stored) as SlotIndex;
+
+    const index: SlotIndex = { activeSlotId: null, slots: [] };
+    const legacy = await storage.getItem(SAVE_KEY);
+    if (legacy) {
+      await storage.setItem(SaveManager.slotKey(LEGACY_SLOT_ID), SaveManager.seal(legacy));
+      await storage.removeItem(SAVE_KEY);
+      let meta: SaveSlotMeta;
+      try {
+        meta = SaveManager.describe(LEGACY_SLOT_ID, SaveManager.migrate(JSON.parse(legacy)));
+      } catch {
+        meta = { id: LEGACY_SLOT_ID, name: 'Unreadable save', realm: '—', rebirthCount: 0, playTime: 0, lastSaved: 0 };
+      }
+      index.slots.push(meta);
+      index.activeSlotId = LEGACY_SLOT_ID;
+    }
+    await SaveManager.writeIndex(storage, index);
+    return index;
+  }
+
+  private static writeIndex(storage: SaveStorage, index: SlotIndex): Promise<void> {
+    return storage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+  }
+
+  private static newSlotId(index: SlotIndex): string {
+    let stamp = Date.now();
+    while (index.slots.some(s => s.id === `slot_${stamp.toString(36)}`)) stamp++;
+    return `slot_${stamp.toString(36)}`;
+  }
+
+  private static describe(slotId: string, state: GameState): SaveSlotMeta {
+    const furthest = Object.values(state.pathProgress)
+      .filter(pp => pp.unlocked)
+      .sort((a, b) => b.currentLevel - a.currentLevel)[0];
+    const path = furthest ? PATHS.find(p => p.id === furthest.pathId) : undefined;
+    return {
+      id: slotId,
+      name: state.character.name,
+      realm: path?.levels[furthest.currentLevel - 1]?.name || 'Mortal',
+      rebirthCount: state.character.rebirthCount,
+      playTime: state.totalPlayTime,
+      lastSaved: state.lastSaveTimestamp,
+    };
+  }
+
+  /** Most recently played first. */
+  static listSlots(): Promise<SaveSlotMeta[]> {
+    return SaveManager.serial(async storage => {
+      const index = await SaveManager.readIndex(storage);
+      return [...index.slots].sort((a, b) => b.lastSaved - a.lastSaved);
+    }).catch(() => {
+      console.warn('Failed to read save slots');
+      return [];
+    });
+  }
+
+  static getActiveSlotId(): Promise<string | null> {
+    return SaveManager.serial(async storage => (await SaveManager.readIndex(storage)).activeSlotId)
+      .catch(() => null);
+  }
+
+  /** Makes the slot the one that loads, saves and auto-saves. */
+  static selectSlot(slotId: string): Promise<boolean> {
+    return SaveManager.serial(async storage => {
+      const index = await SaveManager.readIndex(storage);
+      if (!index.slots.some(s => s.id === slotId)) return false;
+      index.activeSlotId = slotId;
+      await SaveManager.writeIndex(storage, index);
+      return true;
+    });
+  }
+
+  /** Stores a new character in a fresh slot and makes it active. */
+  static createSlot(gameState: GameState): Promise<string> {
+    return SaveManager.serial(async storage => {
+      const index = await SaveManager.readIndex(storage);
+      const slotId = SaveManager.newSlotId(index);
+      index.activeSlotId = slotId;
+      await SaveManager.writeIndex(storage, index);
+      await SaveManager.writeSave(storage, gameState);
+      return slotId;
+    });
+  }
+
+  static copySlot(slotId: string): Promise<string | null> {
+    return SaveManager.serial(async storage => {
+      const index = await SaveManager.readIndex(storage);
+      const source = index.slots.find(s => s.id === slotId);
+      const data = await storage.getItem(SaveManager.slotKey(slotId));
+      if (!source || !data) return null;
+
+      const copyId = SaveManager.newSlotId(index);
+      try {
+        await storage.setItem(SaveManager.slotKey(copyId), data);
+      } catch {
+        console.warn('Failed to copy save slot');
+        return null;
+      }
+      index.slots.push({ ...source, id: copyId, name: `${source.name} (copy)` });
+      await SaveManager.writeIndex(storage, index);
+      return copyId;
+    });
+  }
+
+  static deleteSlot(slotId: string): Promise<void> {
+    return SaveManager.serial(storage => SaveManager.removeSlot(storage, slotId));
+  }
+
+  private static async removeSlot(storage: SaveStorage, slotId: string): Promise<void> {
+    const index = await SaveManager.readIndex(storage);
+    await storage.removeItem(SaveManager.slotKey(slotId));
+    await storage.removeItem(SaveManager.backupKey(slotId));
+    index.slots = index.slots.filter(s => s.id !== slotId);
+    if (index.activeSlotId === slotId) index.activeSlotId = null;
+    await SaveManager.writeIndex(storage, index);
+  }
+
+  // ========== SAVE / LOAD ==========
+  /** Saves into the active slot, opening a new one if none is active. */
+  static save(gameState: GameState): Promise<boolean> {
+    return SaveManager.serial(storage => SaveManager.writeSave(storage, gameState));
+  }
+
+  /** Stamps a copy, never the caller's state, which may be React's. */
+  private static async writeSave(storage: SaveStorage, gameState: GameState): Promise<boolean> {
+    const saved = { ...gameState, lastSaveTimestamp: Date.now(), version: SAVE_VERSION };
+    const json = JSON.stringify(saved); // taken now: the state may change before the write lands
     try {
-      const serialized = JSON.stringify(gameState);
-      localStorage.setItem(SAVE_KEY, serialized);
+      const index = await SaveManager.readIndex(storage);
+      if (!index.activeSlotId) index.activeSlotId = SaveManager.newSlotId(index);
+      const slotId = index.activeSlotId;
+
+      await storage.setItem(SaveManager.slotKey(slotId), SaveManager.seal(json));
+      index.slots = [...index.slots.filter(s => s.id !== slotId), SaveManager.describe(slotId, saved)];
+      await SaveManager.writeIndex(storage, index);
       return true;
     } catch {
       // Storage full or unavailable
-      console.warn('Failed to save to localStorage');
+      console.warn('Failed to save');
       return false;
     }
   }
 
-  static loadFromLocalStorage(): GameState | null {
+  static load(): Promise<SaveLoadResult> {
+    return SaveManager.serial(async storage => {
+      let data: string | null;
+      try {
+        const slotId = (await SaveManager.readIndex(storage)).activeSlotId;
+        data = slotId ? await storage.getItem(SaveManager.slotKey(slotId)) : null;
+      } catch {
+        return { status: 'unreadable', reason: 'Save storage is unavailable.', raw: '' };
+      }
+      if (!data) return { status: 'empty' };
+
+      try {
+        return { status: 'loaded', state: SaveManager.migrate(JSON.parse(SaveManager.unseal(data))) };
+      } catch (e) {
+        console.warn('Failed to load save', e);
+        return { status: 'unreadable', reason: (e as Error).message, raw: data };
+      }
+    });
+  }
+
+  // ========== BACKUPS ==========
+  private static backupKey(slotId: string): string {
+    return `${SaveManager.slotKey(slotId)}_backups`;
+  }
+
+  /** Newest first. */
+  private static async readBackups(storage: SaveStorage, slotId: string): Promise<StoredBackup[]> {
     try {
-      const data = localStorage.getItem(SAVE_KEY);
-      if (!data) return null;
-      const parsed = JSON.parse(data) as GameState;
-      // Validate basic structure
-      if (!parsed.character || !parsed.pathProgress) return null;
-      return parsed;
+      return JSON.parse(await storage.getItem(SaveManager.backupKey(slotId)) || '[]') as StoredBackup[];
     } catch {
-      console.warn('Failed to load from localStorage');
-      return null;
+      return [];
     }
   }
 
-  // ========== EXPORT / IMPORT ==========
-  static exportSave(gameState: GameState): string {
-    gameState.lastSaveTimestamp = Date.now();
-    const json = JSON.stringify(gameState);
-    return btoa(unescape(encodeURIComponent(json)));
+  /** Drops the oldest backups until the rest fit in storage. */
+  private static async writeBackups(storage: SaveStorage, slotId: string, backups: StoredBackup[]): Promise<void> {
+    const kept = [...backups];
+    while (kept.length > 0) {
+      try {
+        await storage.setItem(SaveManager.backupKey(slotId), JSON.stringify(kept));
+        return;
+      } catch {
+        kept.pop();
+      }
+    }
+    await storage.removeItem(SaveManager.backupKey(slotId));
   }
 
-  static importSave(saveString: string): GameState | null {
+  /** Adds a snapshot and trims each kind to its limit. */
+  private static async pushBackup(storage: SaveStorage, slotId: string, backup: StoredBackup): Promise<void> {
+    const backups = [backup, ...(await SaveManager.readBackups(storage, slotId)).filter(b => b.id !== backup.id)];
+    const autos = backups.filter(b => b.kind === 'auto').slice(0, BACKUP_AUTO_LIMIT);
+    const dailies = backups.filter(b => b.kind === 'daily').slice(0, BACKUP_DAILY_LIMIT);
+    await SaveManager.writeBackups(storage, slotId, [...autos, ...dailies].sort((a, b) => b.timestamp - a.timestamp));
+  }
+
+  /**
+   * Keeps what is currently in the active slot as an auto backup, provided it
+   * still passes its checksum, so overwriting it is never the only copy.
+   */
+  private static async backupCurrent(storage: SaveStorage, index: SlotIndex): Promise<void> {
+    const slotId = index.activeSlotId;
+    const meta = index.slots.find(s => s.id === slotId);
+    const data = slotId ? await storage.getItem(SaveManager.slotKey(slotId)) : null;
+    if (!slotId || !meta || !data) return;
     try {
-      const trimmed = saveString.trim();
-      const json = decodeURIComponent(escape(atob(trimmed)));
-      const parsed = JSON.parse(json) as GameState;
-      // Validate basic structure
-      if (!parsed.character || !parsed.pathProgress || !parsed.gamePhase) {
-        return null;
-      }
-      parsed.lastSaveTimestamp = Date.now();
-      return parsed;
+      SaveManager.unseal(data);
     } catch {
-      console.warn('Failed to import save string');
-      return null;
+      return;
     }
+    await SaveManager.pushBackup(storage, slotId, {
+      id: `backup_${meta.lastSaved.toString(36)}`,
+      kind: 'auto',
+      timestamp: meta.lastSaved,
+      realm: meta.realm,
+      playTime: meta.playTime,
+      data,
+    });
   }
 
-  // ========== OFFLINE PROGRESS ==========
-  static calculateOfflineProgress(gameState: GameState): GameState {
-    const now = Date.now();
-    const elapsedMs = now - gameState.lastSaveTimestamp;
-    const elapsedSeconds = Math.min(Math.floor(elapsedMs / 1000), OFFLINE_CAP_SECONDS);
-
-    // Skip if less than 5 seconds elapsed
-    if (elapsedSeconds < 5) return gameState;
-
-    let xpGained = 0;
-
-    // Calculate XP gained offline for active path
-    if (gameState.currentAction !== 'idle' && gameState.activePathId) {
-      const pp = gameState.pathProgress[gameState.activePathId];
-      if (pp && pp.unlocked && !pp.breakthroughAvailable) {
-        const path = PATHS.find(p => p.id === gameState.activePathId);
-        if (path) {
-          const speed = path.speedModifier(gameState);
-          const deviationMult = gameState.qiDeviation.active ? 0.5 : 1;
-          const legacyMult = 1 + gameState.character.legacyBonus;
-          // No click boost or buffs for offline progress — buffs would have expired
-          const xpPerTick = BASE_XP_PER_SECOND * speed * deviationMult * legacyMult;
-          xpGained = xpPerTick * elapsedSeconds;
-
-          pp.currentXp += xpGained;
-          if (pp.currentXp >= pp.xpRequired) {
-            pp.currentXp = pp.xpRequired;
-            pp.breakthroughAvailable = true;
-          }
+  /**
+   * The periodic save: rotates the previous save into the rolling backups and
+   * takes the day's snapshot if there is none yet.
+   */
+  static autoSave(gameState: GameState): Promise<boolean> {
+    return SaveManager.serial(async storage => {
+      try {
+        await SaveManager.backupCurrent(storage, await SaveManager.readIndex(storage));
+      } catch {
+        console.warn('Failed to back up the previous save');
+      }
+      if (!await SaveManager.writeSave(storage, gameState)) return false;
+
+      try {
+        const index = await SaveManager.readIndex(storage);
+        const slotId = index.activeSlotId!;
+        const meta = index.slots.find(s => s.id === slotId)!;
+        const today = new Date(meta.lastSaved).toDateString();
+        const hasDaily = (await SaveManager.readBackups(storage, slotId))
+          .some(b => b.kind === 'daily' && new Date(b.timestamp).toDateString() === today);
+        if (!hasDaily) {
+          await SaveManager.pushBackup(storage, slotId, {
+            id: `daily_${meta.lastSaved.toString(36)}`,
+            kind: 'daily',
+            timestamp: meta.lastSaved,
+            realm: meta.realm,
+            playTime: meta.playTime,
+            data: (await storage.getItem(SaveManager.slotKey(slotId)))!,
+          });
         }
+      } catch {
+        console.warn('Failed to take the daily snapshot');
       }
+      return true;
+    });
+  }
+
+  /** Snapshots of the active slot, newest first. */
+  static listBackups(): Promise<SaveBackup[]> {
+    return SaveManager.serial(async storage => {
+      const slotId = (await SaveManager.readIndex(storage)).activeSlotId;
+      if (!slotId) return [];
+      return (await SaveManager.readBackups(storage, slotId)).map(({ data: _data, ...backup }) => backup);
+    }).catch(() => []);
+  }
+
+  /**
+   * Rolls the active slot back to a snapshot. What was there is kept as a
+   * backup so the rollback itself can be undone. The restored save is stamped
+   * as just saved: rolling back never grants offline time. Returns null if
+   * the snapshot is missing or damaged.
+   */
+  static restoreBackup(backupId: string): Promise<GameState | null> {
+    return SaveManager.serial(async storage => {
+      const index = await SaveManager.readIndex(storage);
+      if (!index.activeSlotId) return null;
+      const backup = (await SaveManager.readBackups(storage, index.activeSlotId)).find(b => b.id === backupId);
+      if (!backup) return null;
+
+      const state = SaveManager.migrate(JSON.parse(SaveManager.unseal(backup.data)));
+      await SaveManager.backupCurrent(storage, index);
+      return await SaveManager.writeSave(storage, state) ? state : null;
+    }).catch(e => {
+      console.warn('Failed to restore backup', e);
+      return null;
+    });
+  }
+
+  // ========== CHECKSUM ==========
+  /** Prefixes the JSON with its checksum: `<checksum>:<json>`. */
+  private static seal(json: string): string {
+    return `${checksum(json)}:${json}`;
+  }
+
+  /** Verifies and strips the checksum. Slots and backups are always sealed. */
+  private static unseal(data: string): string {
+    const sep = data.indexOf(':');
+    const json = data.slice(sep + 1);
+    if (sep < 0 || data.slice(0, sep) !== checksum(json)) {
+      throw new Error('The save failed its checksum — it was damaged or edited outside the game.');
     }
+    return json;
+  }
 
-    // Clear Qi Deviation if enough time passed
-    if (gameState.qiDeviation.active) {
-      gameState.qiDeviation.remainingSeconds = Math.max(
-        0,
-        gameState.qiDeviation.remainingSeconds - elapsedSeconds
-      );
-      if (gameState.qiDeviation.remainingSeconds <= 0) {
-        gameState.qiDeviation.active = false;
+  /**
+   * Moves an unreadable save aside so a new game can start without losing it.
+   * Only the most recent unreadable save is kept.
+   */
+  static quarantineSave(raw: string): Promise<void> {
+    return SaveManager.serial(async storage => {
+      try {
+        await storage.setItem(RECOVERY_KEY, raw);
+      } catch {
+        console.warn('Failed to keep unreadable save');
       }
+      const slotId = (await SaveManager.readIndex(storage)).activeSlotId;
+      if (slotId) await SaveManager.removeSlot(storage, slotId);
+    });
+  }
+
+  // ========== MIGRATION ==========
+  /**
+   * Upgrades a parsed save of any version to the current schema.
+   * Throws with a player-facing reason if it cannot be used.
+   */
+  static migrate(data: unknown): GameState {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('The save data is not a game state.');
+    }
+    const save = data as LegacySave;
+    const fromVersion = save.version ?? 0;
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+      throw new Error(`The save has an invalid version (${String(save.version)}).`);
+    }
+    if (fromVersion > SAVE_VERSION) {
+      throw new Error(`The save comes from a newer version of the game (v${fromVersion}, this is v${SAVE_VERSION}).`);
     }
 
-    // Clear expired buffs
-    gameState.buffs = gameState.buffs.filter(b => {
-      b.remainingSeconds -= elapsedSeconds;
-      return b.remainingSeconds > 0;
-    });
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= fromVersion) continue;
+      try {
+        migration.migrate(save);
+      } catch (e) {
+        throw new Error(`Upgrading the save to v${migration.version} (${migration.description}) failed: ${(e as Error).message}`);
+      }
+      save.version = migration.version;
+    }
 
-    // Handle travel completion
-    if (gameState.travelState.traveling) {
-      gameState.travelState.remainingSeconds -= elapsedSeconds;
-      if (gameState.travelState.remainingSeconds <= 0) {
-        gameState.travelState.traveling = false;
-        if (gameState.travelState.destinationId) {
-          gameState.currentLocationId = gameState.travelState.destinationId;
-          if (!gameState.discoveredRegions.includes(gameState.currentLocationId)) {
-            gameState.discoveredRegions.push(gameState.currentLocationId);
-          }
-        }
-        gameState.travelState.destinationId = null;
-        gameState.travelState.remainingSeconds = 0;
+    if (!save.character || !save.pathProgress || !save.gamePhase || !Array.isArray(save.inventory)) {
+      throw new Error('The save is missing its character, paths or inventory.');
+    }
+    return save as GameState;
+  }
+
+  // ========== EXPORT / IMPORT ==========
+  /** Compressed, checksummed save string. The event log is left out. */
+  static async exportSave(gameState: GameState): Promise<string> {
+    const json = JSON.stringify({ ...gameState, eventLog: [], lastSaveTimestamp: Date.now(), version: SAVE_VERSION });
+    return [EXPORT_HEADER, SAVE_VERSION, checksum(json), await compressToBase64(json)].join(':');
+  }
+
+  /**
+   * Reads a save string in the current format, the older plain base64 JSON,
+   * or raw JSON from a .json save file. Throws with a player-facing reason if
+   * it cannot be imported.
+   */
+  static async importSave(saveString: string): Promise<GameState> {
+    const trimmed = saveString.trim();
+    if (!trimmed) throw new Error('Paste a save string first.');
+
+    let json: string;
+    if (trimmed.startsWith('{')) {
+      json = trimmed;
+    } else if (trimmed.startsWith('GDAO')) {
+      const [header, version, sum, payload] = trimmed.split(':');
+      if (header !== EXPORT_HEADER) {
+        throw new Error('The save string uses a format this version of the game does not know. Update the game and try again.');
+      }
+      const saveVersion = Number(version);
+      if (!Number.isInteger(saveVersion) || saveVersion < 1) {
+        throw new Error('The save string has a malformed header. Make sure you copied all of it.');
+      }
+      if (saveVersion > SAVE_VERSION) {
+        throw new Error(`The save string comes from a newer version of the game (v${saveVersion}, this is v${SAVE_VERSION}).`);
+      }
+      try {
+        json = await decompressFromBase64(payload || '');
+      } catch {
+        throw new Error('The save string is cut short or damaged. Make sure you copied all of it.');
+      }
+      if (checksum(json) !== sum) {
+        throw new Error('The save string failed its checksum — it was changed after it was exported.');
+      }
+    } else {
+      try {
+        json = decodeURIComponent(escape(atob(trimmed)));
+      } catch {
+        throw new Error('That is not a save string.');
       }
     }
 
-    // Grant small spirit stone offline bonus
-    const offlineStones = Math.floor(elapsedSeconds / 600); // 1 per 10 minutes
-    if (offlineStones > 0) {
-      gameState.spiritStones += offlineStones;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('The save string is cut short or damaged. Make sure you copied all of it.');
     }
+    const state = SaveManager.migrate(parsed);
+    state.eventLog ??= [];
+    state.lastSaveTimestamp = Date.now();
+    addLog(state, '📥 Save imported', 'system');
+    return state;
+  }
+
+  // ========== FILES ==========
+  /**
+   * A downloadable save: `.icsave` holds the export string, `.json` the full
+   * readable state for archiving.
+   */
+  static async exportFile(gameState: GameState, format: 'icsave' | 'json'): Promise<File> {
+    const date = new Date().toISOString().slice(0, 10);
+    const realm = SaveManager.describe('', gameState).realm;
+    const name = `${gameState.character.name}-${realm}-${date}`.replace(/[^\w-]+/g, '_');
+    const content = format === 'json'
+      ? JSON.stringify({ ...gameState, lastSaveTimestamp: Date.now(), version: SAVE_VERSION }, null, 2)
+      : await SaveManager.exportSave(gameState);
+    return new File([content], `${name}.${format}`, { type: format === 'json' ? 'application/json' : 'text/plain' });
+  }
 
-    // Log offline progress
-    if (xpGained > 0 || offlineStones > 0) {
-      addLog(
-        gameState,
-        `⏰ Offline: ${formatTime(elapsedSeconds)} — ${xpGained > 0 ? `+${formatNumber(xpGained)} XP` : ''}${offlineStones > 0 ? ` +${offlineStones} 💎` : ''}`,
-        'system'
-      );
+  /** Imports a `.icsave` or `.json` file through the same checks as a pasted string. */
+  static async importFile(file: File): Promise<GameState> {
+    if (file.size > 5 * 1024 * 1024) throw new Error(`${file.name} is too large to be a save file.`);
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      throw new Error(`${file.name} could not be read.`);
     }
+    return SaveManager.importSave(text);
+  }
 
-    // Update timestamps
-    gameState.lastSaveTimestamp = now;
-    gameState.totalPlayTime += elapsedSeconds;
+  // ========== OFFLINE PROGRESS ==========
+  /**
+   * Catches the save up on the time since it was written by replaying the
+   * tick loop. The report is null when too little time passed to bother.
+   */
+  static calculateOfflineProgress(gameState: GameState): { state: GameState; report: OfflineReport | null } {
+    const now = Date.now();
+    const secondsAway = Math.floor((now - gameState.lastSaveTimestamp) / 1000);
+
+    // Skip if less than 5 seconds elapsed, or if the cultivator is dead and waiting in Samsara
+    if (secondsAway < 5 || gameState.gamePhase !== 'playing') return { state: gameState, report: null };
+
+    const { state, report } = OfflineEngine.replay(gameState, secondsAway);
+
+    // Grant small spirit stone offline bonus
+    const offlineStones = Math.floor(report.secondsReplayed / 600); // 1 per 10 minutes
+    if (offlineStones > 0) {
+      state.spiritStones += offlineStones;
+      report.stonesGained += offlineStones;
+    }
 
-    return gameState;
+    addLog(state, `⏰ Offline: ${formatTime(report.secondsReplayed)} replayed${report.secondsReplayed < secondsAway ? ` of ${formatTime(secondsAway)} away` : ''}`, 'system');
+    state.lastSaveTimestamp = now;
+    return { state, report };
   }
 
   // ========== DELETE ==========
-  static deleteSave(): void {
-    localStorage.removeItem(SAVE_KEY);
+  /** Deletes the active slot. */
+  static deleteSave(): Promise<void> {
+    return SaveManager.serial(async storage => {
+      const slotId = (await SaveManager.readIndex(storage)).activeSlotId;
+      if (slotId) await SaveManager.removeSlot(storage, slotId);
+    });
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * Key-value backends SaveManager can persist to. Every call is async so a
+ * slow backend never blocks the game loop.
+ */
+export interface SaveStorage {
+  getItem(key: string): Promise<string | null>;
+  /** Rejects when the backend is full or unavailable. */
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// ========== LOCAL STORAGE ==========
+/** The browser's localStorage: small quota, synchronous underneath. */
+export class LocalStorageAdapter implements SaveStorage {
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)!);
+  }
+}
+
+// ========== INDEXEDDB ==========
+const IDB_NAME = 'incremental_cultivation';
+const IDB_STORE = 'saves';
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** A single object store of strings; far larger quota than localStorage. */
+export class IndexedDbStorage implements SaveStorage {
+  private constructor(private db: IDBDatabase) {}
+
+  /** Opens (creating on first use) the save database. */
+  static async open(name: string = IDB_NAME): Promise<IndexedDbStorage> {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+    return new IndexedDbStorage(await settle(request));
+  }
+
+  private store(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await settle(this.store('readonly').get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await settle(this.store('readwrite').put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await settle(this.store('readwrite').delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    return (await settle(this.store('readonly').getAllKeys())).map(String);
+  }
+}
+
+// ========== MEMORY ==========
+/** Lives only as long as the page; for tests and headless runs. */
+export class MemoryStorage implements SaveStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.items.keys()];
+  }
+}
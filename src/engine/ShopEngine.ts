@@ -0,0 +1,51 @@
+import type { GameState, Item, Region } from '../data/types';
+import { REGIONS, ITEMS, SHOP_ITEMS_BY_REALM, SHOP_PRICE_MULTIPLIER } from '../data/constants';
+import { addLog, addItemToInventory, removeItemFromInventory } from './gameState';
+
+export class ShopEngine {
+  // ========== ACCESS ==========
+  /** The region whose shop is open to you, or null while traveling or in the wilds. */
+  static getShopRegion(state: GameState): Region | null {
+    if (state.travelState.traveling) return null;
+    const region = REGIONS.find(r => r.id === state.currentLocationId);
+    return region && (region.hasShop || region.isCity) ? region : null;
+  }
+
+  static getShopItems(region: Region): Item[] {
+    return (SHOP_ITEMS_BY_REALM[region.realm] || []).map(id => ITEMS[id]).filter(Boolean);
+  }
+
+  /** Shops sell at three times the sell value, scaled by realm and any background discount. */
+  static getPrice(state: GameState, region: Region, item: Item): number {
+    const priceMultiplier = SHOP_PRICE_MULTIPLIER[region.realm] || 1;
+    const discount = state.character.background.bonusEffect.shopDiscount || 0;
+    return Math.floor(item.sellValue * 3 * priceMultiplier * (1 - discount));
+  }
+
+  // ========== TRADING ==========
+  static buyItem(state: GameState, itemId: string): boolean {
+    const region = ShopEngine.getShopRegion(state);
+    if (!region) return false;
+    const item = ShopEngine.getShopItems(region).find(i => i.id === itemId);
+    if (!item) return false;
+
+    const price = ShopEngine.getPrice(state, region, item);
+    if (state.spiritStones < price) return false;
+
+    state.spiritStones -= price;
+    addItemToInventory(state, item);
+    addLog(state, `🏪 Bought ${item.name} for ${price} 💎`, 'info');
+    return true;
+  }
+
+  static sellItem(state: GameState, itemId: string): boolean {
+    if (!ShopEngine.getShopRegion(state)) return false;
+    const item = state.inventory.find(i => i.id === itemId);
+    if (!item || item.sellValue === 0) return false;
+
+    state.spiritStones += item.sellValue;
+    removeItemFromInventory(state, itemId);
+    addLog(state, `🏪 Sold ${item.name} for ${item.sellValue} 💎`, 'info');
+    return true;
+  }
+}
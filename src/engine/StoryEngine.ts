@@ -0,0 +1,85 @@
+import type { GameState, ChainStep, Storyline, ActiveStoryline } from '../data/types';
+import { STORYLINES, GAME_EVENTS } from '../data/constants';
+import { addLog } from './gameState';
+
+export class StoryEngine {
+  // ========== LOOKUP ==========
+  static getStoryline(storylineId: string): Storyline | undefined {
+    return STORYLINES.find(s => s.id === storylineId);
+  }
+
+  static isActive(state: GameState, storylineId: string | undefined): boolean {
+    if (!storylineId) return false;
+    return (state.activeStorylines || []).some(s => s.storylineId === storylineId);
+  }
+
+  static hasFlags(state: GameState, flags: string[] | undefined): boolean {
+    if (!flags) return true;
+    return flags.every(f => (state.storyFlags || []).includes(f));
+  }
+
+  static setFlags(state: GameState, flags: string[]): void {
+    const current = state.storyFlags || [];
+    state.storyFlags = [...current, ...flags.filter(f => !current.includes(f))];
+  }
+
+  // ========== ADVANCING ==========
+  /** Records a journal entry and schedules the next event, or completes the storyline. */
+  static advance(state: GameState, step: ChainStep): void {
+    const storyline = StoryEngine.getStoryline(step.storylineId);
+    const storylines = state.activeStorylines || [];
+    let active = storylines.find(s => s.storylineId === step.storylineId);
+    if (!active) {
+      active = { storylineId: step.storylineId, journal: [], nextEventId: null, regionId: null, remainingSeconds: 0 };
+      state.activeStorylines = [...storylines, active];
+      addLog(state, `📜 New storyline: ${storyline?.icon || ''} ${storyline?.name || step.storylineId}`, 'legendary');
+    }
+    active.journal.push(step.journal);
+
+    if (!step.nextEventId) {
+      state.activeStorylines = state.activeStorylines.filter(s => s.storylineId !== step.storylineId);
+      const completed = state.completedStorylines || [];
+      if (!completed.includes(step.storylineId)) state.completedStorylines = [...completed, step.storylineId];
+      addLog(state, `📜 Storyline complete: ${storyline?.name || step.storylineId}`, 'legendary');
+      return;
+    }
+
+    active.nextEventId = step.nextEventId;
+    active.regionId = step.regionId || null;
+    active.remainingSeconds = step.delaySeconds || 0;
+  }
+
+  // ========== TICK ==========
+  static isReady(state: GameState, active: ActiveStoryline): boolean {
+    if (!active.nextEventId || active.remainingSeconds > 0) return false;
+    if (state.travelState.traveling) return false;
+    return !active.regionId || active.regionId === state.currentLocationId;
+  }
+
+  /** Raises the next event of the first ready storyline, if nothing else is on screen. */
+  static triggerReady(state: GameState): void {
+    if (state._pendingEvent || state.combat) return;
+    const ready = (state.activeStorylines || []).find(s => StoryEngine.isReady(state, s));
+    if (!ready) return;
+
+    // nextEventId stays set until the event is resolved, so an event that is
+    // dropped before then is simply raised again
+    const event = GAME_EVENTS.find(e => e.id === ready.nextEventId);
+    if (event) state._pendingEvent = event;
+    else ready.nextEventId = null;
+  }
+
+  /** The storyline step that raised this event has been answered. */
+  static completeStep(state: GameState, eventId: string): void {
+    for (const active of state.activeStorylines || []) {
+      if (active.nextEventId === eventId) active.nextEventId = null;
+    }
+  }
+
+  static processStorylines(state: GameState): void {
+    for (const active of state.activeStorylines || []) {
+      if (active.remainingSeconds > 0) active.remainingSeconds--;
+    }
+    StoryEngine.triggerReady(state);
+  }
+}
@@ -0,0 +1,91 @@
+import type { GameState, Technique } from '../data/types';
+import { TECHNIQUES, TIER_TRANSITION_LEVELS, ITEMS } from '../data/constants';
+import { addLog, getEquippedTechniques, checkPathUnlocks } from './gameState';
+
+export class TechniqueEngine {
+  // ========== LOOKUP ==========
+  static getTechnique(techniqueId: string): Technique | undefined {
+    return TECHNIQUES.find(t => t.id === techniqueId);
+  }
+
+  static isLearned(state: GameState, techniqueId: string): boolean {
+    return (state.learnedTechniques || []).includes(techniqueId);
+  }
+
+  static getLearned(state: GameState): Technique[] {
+    return TECHNIQUES.filter(t => TechniqueEngine.isLearned(state, t.id));
+  }
+
+  /** One passive slot opens for each tier transition your highest path has crossed. */
+  static getPassiveSlots(state: GameState): number {
+    return TIER_TRANSITION_LEVELS.filter(level => state.highestPathLevel > level).length;
+  }
+
+  // ========== EFFECT AGGREGATION ==========
+  static getTrainingXpMultiplier(state: GameState): number {
+    return getEquippedTechniques(state).reduce((m, t) => m * (t.effects.trainingXpMultiplier || 1), 1);
+  }
+
+  static getCombatDamageMultiplier(state: GameState): number {
+    return getEquippedTechniques(state).reduce((m, t) => m * (t.effects.combatDamageMultiplier || 1), 1);
+  }
+
+  // ========== LEARNING ==========
+  static learnTechnique(state: GameState, techniqueId: string): boolean {
+    const technique = TechniqueEngine.getTechnique(techniqueId);
+    if (!technique || TechniqueEngine.isLearned(state, techniqueId)) return false;
+
+    state.learnedTechniques = [...(state.learnedTechniques || []), techniqueId];
+    addLog(state, `${technique.icon} Learned ${technique.kind === 'martial' ? 'martial technique' : 'passive'}: ${technique.name}!`, 'success');
+    return true;
+  }
+
+  /** Studies a technique manual. The manual is kept, so it can still be sold. */
+  static studyScripture(state: GameState, itemId: string): boolean {
+    if (!state.inventory.some(i => i.id === itemId)) return false;
+    const techniqueId = ITEMS[itemId]?.effects.teachesTechnique;
+    if (!techniqueId) return false;
+    return TechniqueEngine.learnTechnique(state, techniqueId);
+  }
+
+  // ========== EQUIPPING ==========
+  /** Sets the cultivation method; scriptures can open the paths they teach. */
+  static equipScripture(state: GameState, itemId: string): boolean {
+    const item = state.inventory.find(i => i.id === itemId);
+    if (!item || item.category !== 'scripture') return false;
+    state.equippedScripture = itemId;
+    addLog(state, `📖 Equipped: ${item.name}`, 'success');
+    checkPathUnlocks(state);
+    return true;
+  }
+
+  static equipMartial(state: GameState, techniqueId: string | null): boolean {
+    if (techniqueId !== null) {
+      const technique = TechniqueEngine.getTechnique(techniqueId);
+      if (!technique || technique.kind !== 'martial' || !TechniqueEngine.isLearned(state, techniqueId)) return false;
+      addLog(state, `${technique.icon} Equipped: ${technique.name}`, 'success');
+    }
+    state.equippedMartialTechnique = techniqueId;
+    return true;
+  }
+
+  static equipPassive(state: GameState, techniqueId: string): boolean {
+    const technique = TechniqueEngine.getTechnique(techniqueId);
+    if (!technique || technique.kind !== 'passive' || !TechniqueEngine.isLearned(state, techniqueId)) return false;
+
+    const passives = state.equippedPassives || [];
+    if (passives.includes(techniqueId)) return false;
+    if (passives.length >= TechniqueEngine.getPassiveSlots(state)) return false;
+
+    state.equippedPassives = [...passives, techniqueId];
+    addLog(state, `${technique.icon} Equipped passive: ${technique.name}`, 'success');
+    return true;
+  }
+
+  static unequipPassive(state: GameState, techniqueId: string): boolean {
+    const passives = state.equippedPassives || [];
+    if (!passives.includes(techniqueId)) return false;
+    state.equippedPassives = passives.filter(id => id !== techniqueId);
+    return true;
+  }
+}
@@ -0,0 +1,247 @@
+import type { GameState, Region, RoutePreference, TravelHazard } from '../data/types';
+import {
+  REGIONS, TRAVEL_BASE_SECONDS, TRAVEL_SECONDS_PER_DANGER, TRAVEL_SECONDS_PER_MAP_UNIT,
+  TRAVEL_SAFE_ROUTE_DANGER_WEIGHT, TRAVEL_LAYOVER_SECONDS, TRAVEL_HAZARD_CHANCE, TRAVEL_HAZARD_TERRAIN,
+  TRAVEL_HAZARD_EVENTS, TRAVEL_AMBUSH_MIN_FACTOR, ENEMY_POWER_PER_DANGER, GAME_EVENTS,
+} from '../data/constants';
+import { addLog, calculatePower, formatTime } from './gameState';
+import { FormationEngine } from './FormationEngine';
+import { RealmEngine } from './RealmEngine';
+import { randomPick, rateChance } from '../utils/random';
+
+const HAZARDS: TravelHazard[] = ['ambush', 'merchant', 'weather'];
+
+export class TravelEngine {
+  // ========== TRAVEL TIME ==========
+  /** Straight-line distance between two regions on the world map. */
+  static getDistance(from: Region, to: Region): number {
+    return Math.hypot(to.mapPosition.x - from.mapPosition.x, to.mapPosition.y - from.mapPosition.y);
+  }
+
+  /** One leg's length; a Road-Warding Array at the leg's origin shortens it. */
+  static getTravelTime(state: GameState, target: Region, from: string = state.currentLocationId): number {
+    const origin = REGIONS.find(r => r.id === from);
+    const distance = origin ? TravelEngine.getDistance(origin, target) : 0;
+    const baseTime = TRAVEL_BASE_SECONDS + target.dangerLevel * TRAVEL_SECONDS_PER_DANGER + distance * TRAVEL_SECONDS_PER_MAP_UNIT;
+    const ward = FormationEngine.getWardStrength(state, from);
+    return Math.max(10, Math.floor(baseTime * (1 - ward)));
+  }
+
+  // ========== ROUTES ==========
+  /** What a leg costs the planner: its travel time, inflated by danger on 'safest' routes. */
+  static getLegCost(state: GameState, target: Region, from: string, preference: RoutePreference): number {
+    const time = TravelEngine.getTravelTime(state, target, from);
+    return preference === 'safest' ? time * (1 + target.dangerLevel * TRAVEL_SAFE_ROUTE_DANGER_WEIGHT) : time;
+  }
+
+  /**
+   * Cheapest route under the player's route preference, through regions
+   * already discovered and realm gates already open. Returns the regions to visit in order (excluding the
+   * start), [] when already there, or null when no known route exists.
+   */
+  static findRoute(
+    state: GameState,
+    targetId: string,
+    from: string = state.currentLocationId,
+    preference: RoutePreference = state.travelState.preference || 'fastest',
+  ): string[] | null {
+    if (targetId === from) return [];
+    const known = new Set([...state.discoveredRegions, from]);
+    if (!known.has(targetId)) return null;
+
+    // Dijkstra; the map is small enough for a linear scan of the frontier
+    const cost: Record<string, number> = { [from]: 0 };
+    const previous: Record<string, string> = {};
+    const done = new Set<string>();
+    for (;;) {
+      const current = Object.keys(cost)
+        .filter(id => !done.has(id))
+        .sort((a, b) => cost[a] - cost[b])[0];
+      if (!current) return null;
+      if (current === targetId) break;
+      done.add(current);
+
+      const region = REGIONS.find(r => r.id === current);
+      for (const nextId of region?.connections || []) {
+        const next = REGIONS.find(r => r.id === nextId);
+        if (!region || !next || !known.has(nextId) || done.has(nextId) || !RealmEngine.canCross(state, region, next)) continue;
+        const arrival = cost[current] + TravelEngine.getLegCost(state, next, current, preference);
+        if (cost[nextId] === undefined || arrival < cost[nextId]) {
+          cost[nextId] = arrival;
+          previous[nextId] = current;
+        }
+      }
+    }
+
+    const route: string[] = [];
+    for (let id = targetId; id !== from; id = previous[id]) route.unshift(id);
+    return route;
+  }
+
+  /** Seconds for a whole route, leg by leg. */
+  static getRouteTime(state: GameState, route: string[], from: string = state.currentLocationId): number {
+    let total = 0;
+    let origin = from;
+    for (const id of route) {
+      const target = REGIONS.find(r => r.id === id);
+      if (target) total += TravelEngine.getTravelTime(state, target, origin);
+      origin = id;
+    }
+    return total;
+  }
+
+  // ========== SETTINGS ==========
+  static setPreference(state: GameState, preference: RoutePreference): void {
+    state.travelState.preference = preference;
+  }
+
+  static toggleAutoExplore(state: GameState): void {
+    state.travelState.autoExplore = !state.travelState.autoExplore;
+  }
+
+  // ========== JOURNEYS ==========
+  /** On the road or exploring a waypoint, with more of the itinerary to come. */
+  static isOnJourney(state: GameState): boolean {
+    return state.travelState.traveling || state.travelState.layoverSeconds > 0;
+  }
+
+  /** Where the itinerary ends, or null when not on a journey. */
+  static getFinalDestination(state: GameState): string | null {
+    if (!TravelEngine.isOnJourney(state)) return null;
+    const { route, destinationId } = state.travelState;
+    return route[route.length - 1] || destinationId || state.currentLocationId;
+  }
+
+  /**
+   * Sets off for any known region, queueing every leg of the route after the
+   * first. Mid-journey, the new destination is appended to the itinerary,
+   * routed from wherever the itinerary currently ends.
+   */
+  static travelTo(state: GameState, regionId: string): boolean {
+    const onJourney = TravelEngine.isOnJourney(state);
+    const from = TravelEngine.getFinalDestination(state) || state.currentLocationId;
+    const route = TravelEngine.findRoute(state, regionId, from);
+    if (!route || route.length === 0) return false;
+    const target = REGIONS.find(r => r.id === regionId);
+
+    if (onJourney) {
+      state.travelState.route.push(...route);
+      addLog(state, `🧭 ${target?.name} added to the itinerary (${formatTime(TravelEngine.getRouteTime(state, route, from))})`, 'info');
+      return true;
+    }
+
+    const [first, ...rest] = route;
+    if (!TravelEngine.startLeg(state, first)) return false;
+    state.travelState.route = rest;
+    if (rest.length > 0) {
+      addLog(state, `🧭 Route to ${target?.name} planned: ${route.length} legs, ${formatTime(TravelEngine.getRouteTime(state, route))}`, 'info');
+    }
+    return true;
+  }
+
+  /** Drops the rest of the itinerary: the leg under way is finished, a waypoint stop ends now. */
+  static cancelRoute(state: GameState): boolean {
+    if (!TravelEngine.isOnJourney(state) || (state.travelState.route.length === 0 && !state.travelState.layoverSeconds)) return false;
+    state.travelState.route = [];
+    state.travelState.layoverSeconds = 0;
+    addLog(state, state.travelState.traveling
+      ? '🧭 Route cancelled; you will stop at the next region.'
+      : '🧭 Route cancelled; you stay here.', 'info');
+    return true;
+  }
+
+  private static startLeg(state: GameState, regionId: string): boolean {
+    const origin = REGIONS.find(r => r.id === state.currentLocationId);
+    const target = REGIONS.find(r => r.id === regionId);
+    if (!origin || !target || !origin.connections.includes(regionId) || !RealmEngine.canCross(state, origin, target)) return false;
+
+    const travelTime = TravelEngine.getTravelTime(state, target);
+    state.travelState = { ...state.travelState, traveling: true, destinationId: regionId, remainingSeconds: travelTime, layoverSeconds: 0 };
+    addLog(state, `🗺️ Traveling to ${target.name}... (${formatTime(travelTime)})`, 'info');
+    return true;
+  }
+
+  // ========== HAZARDS ==========
+  /**
+   * Per-second odds of each hazard on a leg into the given region. Ambushes
+   * scale with danger, and fade once the player outclasses the local enemies.
+   */
+  static getHazardChance(state: GameState, region: Region, hazard: TravelHazard): number {
+    const terrain = TRAVEL_HAZARD_TERRAIN[region.terrain]?.[hazard] ?? 1;
+    const chance = TRAVEL_HAZARD_CHANCE[hazard] * terrain;
+    if (hazard !== 'ambush') return chance;
+
+    const enemyPower = ENEMY_POWER_PER_DANGER * Math.pow(region.dangerLevel, 1.5);
+    const deterrence = Math.min(1, Math.max(TRAVEL_AMBUSH_MIN_FACTOR, enemyPower / Math.max(1, calculatePower(state))));
+    return chance * region.dangerLevel * deterrence;
+  }
+
+  /** At most one hazard a second, raised as a pending event. */
+  private static rollHazards(state: GameState, region: Region): void {
+    for (const hazard of HAZARDS) {
+      if (!rateChance(state.rng, TravelEngine.getHazardChance(state, region, hazard))) continue;
+      const event = GAME_EVENTS.find(e => e.id === randomPick(state.rng, TRAVEL_HAZARD_EVENTS[hazard]));
+      if (event) state._pendingEvent = event;
+      return;
+    }
+  }
+
+  // ========== TICKS ==========
+  /**
+   * One second of travel. The road stops while a hazard or fight is being
+   * dealt with. Arriving discovers the region's neighbours, then either stops
+   * to explore (auto-explore, waypoints only) or sets off on the next queued
+   * leg. Live play and offline replay both arrive through here.
+   */
+  static tickTravel(state: GameState): void {
+    if (state._pendingEvent || state.combat) return;
+    const destination = REGIONS.find(r => r.id === state.travelState.destinationId);
+    if (destination) TravelEngine.rollHazards(state, destination);
+    if (state._pendingEvent) return;
+
+    state.travelState.remainingSeconds--;
+    if (state.travelState.remainingSeconds > 0) return;
+
+    state.travelState.traveling = false;
+    state.wildBeast = null;
+    if (state.travelState.destinationId) {
+      const previousRules = RealmEngine.getCurrentRules(state);
+      state.currentLocationId = state.travelState.destinationId;
+      if (!state.discoveredRegions.includes(state.currentLocationId)) {
+        state.discoveredRegions.push(state.currentLocationId);
+      }
+      const region = REGIONS.find(r => r.id === state.currentLocationId);
+      if (region) {
+        addLog(state, `🗺️ Arrived at ${region.name}`, 'success');
+        const rules = RealmEngine.getCurrentRules(state);
+        if (rules !== previousRules) addLog(state, `${rules.icon} You enter the ${rules.name}. ${rules.ambient}`, 'legendary');
+        region.connections.forEach(c => {
+          if (!state.discoveredRegions.includes(c)) {
+            state.discoveredRegions.push(c);
+          }
+        });
+      }
+    }
+    state.travelState.destinationId = null;
+
+    if (state.travelState.route.length > 0 && state.travelState.autoExplore) {
+      state.travelState.layoverSeconds = TRAVEL_LAYOVER_SECONDS;
+      addLog(state, `🔍 Exploring the waypoint for ${formatTime(TRAVEL_LAYOVER_SECONDS)} before moving on`, 'info');
+      return;
+    }
+    TravelEngine.continueRoute(state);
+  }
+
+  /** One second exploring a waypoint; fights pause the clock. */
+  static tickLayover(state: GameState): void {
+    if (state.travelState.layoverSeconds <= 0 || state.combat) return;
+    state.travelState.layoverSeconds--;
+    if (state.travelState.layoverSeconds <= 0) TravelEngine.continueRoute(state);
+  }
+
+  private static continueRoute(state: GameState): void {
+    const [next, ...rest] = state.travelState.route;
+    state.travelState.route = rest;
+    if (next && !TravelEngine.startLeg(state, next)) state.travelState.route = [];
+  }
+}
@@ -0,0 +1,273 @@
+import type { GameState, RngState, BreakthroughResult } from '../data/types';
+import { rollCharacter, createInitialGameState, startTribulation } from '../engine/gameState';
+import { GameEngine } from '../engine/GameEngine';
+import { ActionEngine } from '../engine/ActionEngine';
+import { createRng, random } from '../utils/random';
+import type { SimPolicy } from './policies';
+
+// ========== REPORT SHAPES ==========
+export interface SimOptions {
+  policy: SimPolicy;
+  hours: number;
+  seed: number;
+  name?: string;
+}
+
+/** First moment a path reached a level during the run. */
+export interface LevelMilestone {
+  pathId: string;
+  level: number;
+  second: number;
+  life: number;
+}
+
+export interface SimSample {
+  hour: number;
+  life: number;
+  deaths: number;
+  spiritStones: number;
+  stonesEarned: number;
+  highestPathLevel: number;
+  activePathId: string | null;
+  activeLevel: number;
+}
+
+export interface SimRun {
+  seed: number;
+  secondsSimulated: number;
+  lives: number;
+  deaths: { breakthrough: number; tribulation: number };
+  breakthroughs: Record<BreakthroughResult['outcome'], number>;
+  stonesEarned: number;
+  stonesPerHour: number;
+  deathsPerHour: number;
+  /** Deaths per breakthrough attempt, tribulations included. */
+  deathRate: number;
+  endedByDeath: boolean;
+  milestones: LevelMilestone[];
+  samples: SimSample[];
+}
+
+export interface SimSummary {
+  runs: number;
+  meanStonesPerHour: number;
+  meanDeathsPerHour: number;
+  meanDeathRate: number;
+  /** Mean seconds to first reach each level, over the runs that reached it. */
+  timeToLevel: Record<string, { level: number; meanSeconds: number; reachedBy: number }[]>;
+}
+
+export interface SimReport {
+  policy: { id: string; description: string };
+  hours: number;
+  runs: SimRun[];
+  summary: SimSummary;
+}
+
+/**
+ * Headless balance simulator. Feeds ActionEngine one tick per second and
+ * stands in for the player with a scripted policy. Never touches React or storage.
+ */
+export class Simulator {
+  // ========== RUNNING ==========
+  static run(options: SimOptions): SimRun {
+    const { policy } = options;
+    const totalSeconds = Math.floor(options.hours * 3600);
+    const rng = createRng(options.seed);
+    // Player reflexes draw from their own stream so the game's rolls stay comparable across policies
+    const playerRng = createRng(options.seed ^ 0x9E3779B9);
+
+    let state = createInitialGameState(rollCharacter(options.name || 'Simulated Cultivator', rng), rng);
+    const run: SimRun = {
+      seed: options.seed,
+      secondsSimulated: 0,
+      lives: 1,
+      deaths: { breakthrough: 0, tribulation: 0 },
+      breakthroughs: { success: 0, minor_setback: 0, qi_deviation: 0, crippling_injury: 0, death: 0 },
+      stonesEarned: 0,
+      stonesPerHour: 0,
+      deathsPerHour: 0,
+      deathRate: 0,
+      endedByDeath: false,
+      milestones: [],
+      samples: [],
+    };
+    const bestLevels: Record<string, number> = {};
+
+    for (let second = 1; second <= totalSeconds; second++) {
+      const stonesBefore = state.spiritStones;
+      Simulator.resolveInterruptions(state, policy);
+
+      const { action, pathId } = policy.chooseAction(state);
+      state.currentAction = action;
+      if (pathId) state.activePathId = pathId;
+
+      const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+      if (pp?.breakthroughAvailable && policy.breakthroughWhenReady) {
+        if (Simulator.breakthrough(state, policy, playerRng, run)) {
+          if (!policy.rebirthOnDeath) {
+            run.endedByDeath = true;
+            run.secondsSimulated = second;
+            break;
+          }
+          ActionEngine.perform(state, { type: 'rebirth' });
+          state = ActionEngine.perform(state, { type: 'reincarnate' })!;
+          run.lives++;
+          Simulator.recordSample(run, state, second);
+          continue;
+        }
+      }
+
+      ActionEngine.perform(state, { type: 'tick', clickBoost: false });
+      run.stonesEarned += Math.max(0, state.spiritStones - stonesBefore);
+      run.secondsSimulated = second;
+
+      for (const progress of Object.values(state.pathProgress)) {
+        if (progress.currentLevel > (bestLevels[progress.pathId] || 1)) {
+          bestLevels[progress.pathId] = progress.currentLevel;
+          run.milestones.push({ pathId: progress.pathId, level: progress.currentLevel, second, life: run.lives });
+        }
+      }
+      if (second % 3600 === 0) Simulator.recordSample(run, state, second);
+    }
+
+    const hours = run.secondsSimulated / 3600 || 1;
+    const deaths = run.deaths.breakthrough + run.deaths.tribulation;
+    const attempts = Object.values(run.breakthroughs).reduce((s, n) => s + n, 0) + run.deaths.tribulation;
+    run.stonesPerHour = run.stonesEarned / hours;
+    run.deathsPerHour = deaths / hours;
+    run.deathRate = attempts > 0 ? deaths / attempts : 0;
+    return run;
+  }
+
+  /** Runs the policy once per seed, starting at `seed` and counting up. */
+  static runMany(options: SimOptions, runs: number): SimReport {
+    const results: SimRun[] = [];
+    for (let i = 0; i < runs; i++) {
+      results.push(Simulator.run({ ...options, seed: options.seed + i }));
+    }
+    return {
+      policy: { id: options.policy.id, description: options.policy.description },
+      hours: options.hours,
+      runs: results,
+      summary: Simulator.summarize(results),
+    };
+  }
+
+  // ========== PLAYER STAND-IN ==========
+  /** Answers whatever the UI would have put in front of the player. */
+  private static resolveInterruptions(state: GameState, policy: SimPolicy): void {
+    const event = state._pendingEvent;
+    if (event && !ActionEngine.perform(state, { type: 'event_choice', choiceIdx: policy.chooseEventOption(state, event) })) {
+      state._pendingEvent = null;
+    }
+
+    if (state.combat) ActionEngine.perform(state, { type: 'combat', action: policy.chooseCombatAction(state) });
+
+    if (state.wildBeast) {
+      if (!policy.tameBeasts || !ActionEngine.perform(state, { type: 'tame_beast' })) {
+        ActionEngine.perform(state, { type: 'ignore_beast' });
+      }
+    }
+  }
+
+  /**
+   * Mirrors the Cultivation tab: tier transitions face a tribulation first,
+   * then the breakthrough action runs. Returns true if the cultivator died.
+   */
+  private static breakthrough(state: GameState, policy: SimPolicy, playerRng: RngState, run: SimRun): boolean {
+    const pp = state.pathProgress[state.activePathId!];
+    let survivedHpRatio: number | undefined;
+
+    if (GameEngine.isTierTransition(pp.currentLevel)) {
+      ActionEngine.perform(state, { type: 'begin_tribulation' });
+      const tribulation = startTribulation(state);
+      let hp = tribulation.hp;
+      for (let strike = 0; strike < tribulation.strikes && hp > 0; strike++) {
+        if (random(playerRng) >= policy.tribulationReflex) hp -= Math.floor(tribulation.maxHp * tribulation.strikeDamage);
+      }
+      if (hp <= 0) {
+        run.deaths.tribulation++;
+        return true;
+      }
+      survivedHpRatio = hp / tribulation.maxHp;
+    }
+
+    ActionEngine.perform(state, { type: 'breakthrough', survivedHpRatio });
+    const result = state.lastBreakthrough!;
+    run.breakthroughs[result.outcome]++;
+    if (result.outcome === 'death') {
+      run.deaths.breakthrough++;
+      return true;
+    }
+    return false;
+  }
+
+  // ========== METRICS ==========
+  private static recordSample(run: SimRun, state: GameState, second: number): void {
+    const pp = state.activePathId ? state.pathProgress[state.activePathId] : null;
+    run.samples.push({
+      hour: second / 3600,
+      life: run.lives,
+      deaths: run.deaths.breakthrough + run.deaths.tribulation,
+      spiritStones: state.spiritStones,
+      stonesEarned: run.stonesEarned,
+      highestPathLevel: state.highestPathLevel,
+      activePathId: state.activePathId,
+      activeLevel: pp?.currentLevel || 0,
+    });
+  }
+
+  static summarize(runs: SimRun[]): SimSummary {
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+
+    const reached: Record<string, Record<number, number[]>> = {};
+    for (const run of runs) {
+      for (const m of run.milestones) {
+        reached[m.pathId] = reached[m.pathId] || {};
+        (reached[m.pathId][m.level] = reached[m.pathId][m.level] || []).push(m.second);
+      }
+    }
+
+    const timeToLevel: SimSummary['timeToLevel'] = {};
+    for (const [pathId, levels] of Object.entries(reached)) {
+      timeToLevel[pathId] = Object.entries(levels)
+        .map(([level, seconds]) => ({ level: Number(level), meanSeconds: Math.round(mean(seconds)), reachedBy: seconds.length }))
+        .sort((a, b) => a.level - b.level);
+    }
+
+    return {
+      runs: runs.length,
+      meanStonesPerHour: mean(runs.map(r => r.stonesPerHour)),
+      meanDeathsPerHour: mean(runs.map(r => r.deathsPerHour)),
+      meanDeathRate: mean(runs.map(r => r.deathRate)),
+      timeToLevel,
+    };
+  }
+
+  // ========== CSV ==========
+  /** One row per level milestone, for plotting time-to-level curves. */
+  static toCurvesCsv(report: SimReport): string {
+    const rows = ['policy,seed,path,level,second,hour,life'];
+    for (const run of report.runs) {
+      for (const m of run.milestones) {
+        rows.push([report.policy.id, run.seed, m.pathId, m.level, m.second, (m.second / 3600).toFixed(3), m.life].join(','));
+      }
+    }
+    return rows.join('\n') + '\n';
+  }
+
+  /** One row per simulated hour and per rebirth: deaths and spirit stone income over time. */
+  static toTimelineCsv(report: SimReport): string {
+    const rows = ['policy,seed,hour,life,deaths,spirit_stones,stones_earned,highest_level,active_path,active_level'];
+    for (const run of report.runs) {
+      for (const s of run.samples) {
+        rows.push([
+          report.policy.id, run.seed, s.hour.toFixed(3), s.life, s.deaths, s.spiritStones,
+          s.stonesEarned, s.highestPathLevel, s.activePathId || '', s.activeLevel,
+        ].join(','));
+      }
+    }
+    return rows.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Headless balance simulator entry point.
+ *
+ *   npm run simulate -- --policy cultivate --hours 24 --runs 10 --seed 1
+ *   npm run simulate -- --format csv --table curves --out curves.csv
+ *   npm run simulate -- --list
+ */
+
+import { writeFileSync } from 'fs';
+import { SIM_POLICIES } from './policies';
+import { Simulator } from './Simulator';
+
+interface CliArgs {
+  policy: string;
+  hours: number;
+  runs: number;
+  seed: number;
+  format: 'json' | 'csv';
+  table: 'curves' | 'timeline';
+  out: string | null;
+  list: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    policy: 'cultivate', hours: 24, runs: 1, seed: 1,
+    format: 'json', table: 'curves', out: null, list: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--policy': args.policy = value; i++; break;
+      case '--hours': args.hours = Number(value); i++; break;
+      case '--runs': args.runs = Math.max(1, Math.floor(Number(value))); i++; break;
+      case '--seed': args.seed = Math.floor(Number(value)); i++; break;
+      case '--format': args.format = value === 'csv' ? 'csv' : 'json'; i++; break;
+      case '--table': args.table = value === 'timeline' ? 'timeline' : 'curves'; i++; break;
+      case '--out': args.out = value; i++; break;
+      case '--list': args.list = true; break;
+      default: throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  if (!Number.isFinite(args.hours) || args.hours <= 0) throw new Error('--hours must be a positive number');
+  if (!Number.isFinite(args.seed)) throw new Error('--seed must be an integer');
+  return args;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.list) {
+    SIM_POLICIES.forEach(p => console.log(`${p.id.padEnd(12)} ${p.description}`));
+    return;
+  }
+
+  const policy = SIM_POLICIES.find(p => p.id === args.policy);
+  if (!policy) throw new Error(`Unknown policy "${args.policy}". Try --list.`);
+
+  const report = Simulator.runMany({ policy, hours: args.hours, seed: args.seed }, args.runs);
+  const output = args.format === 'json'
+    ? JSON.stringify(report, null, 2) + '\n'
+    : args.table === 'timeline' ? Simulator.toTimelineCsv(report) : Simulator.toCurvesCsv(report);
+
+  if (args.out) {
+    writeFileSync(args.out, output);
+    console.error(`Wrote ${args.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main();
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,84 @@
+import type { GameState, ActionType, CombatAction, GameEvent } from '../data/types';
+import { PATHS } from '../data/constants';
+import { EventEngine } from '../engine/EventEngine';
+
+// ========== POLICY SHAPE ==========
+export interface SimPolicy {
+  id: string;
+  description: string;
+  /** Picks the action and active path for the coming second. */
+  chooseAction: (state: GameState) => { action: ActionType; pathId: string | null };
+  breakthroughWhenReady: boolean;
+  /** Chance of resisting each tribulation strike, standing in for the player's reflexes. */
+  tribulationReflex: number;
+  chooseEventOption: (state: GameState, event: GameEvent) => number;
+  chooseCombatAction: (state: GameState) => CombatAction;
+  tameBeasts: boolean;
+  /** When false the run ends at the first death instead of rolling a new life. */
+  rebirthOnDeath: boolean;
+}
+
+// ========== SHARED DECISIONS ==========
+/** The furthest-along unlocked path fed by the given action. */
+function bestPathFor(state: GameState, action: ActionType): string | null {
+  const candidates = PATHS
+    .filter(p => p.action === action && state.pathProgress[p.id]?.unlocked)
+    .sort((a, b) => state.pathProgress[b.id].currentLevel - state.pathProgress[a.id].currentLevel);
+  return candidates[0]?.id || null;
+}
+
+function cultivateOrTrain(state: GameState): { action: ActionType; pathId: string | null } {
+  const cultivatePath = bestPathFor(state, 'cultivate');
+  if (cultivatePath) return { action: 'cultivate', pathId: cultivatePath };
+  return { action: 'train', pathId: bestPathFor(state, 'train') };
+}
+
+function firstAvailableChoice(state: GameState, event: GameEvent): number {
+  const idx = event.choices.findIndex(c => EventEngine.isChoiceAvailable(state, c));
+  return Math.max(0, idx);
+}
+
+/** Strikes while healthy, flees once below a third of max HP. */
+function strikeOrFlee(state: GameState): CombatAction {
+  const combat = state.combat;
+  if (combat && combat.playerHp < combat.playerMaxHp / 3) return 'flee';
+  return 'strike';
+}
+
+// ========== POLICIES ==========
+const cultivate: SimPolicy = {
+  id: 'cultivate',
+  description: 'Always cultivate (training until a cultivation path opens), breakthrough when ready, rebirth on death.',
+  chooseAction: cultivateOrTrain,
+  breakthroughWhenReady: true,
+  tribulationReflex: 0.8,
+  chooseEventOption: firstAvailableChoice,
+  chooseCombatAction: strikeOrFlee,
+  tameBeasts: false,
+  rebirthOnDeath: true,
+};
+
+export const SIM_POLICIES: SimPolicy[] = [
+  cultivate,
+  {
+    ...cultivate,
+    id: 'train',
+    description: 'Always train the body, breakthrough when ready, rebirth on death.',
+    chooseAction: state => ({ action: 'train', pathId: bestPathFor(state, 'train') }),
+  },
+  {
+    ...cultivate,
+    id: 'explorer',
+    description: 'Explore the first 15 minutes of every hour, cultivate the rest, tame any beast met.',
+    chooseAction: state => state.tickCount % 3600 < 900
+      ? { action: 'explore', pathId: state.activePathId }
+      : cultivateOrTrain(state),
+    tameBeasts: true,
+  },
+  {
+    ...cultivate,
+    id: 'hardcore',
+    description: 'Same as cultivate, but the run ends at the first death.',
+    rebirthOnDeath: false,
+  },
+];
@@ -0,0 +1,19 @@
+/**
+ * Checksum for save data.
+ *
+ * FNV-1a over the UTF-16 code units — cheap enough to run on every save and
+ * only meant to catch damaged or hand-edited data, not tampering.
+ */
+
+/**
+ * 32-bit FNV-1a hash of a string as 8 hex digits.
+ * @param text The string to hash
+ */
+export function checksum(text: string): string {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
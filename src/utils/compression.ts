@@ -0,0 +1,40 @@
+/**
+ * Text compression for save strings.
+ *
+ * Uses the platform's raw DEFLATE streams, so nothing is bundled; the
+ * compressed bytes are carried as base64 so they survive the clipboard.
+ */
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+/**
+ * DEFLATE a string and encode the result as base64.
+ * @param text Any string; encoded as UTF-8 first
+ */
+export async function compressToBase64(text: string): Promise<string> {
+  return toBase64(await pipe(new TextEncoder().encode(text), new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Reverse of compressToBase64. Rejects if the input is not valid base64 or
+ * not a complete DEFLATE stream.
+ * @param encoded Output of compressToBase64
+ */
+export async function decompressFromBase64(encoded: string): Promise<string> {
+  return new TextDecoder().decode(await pipe(fromBase64(encoded), new DecompressionStream('deflate-raw')));
+}
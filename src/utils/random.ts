@@ -1,16 +1,44 @@
 /**
  * Random utility functions for Incremental Cultivation: The Grand Dao
+ *
+ * Every helper draws from an explicit RngState (normally `state.rng`) rather
+ * than Math.random(), so a save replayed with the same inputs rolls the same
+ * outcomes.
  */
 
+import type { RngState } from '../data/types';
+
+/**
+ * Create a new generator. Without a seed one is drawn from Math.random(),
+ * which is the only place the engine touches the global RNG.
+ * @param seed Optional 32-bit seed
+ */
+export function createRng(seed?: number): RngState {
+  const s = (seed ?? Math.floor(Math.random() * 0x100000000)) >>> 0;
+  return { seed: s, state: s };
+}
+
+/**
+ * Next float in [0, 1) from a mulberry32 generator. Advances `rng.state` in place.
+ */
+export function random(rng: RngState): number {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
 /**
  * Weighted random selection from an array of items with probability fields.
  * Probabilities should sum to ~1.0.
+ * @param rng Generator to draw from
  * @param items Array of objects with a `probability` number field
  * @returns The selected item
  */
-export function weightedRandom<T extends { probability: number }>(items: T[]): T {
+export function weightedRandom<T extends { probability: number }>(rng: RngState, items: T[]): T {
   const totalWeight = items.reduce((sum, item) => sum + item.probability, 0);
-  let roll = Math.random() * totalWeight;
+  let roll = random(rng) * totalWeight;
   for (const item of items) {
     roll -= item.probability;
     if (roll <= 0) return item;
@@ -20,13 +48,14 @@ export function weightedRandom<T extends { probability: number }>(items: T[]): T
 
 /**
  * Weighted random selection using explicit weight values (not probabilities).
+ * @param rng Generator to draw from
  * @param items Array of items
  * @param weights Corresponding weights for each item
  * @returns The selected item
  */
-export function weightedRandomByWeights<T>(items: T[], weights: number[]): T {
+export function weightedRandomByWeights<T>(rng: RngState, items: T[], weights: number[]): T {
   const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-  let roll = Math.random() * totalWeight;
+  let roll = random(rng) * totalWeight;
   for (let i = 0; i < items.length; i++) {
     roll -= weights[i];
     if (roll <= 0) return items[i];
@@ -37,72 +66,91 @@ export function weightedRandomByWeights<T>(items: T[], weights: number[]): T {
 /**
  * Roll Luck value using a power curve distribution.
  * Most values cluster near 0.1 (low luck), with rare high values.
- * Math.pow(Math.random(), 2.5) gives heavy skew toward 0.
+ * Math.pow(random(rng), 2.5) gives heavy skew toward 0.
  * Clamped to [0.1, 1.0].
+ * @param rng Generator to draw from
  * @returns A float between 0.1 and 1.0
  */
-export function rollLuck(): number {
-  const raw = Math.pow(Math.random(), 2.5);
+export function rollLuck(rng: RngState): number {
+  const raw = Math.pow(random(rng), 2.5);
   return Math.max(0.1, Math.min(1.0, raw));
 }
 
 /**
  * Random integer between min (inclusive) and max (inclusive).
  */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function randomInt(rng: RngState, min: number, max: number): number {
+  return Math.floor(random(rng) * (max - min + 1)) + min;
 }
 
 /**
  * Random float between min and max.
  */
-export function randomFloat(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function randomFloat(rng: RngState, min: number, max: number): number {
+  return random(rng) * (max - min) + min;
 }
 
 /**
  * Percent chance check. Returns true if random roll is under the given percentage.
+ * @param rng Generator to draw from
  * @param percent 0-100 (e.g., 30 = 30% chance)
  */
-export function percentChance(percent: number): boolean {
-  return Math.random() * 100 < percent;
+export function percentChance(rng: RngState, percent: number): boolean {
+  return random(rng) * 100 < percent;
 }
 
 /**
  * Rate chance check. Returns true if random roll is under the given rate.
+ * @param rng Generator to draw from
  * @param rate 0.0-1.0 (e.g., 0.05 = 5% chance)
  */
-export function rateChance(rate: number): boolean {
-  return Math.random() < rate;
+export function rateChance(rng: RngState, rate: number): boolean {
+  return random(rng) < rate;
 }
 
 /**
  * Pick a random element from an array.
  */
-export function randomPick<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+export function randomPick<T>(rng: RngState, arr: T[]): T {
+  return arr[Math.floor(random(rng) * arr.length)];
 }
 
 /**
  * Shuffle an array (Fisher-Yates). Returns a new array.
  */
-export function shuffle<T>(arr: T[]): T[] {
+export function shuffle<T>(rng: RngState, arr: T[]): T[] {
   const result = [...arr];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random(rng) * (i + 1));
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
 }
 
+/**
+ * Id for something the player owns, drawn from the generator so a replayed
+ * save hands out the same ids. Draws again while the id is already taken.
+ * @param rng Generator to draw from
+ * @param prefix Start of the id, e.g. the species or blueprint
+ * @param taken Ids currently in use
+ */
+export function randomId(rng: RngState, prefix: string, taken: string[] = []): string {
+  let id: string;
+  do {
+    id = `${prefix}_${Math.floor(random(rng) * 0x100000000).toString(36)}`;
+  } while (taken.includes(id));
+  return id;
+}
+
 /**
  * Generate a rarity-weighted loot roll.
  * Higher luck increases chance of rarer items.
+ * @param rng Generator to draw from
  * @param luck Player luck value (0.1 - 1.0)
  * @returns A rarity tier string
  */
-export function rollRarity(luck: number): 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic' {
-  const roll = Math.random();
+export function rollRarity(rng: RngState, luck: number): 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic' {
+  const roll = random(rng);
   const luckMod = luck * 0.5; // Luck adds up to 50% boost to rarity thresholds
 
   // Mythic: base 0.01%, legendary: 0.1%, epic: 1%, rare: 5%, uncommon: 20%